@@ -7,11 +7,13 @@ const nextConfig: NextConfig = {
   },
   
   // Configure rewrites for API proxy (optional, if needed for CORS)
+  // Set the agent URL in settings to "/api/agent" to go through it
   async rewrites() {
+    const agentUrl = (process.env.AGENT_API_URL || process.env.NEXT_PUBLIC_AGENT_API_URL || 'http://localhost:8123').replace(/\/+$/, '');
     return [
       {
         source: '/api/agent/:path*',
-        destination: 'http://localhost:8123/:path*',
+        destination: `${agentUrl}/:path*`,
       },
     ];
   },
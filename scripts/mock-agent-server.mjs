@@ -0,0 +1,403 @@
+#!/usr/bin/env node
+// Mock LangGraph server for offline development and tests.
+// Implements the endpoints AgentApiService uses and streams canned
+// "Action: / Answer:" replies in the `updates` and `messages-tuple` formats.
+// POST /tts stands in for a speech server: it answers { text } with a beep
+// as long as reading the text would take.
+//
+//   npm run mock:agent
+//
+// Environment:
+//   MOCK_AGENT_PORT       port to listen on (default 8123)
+//   MOCK_AGENT_RESPONSES  JSON file with [{ "match": "<regex>", "response": "...", "interrupt"?: "..." }]
+//                         tried before the built-in replies; $1, $2… insert the regex groups
+//   MOCK_AGENT_TOKEN_DELAY_MS  delay between streamed tokens (default 30)
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const ASSISTANT_ID = 'mock-writesense-assistant';
+
+// Built-in replies, matched against the spoken command (first line of the last user message)
+const DEFAULT_RESPONSES = [
+  { match: '(?:thêm|tạo) trang(?: mới)?(?: (.+))?', response: 'Action: add_page\nAction content: $1\nAnswer: Đã thêm trang mới.' },
+  { match: 'trang (?:tiếp|sau)', response: 'Action: next_page\nAnswer: Đã chuyển sang trang tiếp theo.' },
+  { match: 'trang trước', response: 'Action: prev_page\nAnswer: Đã quay lại trang trước.' },
+  { match: 'đọc trang', response: 'Action: read_page\nAnswer: Đây là nội dung trang hiện tại.' },
+  { match: 'xóa trang', response: 'Action: delete_page\nAnswer: Đã xóa trang hiện tại.' },
+  { match: 'xóa tài liệu', response: 'Action: remove_doc\nAnswer: Đã xóa tài liệu.' },
+  { match: 'lưu', response: 'Action: save_doc\nAnswer: Đã lưu tài liệu.' },
+  { match: 'tạo tài liệu(?: (.+))?', response: 'Action: create_doc\nAction content: $1\nAnswer: Đã tạo tài liệu mới.' },
+  { match: '(?:đặt tên|đổi tên) tài liệu (?:là |thành )?(.+)', response: 'Action: set_title_doc\nAction content: $1\nAnswer: Đã đổi tên tài liệu.' },
+  { match: '(?:viết lại|sửa) trang(?: thành)? (.+)', response: 'Action: rewrite_page\nAction content: $1\nAnswer: Đã viết lại trang.' },
+  { match: '(?:thêm|viết)(?: vào trang)? (.+)', response: 'Action: add_to_page\nAction content: $1\nAnswer: Đã thêm nội dung vào trang.' },
+];
+
+const FALLBACK_RESPONSE = 'Action: reply_user\nAnswer: Tôi đã nhận lệnh "$0" (máy chủ giả lập).';
+
+const now = () => new Date().toISOString();
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const compileRules = rules => rules.map(rule => ({ ...rule, pattern: new RegExp(rule.match, 'i') }));
+
+const messageText = message => {
+  if (typeof message?.content === 'string') return message.content;
+  if (Array.isArray(message?.content)) return message.content.map(block => block?.text ?? '').join('');
+  return '';
+};
+
+const isUserMessage = message => message?.role === 'user' || message?.type === 'human';
+
+// The command is the first line; the page context follows after a blank line
+const getCommand = input => {
+  const messages = Array.isArray(input?.messages) ? input.messages : [];
+  const last = [...messages].reverse().find(isUserMessage);
+  return messageText(last).split('\n')[0].trim();
+};
+
+const fillTemplate = (template, match) =>
+  template
+    .replace(/\$(\d)/g, (_, index) => (match[Number(index)] ?? '').trim())
+    // Drop an empty "Action content:" line left by a missing optional group
+    .replace(/^Action content:\s*$\n?/m, '');
+
+// Split into word tokens, keeping the whitespace, as a model would stream them
+const tokenize = text => text.match(/\s*\S+/g) ?? [];
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async req => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : {};
+};
+
+// 16-bit mono WAV of a soft tone, about 60 ms per character so the client sees realistic durations
+const createToneWav = text => {
+  const sampleRate = 16000;
+  const samples = Math.round(sampleRate * Math.min(20, Math.max(0.3, text.length * 0.06)));
+  const wav = Buffer.alloc(44 + samples * 2);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples * 2, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples * 2, 40);
+  for (let i = 0; i < samples; i++) {
+    wav.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 3000), 44 + i * 2);
+  }
+  return wav;
+};
+
+const matchesMetadata = (metadata = {}, filter = {}) =>
+  Object.entries(filter).every(([key, value]) => JSON.stringify(metadata[key]) === JSON.stringify(value));
+
+/**
+ * Create the mock server without listening, so tests can pick the port:
+ *   const server = createMockAgentServer({ tokenDelayMs: 0 });
+ *   server.listen(0);
+ */
+export const createMockAgentServer = ({ responses = [], tokenDelayMs = 30, log = console.log } = {}) => {
+  const rules = compileRules([...responses, ...DEFAULT_RESPONSES]);
+  const assistant = {
+    assistant_id: ASSISTANT_ID,
+    graph_id: 'agent',
+    name: 'WriteSense (giả lập)',
+    description: 'Trợ lý giả lập cho phát triển offline',
+    config: {},
+    metadata: { mock: true },
+    version: 1,
+    created_at: now(),
+    updated_at: now(),
+  };
+  const threads = new Map();
+  const runs = new Map();
+
+  const createThread = (metadata = {}) => {
+    const thread = {
+      thread_id: randomUUID(),
+      created_at: now(),
+      updated_at: now(),
+      metadata,
+      status: 'idle',
+      values: { messages: [] },
+      // Set while a run is paused on an interrupt
+      pending: undefined,
+    };
+    threads.set(thread.thread_id, thread);
+    return thread;
+  };
+
+  const publicThread = ({ pending, ...thread }) => ({ ...thread, interrupts: pending ? { [pending.id]: [pending.interrupt] } : {} });
+
+  const getThreadState = thread => ({
+    values: thread.values,
+    next: thread.pending ? ['agent'] : [],
+    tasks: thread.pending ? [{ id: thread.pending.id, name: 'agent', interrupts: [thread.pending.interrupt] }] : [],
+    metadata: thread.metadata,
+    created_at: thread.updated_at,
+    checkpoint: { thread_id: thread.thread_id, checkpoint_ns: '', checkpoint_id: randomUUID() },
+  });
+
+  const publicRun = run => ({
+    run_id: run.run_id,
+    thread_id: run.thread_id,
+    assistant_id: run.assistant_id,
+    status: run.status,
+    metadata: run.metadata,
+    multitask_strategy: run.multitask_strategy,
+    created_at: run.created_at,
+    updated_at: run.updated_at,
+  });
+
+  // Decide what the run answers: a fresh command, or the reply to a paused one
+  const planReply = (thread, runData) => {
+    if (runData.command?.resume !== undefined) {
+      const pending = thread.pending;
+      thread.pending = undefined;
+      if (!pending) return { text: 'Action: reply_user\nAnswer: Không có thao tác nào đang chờ xác nhận.' };
+      const resume = runData.command.resume;
+      const confirmed = typeof resume === 'object' && resume !== null ? resume.confirmed !== false : Boolean(resume);
+      return { text: confirmed ? pending.text : 'Action: reply_user\nAnswer: Đã hủy thao tác.' };
+    }
+
+    const command = getCommand(runData.input);
+    const rule = rules.find(candidate => candidate.pattern.test(command));
+    const match = rule ? command.match(rule.pattern) : [command];
+    return {
+      command,
+      text: fillTemplate(rule?.response ?? FALLBACK_RESPONSE, match),
+      interrupt: rule?.interrupt ? fillTemplate(rule.interrupt, match) : undefined,
+    };
+  };
+
+  const emit = (run, event, data) => {
+    const entry = { id: String(run.events.length), event, data };
+    run.events.push(entry);
+    run.listeners.forEach(listener => listener(entry));
+  };
+
+  const finishRun = (run, status) => {
+    run.status = status;
+    run.updated_at = now();
+    emit(run, 'end', null);
+    run.listeners.clear();
+  };
+
+  const executeRun = async (thread, run, runData) => {
+    const modes = [runData.stream_mode ?? 'values'].flat();
+    const reply = planReply(thread, runData);
+    log(`🤖 Run ${run.run_id}: "${reply.command ?? 'resume'}"`);
+
+    emit(run, 'metadata', { run_id: run.run_id, attempt: 1 });
+
+    if (reply.command !== undefined) {
+      thread.values.messages.push({ id: randomUUID(), type: 'human', content: reply.command });
+    }
+
+    if (reply.interrupt) {
+      thread.pending = { id: randomUUID(), text: reply.text, interrupt: { value: reply.interrupt, resumable: true, ns: ['agent'], when: 'during' } };
+      if (modes.includes('updates')) emit(run, 'updates', { __interrupt__: [thread.pending.interrupt] });
+      if (modes.includes('values')) emit(run, 'values', thread.values);
+      thread.status = 'interrupted';
+      thread.updated_at = now();
+      finishRun(run, 'interrupted');
+      return;
+    }
+
+    const messageId = `run-${run.run_id}`;
+    if (modes.includes('messages-tuple')) {
+      for (const token of tokenize(reply.text)) {
+        if (run.cancelled) return finishRun(run, 'interrupted');
+        if (tokenDelayMs) await sleep(tokenDelayMs);
+        emit(run, 'messages', [
+          { id: messageId, type: 'AIMessageChunk', content: token },
+          { run_id: run.run_id, thread_id: thread.thread_id, langgraph_node: 'agent' },
+        ]);
+      }
+    } else if (tokenDelayMs) {
+      await sleep(tokenDelayMs);
+    }
+    if (run.cancelled) return finishRun(run, 'interrupted');
+
+    const aiMessage = { id: messageId, type: 'ai', content: reply.text, tool_calls: [] };
+    thread.values.messages.push(aiMessage);
+    thread.status = 'idle';
+    thread.updated_at = now();
+
+    if (modes.includes('updates')) emit(run, 'updates', { agent: { messages: [aiMessage] } });
+    if (modes.includes('values')) emit(run, 'values', thread.values);
+    finishRun(run, 'success');
+  };
+
+  const startRun = (thread, runData) => {
+    const run = {
+      run_id: randomUUID(),
+      thread_id: thread.thread_id,
+      assistant_id: runData.assistant_id ?? ASSISTANT_ID,
+      status: 'running',
+      metadata: runData.metadata ?? {},
+      multitask_strategy: runData.multitask_strategy ?? 'reject',
+      created_at: now(),
+      updated_at: now(),
+      events: [],
+      listeners: new Set(),
+      cancelled: false,
+    };
+    runs.set(run.run_id, run);
+    thread.status = 'busy';
+    run.done = executeRun(thread, run, runData).catch(error => {
+      log('❌ Mock run failed:', error);
+      emit(run, 'error', { error: 'MockError', message: String(error) });
+      finishRun(run, 'error');
+    });
+    return run;
+  };
+
+  // Write the run's events after lastEventId, then follow it live until it ends
+  const streamRunEvents = (req, res, run, lastEventId) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const write = entry => {
+      res.write(`id: ${entry.id}\nevent: ${entry.event}\ndata: ${JSON.stringify(entry.data)}\n\n`);
+      if (entry.event === 'end') res.end();
+    };
+
+    const start = lastEventId === undefined ? 0 : Number(lastEventId) + 1;
+    run.events.slice(start).forEach(write);
+    if (run.status !== 'running') return res.end();
+
+    run.listeners.add(write);
+    // The run keeps going when the client disconnects, like on_disconnect: 'continue'
+    req.on('close', () => run.listeners.delete(write));
+  };
+
+  const routes = [
+    ['GET', /^\/ok$/, (req, res) => sendJson(res, 200, { ok: true })],
+
+    ['POST', /^\/tts$/, async (req, res) => {
+      const { text = '' } = await readBody(req);
+      log(`🔊 TTS: "${text.slice(0, 50)}"`);
+      res.writeHead(200, { 'Content-Type': 'audio/wav' }).end(createToneWav(text));
+    }],
+
+    ['POST', /^\/assistants\/search$/, (req, res) => sendJson(res, 200, [assistant])],
+    ['GET', /^\/assistants\/([^/]+)$/, (req, res, [id]) =>
+      id === ASSISTANT_ID ? sendJson(res, 200, assistant) : sendJson(res, 404, { detail: 'Assistant not found' })],
+
+    ['POST', /^\/threads$/, async (req, res) => {
+      const body = await readBody(req);
+      sendJson(res, 200, publicThread(createThread(body.metadata)));
+    }],
+    ['POST', /^\/threads\/search$/, async (req, res) => {
+      const { metadata, limit = 10, offset = 0 } = await readBody(req);
+      const found = [...threads.values()]
+        .filter(thread => matchesMetadata(thread.metadata, metadata))
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .slice(offset, offset + limit);
+      sendJson(res, 200, found.map(publicThread));
+    }],
+    ['GET', /^\/threads\/([^/]+)$/, (req, res, [, thread]) => sendJson(res, 200, publicThread(thread))],
+    ['DELETE', /^\/threads\/([^/]+)$/, (req, res, [id]) => {
+      threads.delete(id);
+      res.writeHead(204).end();
+    }],
+
+    ['GET', /^\/threads\/([^/]+)\/state$/, (req, res, [, thread]) => sendJson(res, 200, getThreadState(thread))],
+    ['POST', /^\/threads\/([^/]+)\/state$/, async (req, res, [, thread]) => {
+      const { values } = await readBody(req);
+      thread.values = { ...thread.values, ...values };
+      thread.updated_at = now();
+      sendJson(res, 200, { checkpoint: getThreadState(thread).checkpoint });
+    }],
+
+    ['POST', /^\/threads\/([^/]+)\/runs\/stream$/, async (req, res, [, thread]) => {
+      const run = startRun(thread, await readBody(req));
+      streamRunEvents(req, res, run);
+    }],
+    ['POST', /^\/threads\/([^/]+)\/runs\/wait$/, async (req, res, [, thread]) => {
+      const run = startRun(thread, await readBody(req));
+      await run.done;
+      sendJson(res, 200, thread.values);
+    }],
+    ['POST', /^\/threads\/([^/]+)\/runs$/, async (req, res, [, thread]) => {
+      const run = startRun(thread, await readBody(req));
+      sendJson(res, 200, publicRun(run));
+    }],
+    ['GET', /^\/threads\/([^/]+)\/runs$/, (req, res, [id]) =>
+      sendJson(res, 200, [...runs.values()].filter(run => run.thread_id === id).map(publicRun))],
+    ['GET', /^\/threads\/([^/]+)\/runs\/([^/]+)\/stream$/, (req, res, [, , run]) =>
+      streamRunEvents(req, res, run, req.headers['last-event-id'])],
+    ['GET', /^\/threads\/([^/]+)\/runs\/([^/]+)$/, (req, res, [, , run]) => sendJson(res, 200, publicRun(run))],
+    ['POST', /^\/threads\/([^/]+)\/runs\/([^/]+)\/cancel$/, (req, res, [, , run]) => {
+      run.cancelled = true;
+      res.writeHead(202).end();
+    }],
+  ];
+
+  // Path params named after a thread or run resolve to the object, or 404
+  const resolveParams = (path, params) => {
+    const resolved = [...params];
+    if (path.startsWith('/threads/') && params[0] !== undefined) {
+      resolved[1] = threads.get(params[0]);
+      if (!resolved[1]) return { error: 'Thread not found' };
+    }
+    if (params[1] !== undefined && path.includes('/runs/')) {
+      resolved[2] = runs.get(params[1]);
+      if (!resolved[2]) return { error: 'Run not found' };
+    }
+    return { params: resolved };
+  };
+
+  return http.createServer(async (req, res) => {
+    // The app calls the agent straight from the browser on another port
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Api-Key, Last-Event-ID');
+    if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    for (const [method, pattern, handler] of routes) {
+      const match = req.method === method ? pathname.match(pattern) : null;
+      if (!match) continue;
+
+      const { params, error } = resolveParams(pathname, match.slice(1));
+      if (error) return sendJson(res, 404, { detail: error });
+      try {
+        await handler(req, res, params);
+      } catch (err) {
+        log('❌ Mock request failed:', err);
+        if (!res.headersSent) sendJson(res, 400, { detail: String(err) });
+      }
+      return;
+    }
+    sendJson(res, 404, { detail: 'Not Found' });
+  });
+};
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.MOCK_AGENT_PORT ?? 8123);
+  const responsesPath = process.env.MOCK_AGENT_RESPONSES;
+  const responses = responsesPath ? JSON.parse(readFileSync(responsesPath, 'utf8')) : [];
+  const tokenDelayMs = Number(process.env.MOCK_AGENT_TOKEN_DELAY_MS ?? 30);
+
+  createMockAgentServer({ responses, tokenDelayMs }).listen(port, () => {
+    console.log(`🧪 Mock LangGraph server on http://localhost:${port} (assistant ${ASSISTANT_ID})`);
+  });
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMockAgentServer } from './mock-agent-server.mjs';
+import { createSseDecoder } from '../src/lib/sse';
+
+let server;
+let baseUrl;
+
+const start = (options = {}) =>
+  new Promise(resolve => {
+    server = createMockAgentServer({ tokenDelayMs: 0, log: () => undefined, ...options });
+    server.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${server.address().port}`;
+      resolve();
+    });
+  });
+
+const request = async (method, path, body, headers = {}) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return response;
+};
+
+const json = async (method, path, body) => (await request(method, path, body)).json();
+
+// All events of a run stream, with their data parsed
+const readEvents = async response => {
+  const decoder = createSseDecoder();
+  const events = decoder.push(await response.text());
+  return events.map(event => ({ ...event, data: JSON.parse(event.data) }));
+};
+
+const userInput = text => ({ messages: [{ role: 'user', content: `${text}\n\nTrang 1: ...` }] });
+
+const streamRun = async (threadId, body) =>
+  readEvents(await request('POST', `/threads/${threadId}/runs/stream`, { assistant_id: 'mock-writesense-assistant', ...body }));
+
+describe('mock agent server', () => {
+  afterEach(() => new Promise(resolve => server.close(resolve)));
+
+  describe('with the built-in replies', () => {
+    beforeEach(() => start());
+
+    it('lists its assistant', async () => {
+      const [assistant] = await json('POST', '/assistants/search', {});
+      expect(assistant.assistant_id).toBe('mock-writesense-assistant');
+    });
+
+    it('streams the reply as tokens and as an update, then ends', async () => {
+      const thread = await json('POST', '/threads', { metadata: { document_id: 'doc-1' } });
+      const events = await streamRun(thread.thread_id, {
+        input: userInput('xóa trang'),
+        stream_mode: ['updates', 'messages-tuple'],
+      });
+
+      const tokens = events.filter(event => event.event === 'messages').map(event => event.data[0].content);
+      const update = events.find(event => event.event === 'updates');
+      expect(tokens.join('')).toBe('Action: delete_page\nAnswer: Đã xóa trang hiện tại.');
+      expect(update.data.agent.messages[0].content).toBe(tokens.join(''));
+      expect(events.at(-1).event).toBe('end');
+    });
+
+    it('keeps the conversation in the thread state', async () => {
+      const thread = await json('POST', '/threads', {});
+      await streamRun(thread.thread_id, { input: userInput('trang tiếp'), stream_mode: 'updates' });
+
+      const state = await json('GET', `/threads/${thread.thread_id}/state`);
+      expect(state.values.messages.map(message => message.type)).toEqual(['human', 'ai']);
+      expect(state.values.messages[0].content).toBe('trang tiếp');
+    });
+
+    it('finds threads by metadata', async () => {
+      await json('POST', '/threads', { metadata: { document_id: 'a' } });
+      const b = await json('POST', '/threads', { metadata: { document_id: 'b' } });
+
+      const found = await json('POST', '/threads/search', { metadata: { document_id: 'b' } });
+      expect(found.map(thread => thread.thread_id)).toEqual([b.thread_id]);
+    });
+
+    it('replays a run stream after the last event id', async () => {
+      const thread = await json('POST', '/threads', {});
+      const run = await json('POST', `/threads/${thread.thread_id}/runs`, {
+        input: userInput('lưu'),
+        stream_mode: 'updates',
+      });
+
+      const all = await readEvents(await request('GET', `/threads/${thread.thread_id}/runs/${run.run_id}/stream`));
+      const rest = await readEvents(await request('GET', `/threads/${thread.thread_id}/runs/${run.run_id}/stream`, undefined, {
+        'Last-Event-ID': all[0].id,
+      }));
+      expect(rest.map(event => event.id)).toEqual(all.slice(1).map(event => event.id));
+    });
+
+    it('answers 404 for an unknown thread', async () => {
+      const response = await request('GET', '/threads/missing');
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('with custom replies', () => {
+    beforeEach(() => start({
+      responses: [{ match: 'xóa tài liệu', response: 'Action: remove_doc\nAnswer: Đã xóa tài liệu.', interrupt: 'Xóa tài liệu?' }],
+    }));
+
+    it('pauses on the interrupt and cancels when the resume is declined', async () => {
+      const thread = await json('POST', '/threads', {});
+      const paused = await streamRun(thread.thread_id, { input: userInput('xóa tài liệu'), stream_mode: 'updates' });
+      expect(paused.find(event => event.event === 'updates').data.__interrupt__[0].value).toBe('Xóa tài liệu?');
+
+      const resumed = await streamRun(thread.thread_id, { command: { resume: { confirmed: false } }, stream_mode: 'updates' });
+      expect(resumed.find(event => event.event === 'updates').data.agent.messages[0].content).toContain('Đã hủy thao tác.');
+    });
+
+    it('runs the paused reply when the resume is confirmed', async () => {
+      const thread = await json('POST', '/threads', {});
+      await streamRun(thread.thread_id, { input: userInput('xóa tài liệu'), stream_mode: 'updates' });
+
+      const resumed = await streamRun(thread.thread_id, { command: { resume: true }, stream_mode: 'updates' });
+      expect(resumed.find(event => event.event === 'updates').data.agent.messages[0].content).toBe(
+        'Action: remove_doc\nAnswer: Đã xóa tài liệu.'
+      );
+    });
+  });
+});
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { getDocumentRepository } from '@/server/documentRepository';
+
+// GET /api/deleted-documents - ids of deleted documents and when they were deleted
+export async function GET() {
+  const tombstones = await getDocumentRepository().listDeleted();
+  return NextResponse.json(tombstones);
+}
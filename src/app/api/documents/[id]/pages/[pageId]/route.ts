@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentRepository, parsePageInput } from '@/server/documentRepository';
+
+interface RouteContext {
+  params: Promise<{ id: string; pageId: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Page not found' }, { status: 404 });
+
+// GET /api/documents/:id/pages/:pageId
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id, pageId } = await params;
+  const page = await getDocumentRepository().getPage(id, pageId);
+  return page ? NextResponse.json(page) : notFound();
+}
+
+// PATCH /api/documents/:id/pages/:pageId - update page title or content
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id, pageId } = await params;
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const input = parsePageInput(body);
+  if (!input) {
+    return NextResponse.json({ error: 'Invalid page' }, { status: 400 });
+  }
+  const page = await getDocumentRepository().updatePage(id, pageId, input);
+  return page ? NextResponse.json(page) : notFound();
+}
+
+// DELETE /api/documents/:id/pages/:pageId - remaining pages are renumbered
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id, pageId } = await params;
+  const deleted = await getDocumentRepository().deletePage(id, pageId);
+  return deleted
+    ? new NextResponse(null, { status: 204 })
+    : NextResponse.json({ error: 'Page not found or is the only page' }, { status: 404 });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentRepository, parsePageInput } from '@/server/documentRepository';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Document not found' }, { status: 404 });
+
+// GET /api/documents/:id/pages
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const pages = await getDocumentRepository().listPages(id);
+  return pages ? NextResponse.json(pages) : notFound();
+}
+
+// POST /api/documents/:id/pages - append a page
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const input = parsePageInput(body);
+  if (!input) {
+    return NextResponse.json({ error: 'Invalid page' }, { status: 400 });
+  }
+  const page = await getDocumentRepository().createPage(id, input);
+  return page ? NextResponse.json(page, { status: 201 }) : notFound();
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentRepository, isDocument, parseDocumentInput } from '@/server/documentRepository';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Document not found' }, { status: 404 });
+
+// GET /api/documents/:id
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const document = await getDocumentRepository().get(id);
+  return document ? NextResponse.json(document) : notFound();
+}
+
+// PUT /api/documents/:id[?restore=true] - replace the whole document, creating it if needed.
+// A deleted document is only taken back with restore=true.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  if (!isDocument(body)) {
+    return NextResponse.json({ error: 'Invalid document' }, { status: 400 });
+  }
+  const restore = request.nextUrl.searchParams.get('restore') === 'true';
+  const document = await getDocumentRepository().save({ ...body, id }, { restore });
+  return document
+    ? NextResponse.json(document)
+    : NextResponse.json({ error: 'Document was deleted' }, { status: 409 });
+}
+
+// PATCH /api/documents/:id - update title, pages, current page or metadata
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const input = parseDocumentInput(body);
+  if (!input) {
+    return NextResponse.json({ error: 'Invalid document' }, { status: 400 });
+  }
+  const document = await getDocumentRepository().update(id, input);
+  return document ? NextResponse.json(document) : notFound();
+}
+
+// DELETE /api/documents/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const deleted = await getDocumentRepository().delete(id);
+  return deleted ? new NextResponse(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentRepository, parseDocumentInput } from '@/server/documentRepository';
+
+// GET /api/documents - list all documents
+export async function GET() {
+  const documents = await getDocumentRepository().list();
+  return NextResponse.json(documents);
+}
+
+// POST /api/documents - create a document
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const input = parseDocumentInput(body);
+  if (!input) {
+    return NextResponse.json({ error: 'Invalid document' }, { status: 400 });
+  }
+  const document = await getDocumentRepository().create(input);
+  return NextResponse.json(document, { status: 201 });
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { elevenLabsErrorResponse, getElevenLabsBackend } from '@/server/elevenLabsBackend';
+
+const optionalBoolean = (value: FormDataEntryValue | null) =>
+  typeof value === 'string' ? value === 'true' : undefined;
+
+// POST /api/elevenlabs/speech-to-text - multipart "file" plus optional language_code, model_id, tag_audio_events, diarize
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!form || !(file instanceof Blob)) {
+    return NextResponse.json({ error: 'Missing audio file' }, { status: 400 });
+  }
+
+  try {
+    const result = await getElevenLabsBackend().speechToText(file, {
+      languageCode: (form.get('language_code') as string | null) || undefined,
+      modelId: (form.get('model_id') as string | null) || undefined,
+      tagAudioEvents: optionalBoolean(form.get('tag_audio_events')),
+      diarize: optionalBoolean(form.get('diarize')),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    return elevenLabsErrorResponse(error);
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { getElevenLabsBackend } from '@/server/elevenLabsBackend';
+
+// GET /api/elevenlabs/status - whether the server can reach ElevenLabs
+export async function GET() {
+  return NextResponse.json({ configured: getElevenLabsBackend().isConfigured() });
+}
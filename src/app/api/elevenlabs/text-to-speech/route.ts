@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { elevenLabsErrorResponse, getElevenLabsBackend } from '@/server/elevenLabsBackend';
+import { TTSOptions } from '@/types';
+
+// Answers are spoken sentence by sentence; anything longer is not a spoken answer
+const MAX_TEXT_LENGTH = 5000;
+
+// POST /api/elevenlabs/text-to-speech - { text, ...TTSOptions }, text up to 5000 characters; streams the audio back as it is generated
+export async function POST(request: NextRequest) {
+  const { text, ...options }: { text?: string } & TTSOptions = await request.json().catch(() => ({}));
+  if (typeof text !== 'string' || !text.trim()) {
+    return NextResponse.json({ error: 'Missing text' }, { status: 400 });
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    return NextResponse.json({ error: `Text longer than ${MAX_TEXT_LENGTH} characters` }, { status: 413 });
+  }
+
+  try {
+    const audio = await getElevenLabsBackend().textToSpeech(text, options);
+    return new Response(audio.body, {
+      headers: { 'Content-Type': audio.contentType, 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    return elevenLabsErrorResponse(error);
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { elevenLabsErrorResponse, getElevenLabsBackend } from '@/server/elevenLabsBackend';
+
+// GET /api/elevenlabs/voices
+export async function GET() {
+  try {
+    return NextResponse.json(await getElevenLabsBackend().getVoices());
+  } catch (error) {
+    return elevenLabsErrorResponse(error);
+  }
+}
@@ -1,22 +1,215 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useReducer } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import { Undo2, Redo2, GitCompare, Settings, MessagesSquare, AudioLines } from 'lucide-react';
 import { VoiceController } from '@/components/VoiceController';
 import { DocumentManager } from '@/components/DocumentManager';
 import { DocumentEditor } from '@/components/DocumentEditor';
-import { Document, Thread, Assistant } from '@/types';
-import AgentApiService from '@/services/agentApi';
+import { ReviewPanel } from '@/components/ReviewPanel';
+import { AgentSettingsPanel } from '@/components/AgentSettingsPanel';
+import { SpeechSettingsPanel } from '@/components/SpeechSettingsPanel';
+import { ThreadsPanel } from '@/components/ThreadsPanel';
+import { AgentStatusIndicator } from '@/components/AgentStatusIndicator';
+import { Document, Thread, Assistant, AgentAction, AgentToolCall, AgentInterrupt, AgentSettings, AgentStreamEvent, Announcement, DocumentTombstone, QueuedCommand, RunCreate, SpeechSettings, StreamedAnswer } from '@/types';
+import AgentApiService, { AgentRunError, AgentStreamOptions, isAgentNotFound, isAgentUnreachable } from '@/services/agentApi';
+import AgentSettingsService, { DEFAULT_AGENT_SETTINGS } from '@/services/agentSettings';
+import SpeechSettingsService, { DEFAULT_SPEECH_SETTINGS } from '@/services/speechSettings';
+import DocumentStorageService from '@/services/documentStorage';
+import DocumentService from '@/services/documentApi';
+import { parseAgentResponse, AgentResponseParseResult, AGENT_ACTION_FORMAT_HINT } from '@/lib/agentActions';
+import { executeAgentActions } from '@/lib/agentBatch';
+import { createAnswerSentenceStream } from '@/lib/answerStream';
+import {
+  AgentStreamHandlers,
+  dispatchAgentStreamEvent,
+  getMessageText,
+  getUpdatesInterrupt,
+  getUpdatesMessages,
+  isAiMessage,
+} from '@/lib/agentStream';
+import {
+  DocumentAction,
+  selectCurrentDocument,
+  selectCurrentPage,
+  createDocument,
+} from '@/lib/documentReducer';
+import { documentHistoryReducer, initialDocumentHistoryState, ChangeSource } from '@/lib/documentHistory';
+import {
+  ReviewProposal,
+  buildReviewProposal,
+  getProposalHunkIds,
+  isProposalDecided,
+  parseReviewCommand,
+  resolveProposal,
+  summarizeProposal,
+} from '@/lib/agentReview';
+import { HunkDecision } from '@/lib/wordDiff';
+import {
+  PendingConfirmation,
+  buildConfirmationQuestion,
+  classifyConfirmation,
+  getInterruptQuestion,
+  mentionsDestructiveAction,
+} from '@/lib/confirmation';
+import { findAssistant, describeAssistants, getAssistantLabel, parseAssistantCommand } from '@/lib/assistantSelection';
+import { parseLocalCommand } from '@/lib/localCommands';
+import { formatSpokenText } from '@/lib/spokenPunctuation';
+import {
+  ConversationMessage,
+  buildThreadMetadata,
+  describeThreads,
+  findUnusedThreads,
+  getLinkedThreadId,
+  linkThreadMetadata,
+  parseThreadCommand,
+  threadStateToConversation,
+  unlinkThreadsMetadata,
+} from '@/lib/agentThreads';
+import { ReplayOutcome, createQueuedCommand, describeReplay, findQueuedCommandConflict } from '@/lib/commandQueue';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useAgentHealth, AgentHealthStatus } from '@/hooks/useAgentHealth';
+
+// How many times an invalid agent payload is sent back for correction
+const MAX_CORRECTION_ATTEMPTS = 1;
+
+// Spoken while a dropped run stream is being rejoined
+const RECONNECTING_NOTICE = 'Đang kết nối lại…';
+
+// How often saved offline commands are retried while the agent is unreachable
+const COMMAND_REPLAY_INTERVAL_MS = 30000;
+
+// What became of an agent response: applied, rejected, or waiting for the user (confirmation or review)
+type ActionOutcome = { status: 'applied' } | { status: 'failed'; reason: string } | { status: 'pending' };
+
+// The user message with the current page as context, and the run that sends it after the conversation so far
+const buildAgentRun = (
+  command: string,
+  assistantId: string,
+  currentDocument: Document | undefined,
+  documents: Document[],
+  conversationHistory: ConversationMessage[],
+  action = 'voice_command'
+) => {
+  // ✅ FIXED: Proper message format for LangGraph API with conversation history
+  const currentPage = selectCurrentPage(currentDocument);
+  const currentDocumentContent = currentPage?.content || '';
+  const pageTitle = currentPage?.title || '';
+  const pageNumber = currentPage?.page_number || 1;
+  const totalPages = currentDocument?.pages.length || 1;
+
+  const userMessage = `${command}\n\nCurrent page: ${pageNumber}/${totalPages}${pageTitle ? ` - ${pageTitle}` : ''}\nCurrent page content: ${currentDocumentContent}`;
+
+  // ✅ ADDED: Include conversation history for multi-turn context
+  const messagesForAPI = [
+    ...conversationHistory,  // Include previous conversation
+    {
+      role: "user",
+      content: userMessage
+    }
+  ];
+
+  const runData: RunCreate = {
+    assistant_id: assistantId,
+    input: {
+      messages: messagesForAPI  // ✅ Include full conversation history
+    },
+    // 'updates' carries the complete messages, 'messages-tuple' the tokens for early speech
+    stream_mode: ['updates', 'messages-tuple'],
+    metadata: {
+      current_document: currentDocument?.id,
+      current_page: currentDocument?.current_page,
+      total_pages: currentDocument?.pages.length,
+      documents: documents.map(doc => ({
+        id: doc.id,
+        title: doc.title,
+        total_pages: doc.pages.length,
+        current_page: doc.current_page
+      })),
+      action
+    }
+  };
+
+  return { userMessage, messagesForAPI, runData };
+};
+
+// Merge local and server copies of the documents, keeping the most recently updated one.
+// A document deleted after its last update, here or in another browser, stays deleted.
+const mergeDocuments = (local: Document[], remote: Document[], tombstones: DocumentTombstone[]): Document[] => {
+  const deletedAt = new Map<string, string>();
+  for (const tombstone of tombstones) {
+    if (tombstone.deleted_at > (deletedAt.get(tombstone.id) ?? '')) {
+      deletedAt.set(tombstone.id, tombstone.deleted_at);
+    }
+  }
+
+  const merged = new Map<string, Document>();
+  for (const doc of [...local, ...remote]) {
+    const existing = merged.get(doc.id);
+    if (!existing || doc.updated_at > existing.updated_at) {
+      merged.set(doc.id, doc);
+    }
+  }
+  return [...merged.values()]
+    .filter(doc => doc.updated_at > (deletedAt.get(doc.id) ?? ''))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+};
 
 export default function HomePage() {
   // Application state
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [currentDocument, setCurrentDocument] = useState<Document | undefined>();
+  // All document changes are dispatched through documentReducer, wrapped with undo/redo history
+  const [history, dispatchHistory] = useReducer(documentHistoryReducer, initialDocumentHistoryState);
+  const documentState = history.present;
+  const { documents } = documentState;
+  const currentDocument = selectCurrentDocument(documentState);
+  // Latest document state for async handlers, so they never act on a stale snapshot
+  const documentStateRef = useRef(documentState);
+  const historyRef = useRef(history);
+
+  const dispatch = useCallback((action: DocumentAction, source: ChangeSource = 'manual', turnId?: string) => {
+    dispatchHistory({ type: 'apply', action, source, turnId });
+  }, []);
   const [isEditing, setIsEditing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [currentThread, setCurrentThread] = useState<Thread | undefined>();
   const [assistants, setAssistants] = useState<Assistant[]>([]);
   const [currentAssistant, setCurrentAssistant] = useState<Assistant | undefined>();
+  // Agent URL, auth and preferred assistant; read from storage once the client has loaded
+  const [agentSettings, setAgentSettings] = useState<AgentSettings>(DEFAULT_AGENT_SETTINGS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Speech backends; the voice controller picks up saved changes by itself
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [isSpeechSettingsOpen, setIsSpeechSettingsOpen] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  // Threads listed in the conversations panel
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [isThreadsOpen, setIsThreadsOpen] = useState(false);
+  // Thread used while no document is open, kept for the session
+  const workspaceThreadRef = useRef<{ assistantId: string; thread: Thread } | undefined>(undefined);
+  const threadRequestsRef = useRef(new Map<string, Promise<{ thread: Thread; history: ConversationMessage[] }>>());
+  const connectRequestRef = useRef<{ key: string; request: Promise<Assistant | undefined> } | undefined>(undefined);
+
+  // Voice commands saved while the agent was unreachable
+  const [queuedCommandCount, setQueuedCommandCount] = useState(0);
+  const isReplayingRef = useRef(false);
+  // Latest retry function, for the timers and listeners below
+  const retryQueuedCommandsRef = useRef<() => Promise<void>>(async () => {});
+  // Spoken between turns by the voice controller
+  const [announcement, setAnnouncement] = useState<Announcement | undefined>();
+  const announce = useCallback((text: string) => setAnnouncement({ id: uuidv4(), text }), []);
+
+  // Say when the agent goes down or comes back; saved commands are sent on recovery
+  const handleAgentHealthChange = useCallback((status: AgentHealthStatus, previous: AgentHealthStatus) => {
+    if (status === 'down') {
+      announce('Mất kết nối với trợ lý. Lệnh của bạn sẽ được lưu và gửi lại khi có kết nối.');
+    } else if (previous === 'down') {
+      announce(status === 'degraded' ? 'Đã kết nối lại với trợ lý, nhưng kết nối còn chậm.' : 'Đã kết nối lại với trợ lý.');
+      retryQueuedCommandsRef.current();
+    } else if (status === 'degraded' && previous === 'healthy') {
+      announce('Kết nối với trợ lý đang chậm.');
+    }
+  }, [announce]);
+
   
   // ✅ ADDED: Conversation history management
   const [conversationHistory, setConversationHistory] = useState<Array<{role: string, content: string}>>([]);
@@ -24,10 +217,46 @@ export default function HomePage() {
   // Voice interaction state
   const [agentResponse, setAgentResponse] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
+  // Answer sentences of the running turn, spoken before the turn completes
+  const [streamedAnswer, setStreamedAnswer] = useState<StreamedAnswer | undefined>();
   const [isLoading, setIsLoading] = useState(true); // Start with loading true
   const [isClient, setIsClient] = useState(false);
+
+  const agentHealth = useAgentHealth({
+    apiUrl: agentSettings.apiUrl,
+    enabled: isClient,
+    onStatusChange: handleAgentHealthChange,
+  });
+  const { status: agentHealthStatus, checkNow: checkAgentHealth } = agentHealth;
+
   const [isInteractionMode, setIsInteractionMode] = useState(true); // Always in interaction mode for accessibility
 
+  // Review mode: agent page edits are shown as a diff and wait for accept/reject
+  const [reviewMode, setReviewMode] = usePersistentState('reviewMode', false);
+  const [pendingReview, setPendingReview] = useState<ReviewProposal | undefined>();
+  const reviewModeRef = useRef(reviewMode);
+  const pendingReviewRef = useRef(pendingReview);
+
+  // Agent run in flight; cleared on barge-in so its late result is discarded
+  // Its controller aborts the run's stream
+  const activeRunRef = useRef<{ turnId: string; threadId: string; runId?: string; controller: AbortController } | undefined>(undefined);
+  const isTurnCancelled = useCallback((turnId: string) => activeRunRef.current?.turnId !== turnId, []);
+
+  // Destructive step waiting for a spoken yes/no; the next utterance answers it
+  const pendingConfirmationRef = useRef<PendingConfirmation | undefined>(undefined);
+  
+  // Local persistence: only write back once the stored workspace has been loaded
+  const hasHydratedRef = useRef(false);
+  // Documents kept in IndexedDB, to delete the ones removed from the workspace
+  const storedDocumentIdsRef = useRef<Set<string>>(new Set());
+  // Last version of each document pushed to the server store, to only sync what changed
+  const syncedDocumentsRef = useRef<Map<string, Document>>(new Map());
+  // Deletions the server store has not confirmed yet; kept in IndexedDB and retried until it does
+  const pendingDeletionsRef = useRef<Map<string, DocumentTombstone>>(new Map());
+  const deletionsInFlightRef = useRef<Set<string>>(new Set());
+  // Documents deleted in this session, to notice one brought back by undo
+  const deletedDocumentIdsRef = useRef<Set<string>>(new Set());
+
   // Ensure client-side hydration
   useEffect(() => {
     setIsClient(true);
@@ -42,40 +271,286 @@ export default function HomePage() {
     return newHistory;
   }, []);
 
-  // Helper functions for page management
-  const getCurrentPage = useCallback((document: Document) => {
-    return document.pages.find(page => page.page_number === document.current_page);
+  useEffect(() => {
+    documentStateRef.current = documentState;
+    historyRef.current = history;
+  }, [documentState, history]);
+
+  useEffect(() => {
+    reviewModeRef.current = reviewMode;
+    pendingReviewRef.current = pendingReview;
+  }, [reviewMode, pendingReview]);
+
+  // Commit the reviewed batch with the hunks the user kept
+  const finishReview = useCallback((proposal: ReviewProposal) => {
+    pendingReviewRef.current = undefined;
+    setPendingReview(undefined);
+
+    if (documentStateRef.current !== proposal.base) {
+      console.warn('⚠️ Documents changed while the proposal was pending, discarding it');
+      setAgentResponse('Tài liệu đã thay đổi trong lúc chờ xem xét. Đề xuất đã bị hủy, vui lòng yêu cầu lại.');
+      return;
+    }
+
+    const hunkIds = getProposalHunkIds(proposal);
+    const accepted = hunkIds.filter(id => proposal.decisions[id] === 'accepted').length;
+    const actions = resolveProposal(proposal);
+    if (actions.length === 0) {
+      setAgentResponse('Đã từ chối các thay đổi. Trang được giữ nguyên.');
+      return;
+    }
+
+    dispatch({ type: 'batch', actions }, 'agent', proposal.turnId);
+    setAgentResponse(accepted === hunkIds.length
+      ? 'Đã áp dụng tất cả thay đổi.'
+      : `Đã áp dụng ${accepted} trên ${hunkIds.length} thay đổi.`);
+  }, [dispatch]);
+
+  const decideAllHunks = useCallback((decision: HunkDecision) => {
+    const proposal = pendingReviewRef.current;
+    if (!proposal) return;
+    const decisions = { ...proposal.decisions };
+    for (const id of getProposalHunkIds(proposal)) {
+      decisions[id] ??= decision;
+    }
+    finishReview({ ...proposal, decisions });
+  }, [finishReview]);
+
+  const decideHunk = useCallback((hunkId: number, decision: HunkDecision) => {
+    const proposal = pendingReviewRef.current;
+    if (!proposal) return;
+    if (!getProposalHunkIds(proposal).includes(hunkId)) {
+      setAgentResponse(`Không có phần ${hunkId}.`);
+      return;
+    }
+
+    const next = { ...proposal, decisions: { ...proposal.decisions, [hunkId]: decision } };
+    if (isProposalDecided(next)) {
+      finishReview(next);
+      return;
+    }
+    pendingReviewRef.current = next;
+    setPendingReview(next);
+    setAgentResponse(`Đã ${decision === 'accepted' ? 'chấp nhận' : 'từ chối'} phần ${hunkId}.`);
+  }, [finishReview]);
+
+  // Voice commands while a proposal is pending; returns true if the command was handled
+  const handleReviewCommand = useCallback((command: string): boolean => {
+    const proposal = pendingReviewRef.current;
+    if (!proposal) return false;
+
+    const reviewCommand = parseReviewCommand(command);
+    if (!reviewCommand) return false;
+
+    switch (reviewCommand.kind) {
+      case 'accept_all':
+        decideAllHunks('accepted');
+        break;
+      case 'reject_all':
+        decideAllHunks('rejected');
+        break;
+      case 'accept':
+        decideHunk(reviewCommand.hunkId, 'accepted');
+        break;
+      case 'reject':
+        decideHunk(reviewCommand.hunkId, 'rejected');
+        break;
+      case 'repeat':
+        setAgentResponse(summarizeProposal(proposal));
+        break;
+    }
+    return true;
+  }, [decideAllHunks, decideHunk]);
+
+  const toggleReviewMode = useCallback((enabled: boolean) => {
+    setReviewMode(enabled);
+    setAgentResponse(enabled
+      ? 'Đã bật chế độ xem xét. Các thay đổi của trợ lý sẽ chờ bạn xác nhận.'
+      : 'Đã tắt chế độ xem xét.');
+  }, [setReviewMode]);
+
+  // Switch assistant; the document's thread for that assistant is opened by the thread effect
+  const selectAssistant = useCallback((assistant: Assistant) => {
+    console.log('🤖 Switching to assistant:', assistant);
+    setCurrentAssistant(assistant);
+    const settings = { ...AgentSettingsService.load(), assistantId: assistant.assistant_id };
+    AgentSettingsService.save(settings);
+    setAgentSettings(settings);
+    setAgentResponse(`Đã chuyển sang trợ lý "${getAssistantLabel(assistant)}".`);
   }, []);
 
-  const updateDocument = useCallback((updatedDoc: Document) => {
-    console.log('🔄 updateDocument - Setting current page to:', updatedDoc.current_page);
-    
-    setDocuments(prev => prev.map(doc => 
-      doc.id === updatedDoc.id ? updatedDoc : doc
-    ));
-    setCurrentDocument(updatedDoc);
+  // "danh sách trợ lý", "chọn trợ lý <tên hoặc số>"; returns true if the command was handled
+  const handleAssistantCommand = useCallback((command: string): boolean => {
+    const assistantCommand = parseAssistantCommand(command);
+    if (!assistantCommand) return false;
+
+    if (assistantCommand.kind === 'list') {
+      setAgentResponse(describeAssistants(assistants, currentAssistant?.assistant_id));
+      return true;
+    }
+
+    const assistant = findAssistant(assistants, assistantCommand.query);
+    if (!assistant) {
+      setAgentResponse(`Không tìm thấy trợ lý "${assistantCommand.query}". ${describeAssistants(assistants, currentAssistant?.assistant_id)}`);
+    } else if (assistant.assistant_id === currentAssistant?.assistant_id) {
+      setAgentResponse(`Bạn đang dùng trợ lý "${getAssistantLabel(assistant)}".`);
+    } else {
+      selectAssistant(assistant);
+    }
+    return true;
+  }, [assistants, currentAssistant, selectAssistant]);
+
+  const openSpeechSettings = () => {
+    setSpeechSettings(SpeechSettingsService.load());
+    setIsSpeechSettingsOpen(true);
+  };
+
+  const handleSpeechSettingsSave = (settings: SpeechSettings) => {
+    SpeechSettingsService.save(settings);
+    setSpeechSettings(settings);
+    setIsSpeechSettingsOpen(false);
+  };
+
+  const handleSettingsSave = async (settings: AgentSettings) => {
+    const previous = AgentSettingsService.load();
+    AgentSettingsService.save(settings);
+    setAgentSettings(settings);
+
+    // Assistants and threads belong to the old server: reconnect from scratch
+    if (AgentSettingsService.isConnectionChanged(previous, settings)) {
+      setIsSavingSettings(true);
+      setCurrentThread(undefined);
+      setCurrentAssistant(undefined);
+      setAssistants([]);
+      workspaceThreadRef.current = undefined;
+      try {
+        await connectAgent(settings);
+        setAgentResponse('Đã kết nối tới agent với cài đặt mới.');
+        setIsSettingsOpen(false);
+      } catch (error) {
+        console.error('❌ Could not connect with the new agent settings:', error);
+        setAgentResponse('Không thể kết nối tới agent. Vui lòng kiểm tra địa chỉ và khóa xác thực.');
+      } finally {
+        setIsSavingSettings(false);
+      }
+      return;
+    }
+
+    setIsSettingsOpen(false);
+    const assistant = assistants.find(item => item.assistant_id === settings.assistantId);
+    if (assistant && assistant.assistant_id !== currentAssistant?.assistant_id) {
+      selectAssistant(assistant);
+    }
+  };
+
+  // Undo the last document change and say what was undone
+  const handleUndo = useCallback(() => {
+    const entry = historyRef.current.past[historyRef.current.past.length - 1];
+    if (!entry) {
+      setAgentResponse('Không có thay đổi nào để hoàn tác.');
+      return;
+    }
+    console.log('↩️ Undo:', entry.label, 'from', entry.source, entry.turnId ? `turn ${entry.turnId}` : '');
+    dispatchHistory({ type: 'undo' });
+    setAgentResponse(`Đã hoàn tác: ${entry.label}`);
   }, []);
 
-  // Initialize application only after client hydration
-  useEffect(() => {
-    if (isClient) {
-      initializeApp();
+  const handleRedo = useCallback(() => {
+    const entry = historyRef.current.future[0];
+    if (!entry) {
+      setAgentResponse('Không có thay đổi nào để làm lại.');
+      return;
     }
-  }, [isClient]);
+    console.log('↪️ Redo:', entry.label, 'from', entry.source, entry.turnId ? `turn ${entry.turnId}` : '');
+    dispatchHistory({ type: 'redo' });
+    setAgentResponse(`Đã làm lại: ${entry.label}`);
+  }, []);
 
-  const initializeApp = async () => {
-    setIsLoading(true);
+  // Keyboard shortcuts: Cmd/Ctrl+Z to undo, Cmd/Ctrl+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const primaryModifier = event.metaKey || event.ctrlKey;
+      if (!primaryModifier) return;
+
+      if (event.code === 'KeyZ' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((event.code === 'KeyZ' && event.shiftKey) || (event.code === 'KeyY' && event.ctrlKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Restore documents saved in IndexedDB and on the server, or start with a blank document.
+  // Returns false when the local store could not be read, so nothing is written back over it.
+  const restoreDocuments = useCallback(async (): Promise<boolean> => {
+    let restored = true;
     try {
+      const { documents: localDocuments, lastOpenDocumentId } = await DocumentStorageService.loadWorkspace();
+      const pendingDeletions = await DocumentStorageService.loadPendingDeletions();
+      storedDocumentIdsRef.current = new Set(localDocuments.map(doc => doc.id));
+      pendingDeletionsRef.current = new Map(pendingDeletions.map(tombstone => [tombstone.id, tombstone]));
+
+      let remoteDocuments: Document[] = [];
+      let remoteDeletions: DocumentTombstone[] = [];
+      try {
+        [remoteDocuments, remoteDeletions] = await Promise.all([
+          DocumentService.getDocuments(),
+          DocumentService.getDeletedDocuments(),
+        ]);
+        syncedDocumentsRef.current = new Map(remoteDocuments.map(doc => [doc.id, doc]));
+        console.log(`☁️ Loaded ${remoteDocuments.length} document(s) from server store`);
+      } catch (error) {
+        console.warn('⚠️ Server document store unavailable, using local documents only:', error);
+      }
+
+      const storedDocuments = mergeDocuments(localDocuments, remoteDocuments, [...remoteDeletions, ...pendingDeletions]);
+      if (storedDocuments.length > 0) {
+        const lastOpen = storedDocuments.find(doc => doc.id === lastOpenDocumentId) || storedDocuments[0];
+        console.log(`🗄️ Restored ${storedDocuments.length} document(s), reopening:`, lastOpen.title);
+        dispatch({ type: 'hydrate', documents: storedDocuments, currentDocumentId: lastOpen.id });
+        return true;
+      }
+    } catch (error) {
+      console.error('❌ Failed to restore documents from local storage:', error);
+      restored = false;
+    }
+
+    const newDoc = createDocument();
+    dispatch({ type: 'hydrate', documents: [newDoc], currentDocumentId: newDoc.id });
+    console.log('Created new document for MVP interaction mode');
+    return restored;
+  }, [dispatch]);
+
+  // Load the assistants of the configured agent server; the thread effect then opens a thread.
+  // Resolves to the assistant in use. Concurrent connects to the same server share one request.
+  const connectAgent = useCallback((settings: AgentSettings): Promise<Assistant | undefined> => {
+    const key = `${settings.apiUrl}:${settings.assistantId ?? ''}`;
+    const pending = connectRequestRef.current;
+    if (pending?.key === key) return pending.request;
+
+    const request = (async (): Promise<Assistant | undefined> => {
       // Load assistants
-      console.log('🔄 Loading assistants...');
+      console.log('🔄 Loading assistants from', settings.apiUrl);
       const assistantList = await AgentApiService.getAssistants();
       console.log('✅ Assistants loaded:', assistantList);
       setAssistants(assistantList);
-      
-      // Use first assistant or create one
-      if (assistantList.length > 0) {
-        console.log('📋 Using existing assistant:', assistantList[0]);
-        setCurrentAssistant(assistantList[0]);
+
+      // Use the saved assistant, the first one, or create one
+      const preferred = assistantList.find(assistant => assistant.assistant_id === settings.assistantId) || assistantList[0];
+      if (preferred) {
+        console.log('📋 Using existing assistant:', preferred);
+        setCurrentAssistant(preferred);
+        return preferred;
       } else {
         // Create a default assistant if none exists
         try {
@@ -88,106 +563,330 @@ export default function HomePage() {
           console.log('✅ New assistant created:', newAssistant);
           setCurrentAssistant(newAssistant);
           setAssistants([newAssistant]);
+          return newAssistant;
         } catch (error) {
           console.warn('❌ Could not create assistant:', error);
+          return undefined;
         }
       }
+    })().finally(() => {
+      if (connectRequestRef.current?.request === request) connectRequestRef.current = undefined;
+    });
+    connectRequestRef.current = { key, request };
+    return request;
+  }, []);
 
-      // Create a new thread for conversation
-      console.log('🧵 Creating new thread...');
-      const thread = await AgentApiService.createThread({
-        purpose: 'document_management'
-      });
-      console.log('✅ Thread created:', thread);
-      setCurrentThread(thread);
-
-      // Create a new document for MVP interaction mode
-      const newDoc: Document = {
-        id: uuidv4(),
-        title: 'Tài liệu mới',
-        pages: [{
-          id: uuidv4(),
-          title: '', // Add title field
-          content: '',
-          page_number: 1,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }],
-        current_page: 1,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-      setDocuments([newDoc]);
-      setCurrentDocument(newDoc);
-      // ✅ ADDED: Initialize conversation history
-      setConversationHistory([]);
-      console.log('Created new document for MVP interaction mode');
+  const initializeApp = useCallback(async () => {
+    setIsLoading(true);
+    // Saving over a workspace that could not be read would lose it: keep this session unsaved
+    hasHydratedRef.current = await restoreDocuments();
+    if (!hasHydratedRef.current) {
+      setAgentResponse('Không đọc được tài liệu đã lưu trên máy. Thay đổi trong phiên này sẽ không được lưu.');
+    }
+    const settings = AgentSettingsService.load();
+    setAgentSettings(settings);
+    try {
+      await connectAgent(settings);
     } catch (error) {
       console.error('Failed to initialize app:', error);
       setAgentResponse('Có lỗi xảy ra khi khởi tạo ứng dụng. Vui lòng kiểm tra kết nối với agent.');
-      
-      // Still create a new document for interaction even if agent fails
-      const newDoc: Document = {
-        id: uuidv4(),
-        title: 'Tài liệu mới',
-        pages: [{
-          id: uuidv4(),
-          title: '', // Add title field
-          content: '',
-          page_number: 1,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }],
-        current_page: 1,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-      setDocuments([newDoc]);
-      setCurrentDocument(newDoc);
     } finally {
       setIsLoading(false);
     }
+  }, [restoreDocuments, connectAgent]);
+
+  // Initialize application only after client hydration
+  useEffect(() => {
+    if (isClient) {
+      initializeApp();
+    }
+  }, [isClient, initializeApp]);
+
+  // One thread per document and assistant: reopen the linked thread with its conversation,
+  // or start a new one and link it to the document. Concurrent opens share one request.
+  const getDocumentThread = useCallback((document: Document | undefined, assistantId: string) => {
+    const key = `${document?.id ?? ''}:${assistantId}`;
+    const pending = threadRequestsRef.current.get(key);
+    if (pending) return pending;
+
+    const request = (async (): Promise<{ thread: Thread; history: ConversationMessage[] }> => {
+      const workspaceThread = workspaceThreadRef.current?.assistantId === assistantId
+        ? workspaceThreadRef.current.thread
+        : undefined;
+      const linkedThreadId = document ? getLinkedThreadId(document, assistantId) : workspaceThread?.thread_id;
+
+      if (linkedThreadId) {
+        try {
+          const [thread, state] = await Promise.all([
+            AgentApiService.getThread(linkedThreadId),
+            AgentApiService.getThreadState(linkedThreadId),
+          ]);
+          const history = threadStateToConversation(state);
+          console.log('🧵 Resumed thread:', thread.thread_id, `(${history.length} messages)`);
+          return { thread, history };
+        } catch (error) {
+          // Anything but a 404 may be temporary: replacing the link would lose the conversation for good
+          if (!isAgentNotFound(error)) throw error;
+          console.warn('⚠️ Linked thread is gone, starting a new one:', linkedThreadId, error);
+        }
+      }
+
+      console.log('🧵 Creating new thread...');
+      const thread = await AgentApiService.createThread(buildThreadMetadata(document));
+      console.log('✅ Thread created:', thread);
+      if (document) {
+        dispatch({
+          type: 'set_document_metadata',
+          documentId: document.id,
+          metadata: linkThreadMetadata(document, assistantId, thread.thread_id),
+        });
+      } else {
+        workspaceThreadRef.current = { assistantId, thread };
+      }
+      return { thread, history: [] };
+    })().finally(() => threadRequestsRef.current.delete(key));
+
+    threadRequestsRef.current.set(key, request);
+    return request;
+  }, [dispatch]);
+
+  // Follow the current document: its thread becomes the current one.
+  // Opened again when the agent comes back, in case it failed while the agent was down.
+  const currentDocumentId = documentState.currentDocumentId;
+  const isAgentDown = agentHealthStatus === 'down';
+  useEffect(() => {
+    if (!currentAssistant || isAgentDown) return;
+    let cancelled = false;
+    setCurrentThread(undefined);
+
+    const document = documentStateRef.current.documents.find(doc => doc.id === currentDocumentId);
+    getDocumentThread(document, currentAssistant.assistant_id)
+      .then(({ thread, history }) => {
+        if (cancelled) return;
+        setCurrentThread(thread);
+        setConversationHistory(manageConversationHistory(history));
+      })
+      .catch(error => {
+        console.error('❌ Could not open a conversation thread:', error);
+        if (!cancelled) setAgentResponse('Không thể mở cuộc trò chuyện với agent.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDocumentId, currentAssistant, isAgentDown, getDocumentThread, manageConversationHistory]);
+
+  const loadThreads = useCallback(async (): Promise<Thread[]> => {
+    const threadList = await AgentApiService.getThreads({ purpose: 'document_management' });
+    setThreads(threadList);
+    return threadList;
+  }, []);
+
+  // Delete threads on the server and unlink them from their documents
+  const deleteThreads = useCallback(async (threadIds: string[]) => {
+    const deleted: string[] = [];
+    for (const threadId of threadIds) {
+      try {
+        await AgentApiService.deleteThread(threadId);
+        deleted.push(threadId);
+      } catch (error) {
+        console.warn('⚠️ Could not delete thread:', threadId, error);
+      }
+    }
+
+    for (const document of documentStateRef.current.documents) {
+      const metadata = unlinkThreadsMetadata(document, deleted);
+      if (metadata) dispatch({ type: 'set_document_metadata', documentId: document.id, metadata });
+    }
+
+    setThreads(prev => prev.filter(thread => !deleted.includes(thread.thread_id)));
+    console.log('🗑️ Deleted threads:', deleted);
+    return deleted.length;
+  }, [dispatch]);
+
+  // "danh sách cuộc trò chuyện", "xóa cuộc trò chuyện cũ"; returns true if the command was handled
+  const handleThreadCommand = useCallback(async (command: string): Promise<boolean> => {
+    const threadCommand = parseThreadCommand(command);
+    if (!threadCommand) return false;
+
+    try {
+      const threadList = await loadThreads();
+      const { documents: currentDocuments } = documentStateRef.current;
+      if (threadCommand.kind === 'list') {
+        setAgentResponse(describeThreads(threadList, currentDocuments, currentThread?.thread_id));
+        return true;
+      }
+
+      const unused = findUnusedThreads(threadList, currentDocuments, currentThread?.thread_id);
+      if (unused.length === 0) {
+        setAgentResponse('Không có cuộc trò chuyện cũ nào cần xóa.');
+        return true;
+      }
+      const question = `Bạn có chắc muốn xóa ${unused.length} cuộc trò chuyện không còn dùng không?`;
+      console.log('❓ Waiting for confirmation:', question);
+      pendingConfirmationRef.current = { kind: 'delete_threads', question, threadIds: unused.map(thread => thread.thread_id) };
+      setAgentResponse(question);
+    } catch (error) {
+      console.error('❌ Could not load threads:', error);
+      setAgentResponse('Không thể tải danh sách cuộc trò chuyện.');
+    }
+    return true;
+  }, [currentThread, loadThreads]);
+
+  const openThreadsPanel = () => {
+    setIsThreadsOpen(true);
+    loadThreads().catch(error => {
+      console.error('❌ Could not load threads:', error);
+      setAgentResponse('Không thể tải danh sách cuộc trò chuyện.');
+    });
   };
 
+  useEffect(() => {
+    retryQueuedCommandsRef.current = retryQueuedCommands;
+  });
+
+  // Count the commands left from an earlier session
+  useEffect(() => {
+    if (!isClient) return;
+    DocumentStorageService.loadCommandQueue()
+      .then(queue => setQueuedCommandCount(queue.length))
+      .catch(error => console.warn('⚠️ Could not load queued commands:', error));
+  }, [isClient]);
+
+  // Replay saved commands once a thread is open, then keep retrying while any are left
+  useEffect(() => {
+    if (queuedCommandCount === 0) return;
+    if (currentThread) retryQueuedCommandsRef.current();
+
+    const retry = () => retryQueuedCommandsRef.current();
+    const timer = setInterval(retry, COMMAND_REPLAY_INTERVAL_MS);
+    window.addEventListener('online', retry);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', retry);
+    };
+  }, [queuedCommandCount, currentThread]);
+
+  // Persist every document change to IndexedDB (debounced to batch rapid edits)
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+
+    const timer = setTimeout(() => {
+      const currentIds = new Set(documents.map(doc => doc.id));
+      const removedIds = [...storedDocumentIdsRef.current].filter(id => !currentIds.has(id));
+      storedDocumentIdsRef.current = currentIds;
+
+      DocumentStorageService.saveDocuments(documents)
+        .then(() => DocumentStorageService.deleteDocuments(removedIds))
+        .catch(error => {
+          console.error('❌ Failed to save documents locally:', error);
+          // Try the deletions again with the next save
+          removedIds.forEach(id => storedDocumentIdsRef.current.add(id));
+        });
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [documents]);
+
+  // Send pending deletions to the server store; failed ones stay pending for the next sync
+  const flushPendingDeletions = useCallback(() => {
+    const pending = pendingDeletionsRef.current;
+    const inFlight = deletionsInFlightRef.current;
+
+    for (const id of pending.keys()) {
+      if (inFlight.has(id)) continue;
+      inFlight.add(id);
+      DocumentService.deleteDocument(id)
+        .then(() => {
+          pending.delete(id);
+          return DocumentStorageService.savePendingDeletions([...pending.values()]);
+        })
+        .catch(error => {
+          console.warn('⚠️ Failed to delete document on server, will retry:', id, error);
+        })
+        .finally(() => inFlight.delete(id));
+    }
+  }, []);
+
+  // Push changed documents to the server store and remove deleted ones
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+
+    const timer = setTimeout(() => {
+      const synced = syncedDocumentsRef.current;
+      const pending = pendingDeletionsRef.current;
+      const currentIds = new Set(documents.map(doc => doc.id));
+      let pendingChanged = false;
+
+      for (const doc of documents) {
+        if (synced.get(doc.id) === doc) continue;
+        synced.set(doc.id, doc);
+        if (pending.delete(doc.id)) pendingChanged = true;
+        // Brought back by undo: the server only takes a deleted document back when asked to
+        const restore = deletedDocumentIdsRef.current.delete(doc.id);
+        DocumentService.saveDocument(doc, { restore }).catch(error => {
+          console.warn('⚠️ Failed to sync document to server:', doc.id, error);
+          synced.delete(doc.id);
+        });
+      }
+
+      for (const id of [...synced.keys()]) {
+        if (currentIds.has(id)) continue;
+        synced.delete(id);
+        deletedDocumentIdsRef.current.add(id);
+        if (!pending.has(id)) {
+          pending.set(id, { id, deleted_at: new Date().toISOString() });
+          pendingChanged = true;
+        }
+      }
+
+      if (pendingChanged) {
+        DocumentStorageService.savePendingDeletions([...pending.values()]).catch(error => {
+          console.error('❌ Failed to save pending deletions locally:', error);
+        });
+      }
+      flushPendingDeletions();
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [documents, flushPendingDeletions]);
+
+  // Remember which document was open so a reload reopens it
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+
+    DocumentStorageService.setLastOpenDocument(currentDocument?.id).catch(error => {
+      console.error('❌ Failed to save last open document:', error);
+    });
+  }, [currentDocument?.id]);
+
   const loadMockDocuments = () => {
     const mockDocs: Document[] = [
-      {
-        id: uuidv4(),
+      createDocument({
         title: 'Tài liệu mẫu 1',
-        pages: [{
-          id: uuidv4(),
-          title: 'Trang giới thiệu', // Add title field
-          content: 'Đây là nội dung của tài liệu mẫu đầu tiên. Bạn có thể chỉnh sửa hoặc xóa nó.',
-          page_number: 1,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }],
-        current_page: 1,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: uuidv4(),
+        pageTitle: 'Trang giới thiệu',
+        content: 'Đây là nội dung của tài liệu mẫu đầu tiên. Bạn có thể chỉnh sửa hoặc xóa nó.',
+      }),
+      createDocument({
         title: 'Hướng dẫn sử dụng',
-        pages: [{
-          id: uuidv4(),
-          title: 'Hướng dẫn cơ bản', // Add title field
-          content: 'Sử dụng lệnh giọng nói để:\n- Tạo tài liệu mới\n- Tìm kiếm thông tin\n- Chỉnh sửa nội dung\n- Xóa tài liệu',
-          page_number: 1,
-          created_at: new Date(Date.now() - 86400000).toISOString(),
-          updated_at: new Date(Date.now() - 86400000).toISOString(),
-        }],
-        current_page: 1,
-        created_at: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-        updated_at: new Date(Date.now() - 86400000).toISOString(),
-      },
+        pageTitle: 'Hướng dẫn cơ bản',
+        content: 'Sử dụng lệnh giọng nói để:\n- Tạo tài liệu mới\n- Tìm kiếm thông tin\n- Chỉnh sửa nội dung\n- Xóa tài liệu',
+      }),
     ];
-    setDocuments(mockDocs);
+    dispatch({ type: 'hydrate', documents: mockDocs, currentDocumentId: documentState.currentDocumentId });
   };
 
   // Voice command processing
   const handleVoiceCommand = useCallback(async (command: string) => {
     console.log('🎤 Voice command received:', command);
+    const {
+      handleConfirmationAnswer,
+      processParsedAgentResponse,
+      processVoiceCommandLocally,
+      streamAgentTurn,
+      queueCommand,
+      askConfirmation,
+    } = turnHelpersRef.current;
     
     // Special accessibility commands for voice control
     const lowerCommand = command.toLowerCase().trim();
@@ -199,6 +898,35 @@ export default function HomePage() {
     
 
     
+    if (pendingConfirmationRef.current) {
+      await handleConfirmationAnswer(pendingConfirmationRef.current, command);
+      return;
+    }
+
+    // Checked before the stop commands, which also match "tắt"
+    if (lowerCommand.includes('chế độ xem xét')) {
+      toggleReviewMode(!lowerCommand.includes('tắt'));
+      return;
+    }
+
+    if (handleReviewCommand(command)) {
+      return;
+    }
+
+    // Assistant and thread commands only work against the server
+    if (agentHealthStatus === 'down' && (parseAssistantCommand(command) || parseThreadCommand(command))) {
+      setAgentResponse('Trợ lý đang mất kết nối nên chưa thể thực hiện lệnh này.');
+      return;
+    }
+
+    if (handleAssistantCommand(command)) {
+      return;
+    }
+
+    if (await handleThreadCommand(command)) {
+      return;
+    }
+
     // Handle stop commands
     if (lowerCommand.includes('dừng trò chuyện') || lowerCommand.includes('tắt') || lowerCommand.includes('ngừng')) {
       console.log('🛑 Stop command detected');
@@ -206,122 +934,123 @@ export default function HomePage() {
       return;
     }
     
-    if (!currentThread || !currentAssistant) {
-      console.log('❌ Missing thread or assistant:', { currentThread, currentAssistant });
-      setAgentResponse('Chưa kết nối được với agent. Vui lòng thử lại.');
+    // Undo/redo run locally, no agent round trip needed
+    if (lowerCommand.includes('hoàn tác') || lowerCommand === 'undo') {
+      handleUndo();
+      return;
+    }
+    if (/^làm lại[.!]?$/.test(lowerCommand) || lowerCommand === 'redo') {
+      handleRedo();
+      return;
+    }
+    
+    // Known to be down: save the command right away instead of waiting for timeouts
+    if (agentHealthStatus === 'down') {
+      console.log('❌ Agent unavailable, queueing command');
+      await queueCommand(command);
       return;
     }
 
+    // Still starting up: wait for the assistant and thread, opening them now if needed
+    let assistant = currentAssistant;
+    let thread = currentThread;
+    if (!assistant || !thread) {
+      try {
+        assistant = assistant ?? await connectAgent(AgentSettingsService.load());
+        if (!assistant) {
+          setAgentResponse('Chưa có trợ lý nào để xử lý yêu cầu. Vui lòng kiểm tra cài đặt agent.');
+          return;
+        }
+        thread = thread ?? (await getDocumentThread(currentDocument, assistant.assistant_id)).thread;
+      } catch (error) {
+        if (isAgentUnreachable(error)) {
+          console.log('❌ Agent unreachable while opening the conversation, queueing command:', error);
+          checkAgentHealth();
+          await queueCommand(command);
+        } else {
+          console.error('❌ Could not open a conversation thread:', error);
+          setAgentResponse('Không thể mở cuộc trò chuyện với agent.');
+        }
+        return;
+      }
+    }
+
     setIsProcessing(true);
     setAgentResponse('');
+    // Identifies this turn in the undo history
+    const turnId = uuidv4();
+    activeRunRef.current = { turnId, threadId: thread.thread_id, controller: new AbortController() };
 
     try {
-      // ✅ FIXED: Proper message format for LangGraph API with conversation history
-      const currentPage = currentDocument ? getCurrentPage(currentDocument) : null;
-      const currentDocumentContent = currentPage?.content || '';
-      const pageTitle = currentPage?.title || '';
-      const pageNumber = currentPage?.page_number || 1;
-      const totalPages = currentDocument?.pages.length || 1;
-      
-      const userMessage = `${command}\n\nCurrent page: ${pageNumber}/${totalPages}${pageTitle ? ` - ${pageTitle}` : ''}\nCurrent page content: ${currentDocumentContent}`;
-      
-      // ✅ ADDED: Include conversation history for multi-turn context
-      const messagesForAPI = [
-        ...conversationHistory,  // Include previous conversation
-        {
-          role: "user",
-          content: userMessage
-        }
+      const { userMessage, messagesForAPI, runData } = buildAgentRun(
+        command,
+        assistant.assistant_id,
+        currentDocument,
+        documents,
+        conversationHistory
+      );
+
+      console.log('📤 Sending to agent:', runData);
+
+      // Sentences of the answer are spoken while the rest of the turn streams in,
+      // unless the turn is going to ask for confirmation first
+      setStreamedAnswer({ turnId, sentences: [], notices: [], done: false });
+      const answerStream = createAnswerSentenceStream(sentence => {
+        setStreamedAnswer(prev => prev?.turnId === turnId ? { ...prev, sentences: [...prev.sentences, sentence] } : prev);
+      }, mentionsDestructiveAction);
+
+      // Stream the turn, then validate it; invalid payloads get one correction turn
+      let turn = await streamAgentTurn(thread.thread_id, runData, turnId, answerStream.push);
+      answerStream.end();
+      let parsed = turn.content || turn.toolCalls.length ? parseAgentResponse(turn.content, turn.toolCalls) : undefined;
+      // The corrected answer replaces whatever the invalid one started to say
+      if (parsed?.status === 'invalid') discardStreamedAnswer(turnId);
+      const turnHistory = [
+        { role: "user", content: userMessage },
+        { role: "assistant", content: turn.content },
       ];
-      
-              const runData = {
-          assistant_id: currentAssistant.assistant_id,
+
+      for (let attempt = 0; parsed?.status === 'invalid' && attempt < MAX_CORRECTION_ATTEMPTS && !isTurnCancelled(turnId); attempt++) {
+        console.warn('⚠️ Invalid agent payload, asking for a correction:', parsed.errors);
+        const correction = `Phản hồi trước không hợp lệ: ${parsed.errors.join('; ')}. ${AGENT_ACTION_FORMAT_HINT}`;
+        turn = await streamAgentTurn(thread.thread_id, {
+          ...runData,
           input: {
-            messages: messagesForAPI  // ✅ Include full conversation history
+            messages: [...messagesForAPI, { role: "assistant", content: turnHistory[turnHistory.length - 1].content }, { role: "user", content: correction }],
           },
-          stream_mode: 'updates', // ✅ Use 'updates' for better streaming
-          metadata: {
-            current_document: currentDocument?.id,
-            current_page: currentDocument?.current_page,
-            total_pages: currentDocument?.pages.length,
-            documents: documents.map(doc => ({ 
-              id: doc.id, 
-              title: doc.title, 
-              total_pages: doc.pages.length,
-              current_page: doc.current_page 
-            })),
-            action: 'voice_command'
-          }
-        };
+        }, turnId);
+        turnHistory.push({ role: "user", content: correction }, { role: "assistant", content: turn.content });
+        parsed = turn.content || turn.toolCalls.length ? parseAgentResponse(turn.content, turn.toolCalls) : undefined;
+      }
 
-      console.log('📤 Sending to agent:', runData);
+      if (isTurnCancelled(turnId)) {
+        console.log('🛑 Turn cancelled by barge-in, discarding its response');
+        return;
+      }
 
-      // Use streaming to get real-time response
-      const stream = await AgentApiService.createStreamingRun(currentThread.thread_id, runData);
-      console.log('🌊 Stream created, processing response...');
-      
-      let fullResponse = '';
-      let hasReceivedContent = false;
-      
-      for await (const chunk of AgentApiService.processStreamingResponse(stream)) {
-        console.log('📦 Received chunk:', chunk);
-        
-        // ✅ FIXED: The chunk IS the data (not chunk.data)
-        const response = chunk; // The processStreamingResponse already yields the parsed data
-        console.log('📋 Processing response data:', response);
-        
-        // Handle different response formats
-        if (typeof response === 'string') {
-          fullResponse += response;
-          hasReceivedContent = true;
-          console.log('📝 String response added, full response now:', fullResponse);
-        } else if (response.agent && response.agent.messages && Array.isArray(response.agent.messages)) {
-          // ✅ FIXED: Handle agent.messages format (LangGraph streaming format)
-          console.log('🔍 Found agent.messages, processing:', response.agent.messages);
-          for (const message of response.agent.messages) {
-            if (message.content) {
-              console.log('📝 Extracting content from message:', message.content);
-              fullResponse += message.content;
-              hasReceivedContent = true;
-              console.log('🤖 Agent message content added, full response now:', fullResponse);
-            }
-          }
-        } else if (response.messages && Array.isArray(response.messages)) {
-          // Handle direct messages array format
-          console.log('🔍 Found direct messages, processing:', response.messages);
-          for (const message of response.messages) {
-            if (message.content) {
-              console.log('📝 Extracting content from direct message:', message.content);
-              fullResponse += message.content;
-              hasReceivedContent = true;
-              console.log('📨 Message content added, full response now:', fullResponse);
-            }
-          }
-        } else if (response.content) {
-          // Handle direct content in response
-          console.log('📝 Extracting direct content:', response.content);
-          fullResponse += response.content;
-          hasReceivedContent = true;
-          console.log('📄 Direct content added, full response now:', fullResponse);
-        } else {
-          console.log('⚠️ Unhandled response format:', response);
-        }
+      // The graph paused for confirmation: the next utterance resumes it
+      if (turn.interrupt) {
+        console.log('⏸️ Agent run interrupted:', turn.interrupt);
+        discardStreamedAnswer(turnId);
+        setConversationHistory(prev => manageConversationHistory([...prev, ...turnHistory]));
+        askConfirmation({
+          kind: 'interrupt',
+          question: getInterruptQuestion(turn.interrupt),
+          threadId: thread.thread_id,
+          assistantId: assistant.assistant_id,
+          turnId,
+        });
+        return;
       }
-      
-      console.log('🏁 Streaming completed. Has content:', hasReceivedContent, 'Full response length:', fullResponse.length);
 
       // Process the complete response
-      if (fullResponse) {
-        console.log('✅ Agent processing completed, parsing response:', fullResponse);
+      if (parsed) {
+        console.log('✅ Agent processing completed, parsed response:', parsed);
         
         // ✅ ADDED: Update conversation history with length management
-        setConversationHistory(prev => manageConversationHistory([
-          ...prev,
-          { role: "user", content: userMessage },
-          { role: "assistant", content: fullResponse }
-        ]));
+        setConversationHistory(prev => manageConversationHistory([...prev, ...turnHistory]));
         
-        await parseAndProcessAgentResponse(fullResponse);
+        await processParsedAgentResponse(parsed, turnId);
       } else {
         console.log('⚠️ No response from agent, falling back to local processing');
         const processedResponse = await processVoiceCommandLocally(command);
@@ -338,7 +1067,31 @@ export default function HomePage() {
       }
 
     } catch (error) {
+      if (isTurnCancelled(turnId)) {
+        console.log('🛑 Turn cancelled by barge-in:', error);
+        return;
+      }
       console.error('❌ Error processing voice command:', error);
+
+      discardStreamedAnswer(turnId);
+
+      // The agent itself failed the run: say so rather than guessing locally
+      if (error instanceof AgentRunError) {
+        setAgentResponse(`Trợ lý gặp lỗi khi xử lý yêu cầu: ${error.message}`);
+        return;
+      }
+
+      // Unreachable before the run started: save the command for later.
+      // Once it started it may have gone through, so it is not sent twice.
+      if (isAgentUnreachable(error)) {
+        checkAgentHealth();
+        if (!activeRunRef.current?.runId) {
+          await queueCommand(command);
+        } else {
+          setAgentResponse('Mất kết nối với trợ lý khi đang xử lý. Lệnh có thể chưa hoàn tất, vui lòng kiểm tra và thử lại.');
+        }
+        return;
+      }
       
       // Fallback to local processing
       console.log('🔄 Falling back to local processing due to error');
@@ -347,489 +1100,518 @@ export default function HomePage() {
       setAgentResponse(fallbackResponse);
     } finally {
       console.log('🏁 Voice command processing finished');
-      setIsProcessing(false);
+      // A cancelled turn was already cleaned up by the barge-in, maybe with a new turn running
+      if (!isTurnCancelled(turnId)) {
+        activeRunRef.current = undefined;
+        setIsProcessing(false);
+      }
+      setStreamedAnswer(prev => prev?.turnId === turnId ? { ...prev, done: true } : prev);
     }
-  }, [currentThread, currentAssistant, currentDocument, documents, conversationHistory, manageConversationHistory]);
+  }, [currentThread, currentAssistant, currentDocument, documents, conversationHistory, manageConversationHistory, handleUndo, handleRedo, handleReviewCommand, toggleReviewMode, handleAssistantCommand, handleThreadCommand, isTurnCancelled, agentHealthStatus, checkAgentHealth, connectAgent, getDocumentThread]);
 
-  // Parse and process the new agent response format: "Action: <action type>\nAction content: <action content>\nAnswer: <answer>"
-  const parseAndProcessAgentResponse = async (response: string) => {
-    console.log('🔍 Parsing agent response:', response);
-    
-    // Parse the response format: "Action: <action type>\nAction content: <action content>\nAnswer: <answer>"
-    const lines = response.trim().split('\n');
-    let actionType = '';
-    let actionContent = '';
-    let answer = '';
+  // Stop speaking the turn's streamed answer; the response set afterwards is spoken on its own
+  const discardStreamedAnswer = (turnId: string) => {
+    setStreamedAnswer(prev => prev?.turnId === turnId ? { ...prev, sentences: [], discarded: true } : prev);
+  };
+
+  // The user started talking over the agent: drop the running turn and cancel it on the server
+  const handleBargeIn = useCallback(() => {
+    const run = activeRunRef.current;
+    if (!run) return;
+
+    activeRunRef.current = undefined;
+    setIsProcessing(false);
+    if (run.runId) {
+      console.log('🛑 Cancelling agent run after barge-in:', run.runId);
+      AgentApiService.cancelRun(run.threadId, run.runId).catch(error => {
+        console.warn('⚠️ Could not cancel agent run:', error);
+      });
+      run.controller.abort();
+    }
+    // Without a run id yet, the stream keeps being read until the id arrives and the run is cancelled
+  }, []);
+
+  // Abort signal of the turn's run, and a spoken notice in the stream of streamId when it has to be rejoined
+  const getRunStreamOptions = (turnId: string, streamId = turnId): AgentStreamOptions => ({
+    signal: activeRunRef.current?.turnId === turnId ? activeRunRef.current.controller.signal : undefined,
+    onReconnect: attempt => {
+      console.log('🔌 Reconnecting to the agent, attempt', attempt);
+      setStreamedAnswer(prev => prev?.turnId === streamId ? { ...prev, notices: [...prev.notices, RECONNECTING_NOTICE] } : prev);
+    },
+  });
+
+  // Run one agent turn and collect its text content and tool calls from the stream
+  const streamAgentTurn = async (
+    threadId: string,
+    runData: RunCreate,
+    turnId: string,
+    onToken?: (text: string) => void
+  ): Promise<{ content: string; toolCalls: AgentToolCall[]; interrupt?: AgentInterrupt }> => {
+    const events = AgentApiService.streamRun(threadId, runData, getRunStreamOptions(turnId));
+    return collectAgentTurn(events, threadId, turnId, onToken);
+  };
+
+  // Read a run stream to the end: text content, tool calls and the interrupt it paused on, if any
+  // Stops early if the turn is cancelled by a barge-in. Token chunks go to onToken as they arrive.
+  const collectAgentTurn = async (
+    events: AsyncIterable<AgentStreamEvent>,
+    threadId: string,
+    turnId: string,
+    onToken?: (text: string) => void
+  ): Promise<{ content: string; toolCalls: AgentToolCall[]; interrupt?: AgentInterrupt }> => {
+    console.log('🌊 Stream created, processing response...');
     
-    // Extract action, action content, and answer
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line.startsWith('Action:')) {
-        actionType = line.substring(7).trim(); // Remove "Action: " prefix
-      } else if (line.startsWith('Action content:')) {
-        // Action content might span multiple lines, collect until we hit "Answer:"
-        let contentLines = [];
-        for (let j = i; j < lines.length; j++) {
-          const currentLine = lines[j].trim();
-          if (currentLine.startsWith('Answer:')) {
-            // Found answer, extract it and break
-            answer = lines.slice(j).join('\n').substring(7).trim(); // Remove "Answer: " prefix
-            break;
-          } else if (j === i) {
-            // First line, remove "Action content: " prefix
-            contentLines.push(currentLine.substring(15).trim());
-          } else {
-            // Additional lines for action content
-            contentLines.push(currentLine);
-          }
+    let fullResponse = '';
+    // Same text assembled from token chunks, used if no complete message arrives
+    let streamedResponse = '';
+    const toolCalls: AgentToolCall[] = [];
+    let interrupt: AgentInterrupt | undefined;
+
+    const handlers: AgentStreamHandlers = {
+      // The metadata event carries the run id, needed to cancel the run
+      metadata: ({ run_id: runId }) => {
+        if (activeRunRef.current?.turnId === turnId) {
+          activeRunRef.current.runId = runId;
+        } else if (isTurnCancelled(turnId)) {
+          AgentApiService.cancelRun(threadId, runId).catch(error => {
+            console.warn('⚠️ Could not cancel agent run:', error);
+          });
+        }
+      },
+      // Complete messages of the root graph's nodes, and the interrupt it paused on
+      updates: (updates, namespace) => {
+        if (namespace.length) return;
+        console.log('📦 Received update:', updates);
+        interrupt = getUpdatesInterrupt(updates) ?? interrupt;
+        for (const message of getUpdatesMessages(updates)) {
+          if (!isAiMessage(message)) continue;
+          fullResponse += getMessageText(message.content);
+          if (Array.isArray(message.tool_calls)) toolCalls.push(...message.tool_calls);
+        }
+      },
+      // Token chunks; only AI output is part of the answer
+      messages: message => {
+        if (!isAiMessage(message)) return;
+        const text = getMessageText(message.content);
+        if (text) {
+          streamedResponse += text;
+          onToken?.(text);
         }
-        actionContent = contentLines.join('\n').trim();
+      },
+      unhandled: event => console.log('⚠️ Unhandled stream event:', event.event, event.data),
+    };
+
+    for await (const event of events) {
+      dispatchAgentStreamEvent(event, handlers);
+      if (isTurnCancelled(turnId)) {
+        console.log('🛑 Turn cancelled, stopping stream');
         break;
       }
     }
     
-    console.log('📋 Parsed action:', actionType, 'action content:', actionContent, 'answer:', answer);
-    
-    // Process the action
-    if (actionType) {
-      await processNewAgentAction(actionType, actionContent, answer);
+    console.log('🏁 Streaming completed. Response length:', fullResponse.length, 'tool calls:', toolCalls.length, 'interrupted:', !!interrupt);
+    return { content: fullResponse || streamedResponse, toolCalls, interrupt };
+  };
+
+  // Apply a parsed agent response (JSON, tool calls or legacy "Action:/Action content:/Answer:" text)
+  const processParsedAgentResponse = async (
+    parsed: AgentResponseParseResult,
+    turnId: string,
+    confirmed = false
+  ): Promise<ActionOutcome> => {
+    if (parsed.status === 'ok') {
+      const { actions, answer } = parsed.response;
+      return processAgentActions(actions, answer, turnId, confirmed);
+    } else if (parsed.status === 'invalid') {
+      console.log('⚠️ Agent payload still invalid after correction:', parsed.errors);
+      discardStreamedAnswer(turnId);
+      setAgentResponse('Xin lỗi, tôi chưa hiểu được phản hồi của trợ lý. Vui lòng thử lại.');
+      return { status: 'failed', reason: 'phản hồi của trợ lý không hợp lệ' };
     } else {
-      console.log('⚠️ Could not parse action from response:', response);
+      console.log('⚠️ Could not parse action from response:', parsed.text);
       // Show the raw response if parsing fails
-      setAgentResponse(response);
+      setAgentResponse(parsed.text);
+      return { status: 'applied' };
     }
   };
 
-  // Process the new agent action types
-  const processNewAgentAction = async (actionType: string, actionContent: string, answer: string) => {
-    console.log('🎯 Processing new agent action:', actionType, 'with action content:', actionContent, 'and answer:', answer);
-    
-    switch (actionType.toLowerCase()) {
-      case 'add_to_page':
-        console.log('➕ Adding content to current page');
-        if (currentDocument) {
-          const currentPage = getCurrentPage(currentDocument);
-          if (currentPage) {
-            const updatedPages = currentDocument.pages.map(page => 
-              page.id === currentPage.id 
-                ? { ...page, content: page.content + (page.content ? '\n' : '') + actionContent, updated_at: new Date().toISOString() }
-                : page
-            );
-            const updatedDoc: Document = {
-              ...currentDocument,
-              pages: updatedPages,
-              updated_at: new Date().toISOString(),
-            };
-            updateDocument(updatedDoc);
-            const response = answer || `Đã thêm nội dung vào trang ${currentPage.page_number}.`;
-            setAgentResponse(response);
-          }
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để thêm nội dung.';
-          setAgentResponse(response);
-        }
-        break;
-        
-      case 'rewrite_page':
-        console.log('📝 Rewriting current page content');
-        if (currentDocument) {
-          const currentPage = getCurrentPage(currentDocument);
-          if (currentPage) {
-            const updatedPages = currentDocument.pages.map(page => 
-              page.id === currentPage.id 
-                ? { ...page, content: actionContent, updated_at: new Date().toISOString() }
-                : page
-            );
-            const updatedDoc: Document = {
-              ...currentDocument,
-              pages: updatedPages,
-              updated_at: new Date().toISOString(),
-            };
-            updateDocument(updatedDoc);
-            const response = answer || `Đã viết lại nội dung trang ${currentPage.page_number}.`;
-            setAgentResponse(response);
-          }
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để viết lại nội dung.';
-          setAgentResponse(response);
-        }
-        break;
-        
-      case 'create_doc':
-        console.log('📄 Creating new document');
-        const newDoc: Document = {
-          id: uuidv4(),
-          title: extractTitleFromContent(actionContent) || 'Tài liệu mới',
-                  pages: [{
-          id: uuidv4(),
-          title: '', // Add title field
-          content: actionContent,
-          page_number: 1,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }],
-          current_page: 1,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        };
-        setDocuments(prev => [newDoc, ...prev]);
-        setCurrentDocument(newDoc);
-        const createResponse = answer || `Đã tạo tài liệu mới: "${newDoc.title}"`;
-        setAgentResponse(createResponse);
-        break;
-
-      case 'set_title_doc':
-        console.log('📝 Setting document title');
-        if (currentDocument) {
-          const updatedDoc: Document = {
-            ...currentDocument,
-            title: actionContent,
-            updated_at: new Date().toISOString(),
-          };
-          updateDocument(updatedDoc);
-          const response = answer || `Đã đặt tiêu đề tài liệu: "${actionContent}"`;
-          setAgentResponse(response);
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để đặt tiêu đề.';
-          setAgentResponse(response);
-        }
-        break;
+  // Run the agent's actions as one transaction against the current documents.
+  // Nothing is committed unless every step succeeds; the user hears one combined answer.
+  // Destructive actions wait for a spoken confirmation unless the user already gave it.
+  const processAgentActions = async (
+    actions: AgentAction[],
+    answer: string,
+    turnId: string,
+    confirmed = false
+  ): Promise<ActionOutcome> => {
+    console.log('🎯 Processing agent action batch:', actions.map(action => action.type), 'with answer:', answer);
 
-      case 'read_title_doc':
-        console.log('📖 Reading document title');
-        if (currentDocument) {
-          const response = answer || `Tiêu đề tài liệu là: "${currentDocument.title}"`;
-          setAgentResponse(response);
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để đọc tiêu đề.';
-          setAgentResponse(response);
-        }
-        break;
+    const result = executeAgentActions(documentStateRef.current, actions, { formatAppendedText });
 
-      case 'set_title_page':
-        console.log('📝 Setting page title');
-        if (currentDocument) {
-          const currentPage = getCurrentPage(currentDocument);
-          if (currentPage) {
-            const updatedPages = currentDocument.pages.map(page => 
-              page.id === currentPage.id 
-                ? { ...page, title: actionContent, updated_at: new Date().toISOString() }
-                : page
-            );
-            const updatedDoc: Document = {
-              ...currentDocument,
-              pages: updatedPages,
-              updated_at: new Date().toISOString(),
-            };
-            updateDocument(updatedDoc);
-            const response = answer || `Đã đặt tiêu đề trang ${currentPage.page_number}: "${actionContent}"`;
-            setAgentResponse(response);
-          }
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để đặt tiêu đề trang.';
-          setAgentResponse(response);
-        }
-        break;
+    // The streamed answer claims the actions are done: only let it finish when they are applied now
+    if (result.ok && !confirmed) {
+      const question = buildConfirmationQuestion(documentStateRef.current, actions);
+      if (question) {
+        discardStreamedAnswer(turnId);
+        askConfirmation({ kind: 'actions', question, actions, answer, turnId });
+        return { status: 'pending' };
+      }
+    }
 
-      case 'read_title_page':
-        console.log('📖 Reading page title');
-        if (currentDocument) {
-          const currentPage = getCurrentPage(currentDocument);
-          if (currentPage && currentPage.title) {
-            const response = answer || `Tiêu đề trang ${currentPage.page_number} là: "${currentPage.title}"`;
-            setAgentResponse(response);
-          } else if (currentPage) {
-            const response = answer || `Trang ${currentPage.page_number} chưa có tiêu đề.`;
-            setAgentResponse(response);
-          }
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để đọc tiêu đề trang.';
-          setAgentResponse(response);
-        }
-        break;
+    if (!result.ok) {
+      discardStreamedAnswer(turnId);
+      console.warn(`↩️ Action ${result.failedIndex + 1}/${actions.length} (${result.failedAction.type}) failed, rolling back:`, result.error);
+      if (actions.length === 1) {
+        setAgentResponse(answer || result.error);
+      } else {
+        setAgentResponse(`Không thể thực hiện bước ${result.failedIndex + 1}: ${result.error} Chưa có thay đổi nào được áp dụng.`);
+      }
+      return { status: 'failed', reason: result.error };
+    }
 
-      case 'add_page':
-        console.log('📄 Adding new page');
-        if (currentDocument) {
-          const newPageNumber = currentDocument.pages.length + 1;
-          console.log('📄 Agent creating new page number:', newPageNumber);
-          
-          const newPage = {
-            id: uuidv4(),
-            title: '', // Add title field for new pages
-            content: '',
-            page_number: newPageNumber,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          };
-          
-          const updatedDoc = {
-            ...currentDocument,
-            pages: [...currentDocument.pages, newPage],
-            current_page: newPageNumber, // Automatically switch to the new page
-            updated_at: new Date().toISOString(),
-          };
-          
-          console.log('📋 Agent updated document with new page:', updatedDoc);
-          console.log('🎯 Agent setting current page to:', newPageNumber);
-          
-          updateDocument(updatedDoc);
-          const response = answer || `Đã tạo trang mới số ${newPageNumber}. Bạn đang ở trang ${newPageNumber}.`;
-          setAgentResponse(response);
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để tạo trang mới.';
-          setAgentResponse(response);
-        }
-        break;
+    const { documentActions, state, messages, stopEditing } = result;
 
-      case 'next_page':
-        console.log('➡️ Moving to next page');
-        if (currentDocument) {
-          if (currentDocument.current_page < currentDocument.pages.length) {
-            const updatedDoc: Document = {
-              ...currentDocument,
-              current_page: currentDocument.current_page + 1,
-            };
-            updateDocument(updatedDoc);
-            const response = answer || `Đã chuyển đến trang ${updatedDoc.current_page}.`;
-            setAgentResponse(response);
-          } else {
-            const response = answer || 'Đây là trang cuối cùng.';
-            setAgentResponse(response);
-          }
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn.';
-          setAgentResponse(response);
-        }
-        break;
+    // In review mode page edits wait for the user; other actions in the batch wait with them
+    if (reviewModeRef.current) {
+      const proposal = buildReviewProposal(documentStateRef.current, state, documentActions, turnId, answer);
+      if (proposal) {
+        console.log('📝 Holding agent edits for review:', getProposalHunkIds(proposal).length, 'hunks');
+        pendingReviewRef.current = proposal;
+        setPendingReview(proposal);
+        discardStreamedAnswer(turnId);
+        setAgentResponse(summarizeProposal(proposal));
+        return { status: 'pending' };
+      }
+    }
 
-      case 'prev_page':
-        console.log('⬅️ Moving to previous page');
-        if (currentDocument) {
-          if (currentDocument.current_page > 1) {
-            const updatedDoc: Document = {
-              ...currentDocument,
-              current_page: currentDocument.current_page - 1,
-            };
-            updateDocument(updatedDoc);
-            const response = answer || `Đã chuyển về trang ${updatedDoc.current_page}.`;
-            setAgentResponse(response);
-          } else {
-            const response = answer || 'Đây là trang đầu tiên.';
-            setAgentResponse(response);
-          }
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn.';
-          setAgentResponse(response);
-        }
-        break;
+    dispatch({ type: 'batch', actions: documentActions }, 'agent', turnId);
+    if (stopEditing || !state.currentDocumentId) {
+      setIsEditing(false);
+    }
 
-      case 'read_page':
-        console.log('📖 Reading current page');
-        if (currentDocument) {
-          const currentPage = getCurrentPage(currentDocument);
-          if (currentPage && currentPage.content) {
-            const pageTitle = currentPage.title ? ` "${currentPage.title}"` : '';
-            const response = answer || `Đây là nội dung trang ${currentPage.page_number}${pageTitle}: ${currentPage.content}`;
-            setAgentResponse(response);
-          } else if (currentPage) {
-            const response = answer || `Trang ${currentPage.page_number} hiện tại đang trống.`;
-            setAgentResponse(response);
-          }
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để đọc.';
-          setAgentResponse(response);
-        }
-        break;
+    setAgentResponse(answer || messages.join(' ') || 'Đã thực hiện xong.');
+    return { status: 'applied' };
+  };
 
-      case 'delete_page':
-        console.log('🗑️ Deleting current page');
-        if (currentDocument && currentDocument.pages.length > 1) {
-          const currentPageNum = currentDocument.current_page;
-          const updatedPages = currentDocument.pages.filter(page => page.page_number !== currentPageNum);
-          // Renumber pages
-          const renumberedPages = updatedPages.map((page, index) => ({
-            ...page,
-            page_number: index + 1
-          }));
-          const newCurrentPage = Math.min(currentPageNum, renumberedPages.length);
-          const updatedDoc: Document = {
-            ...currentDocument,
-            pages: renumberedPages,
-            current_page: newCurrentPage,
-            updated_at: new Date().toISOString(),
-          };
-          updateDocument(updatedDoc);
-          const response = answer || `Đã xóa trang ${currentPageNum}.`;
-          setAgentResponse(response);
-        } else if (currentDocument) {
-          const response = answer || 'Không thể xóa trang duy nhất trong tài liệu.';
-          setAgentResponse(response);
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để xóa trang.';
-          setAgentResponse(response);
-        }
-        break;
-        
-      case 'remove_doc':
-        console.log('🗑️ Removing current document');
-        if (currentDocument) {
-          const documentTitle = currentDocument.title;
-          handleDocumentDelete(currentDocument.id);
-          const response = answer || `Đã xóa tài liệu: "${documentTitle}"`;
-          setAgentResponse(response);
-        } else {
-          const response = answer || 'Không có tài liệu nào được chọn để xóa.';
-          setAgentResponse(response);
-        }
-        break;
-        
-      case 'save_doc':
-        console.log('💾 Saving current document');
-        if (currentDocument) {
-          setIsEditing(false);
-          const response = answer || `Đã lưu tài liệu: "${currentDocument.title}"`;
-          setAgentResponse(response);
-        } else {
-          const response = answer || 'Không có tài liệu nào để lưu.';
-          setAgentResponse(response);
-        }
-        break;
-        
-      case 'reply_user':
-        console.log('💬 Replying to user');
-        const response = answer || actionContent;
-        setAgentResponse(response);
-        break;
-        
-      default:
-        console.log('❓ Unknown action type:', actionType);
-        const unknownResponse = answer || `Không hiểu lệnh: ${actionType}.`;
-        setAgentResponse(unknownResponse);
-    }
+  const askConfirmation = (confirmation: PendingConfirmation) => {
+    console.log('❓ Waiting for confirmation:', confirmation.question);
+    pendingConfirmationRef.current = confirmation;
+    setAgentResponse(confirmation.question);
   };
 
-  // Extract title from content (first line or first few words)
-  const extractTitleFromContent = (content: string): string => {
-    if (!content) return '';
-    
-    const firstLine = content.split('\n')[0].trim();
-    if (firstLine.length > 0 && firstLine.length <= 100) {
-      return firstLine;
+  // Classify the reply to a pending confirmation and carry out or cancel the step
+  const handleConfirmationAnswer = async (confirmation: PendingConfirmation, utterance: string) => {
+    const answer = classifyConfirmation(utterance);
+    if (!answer) {
+      setAgentResponse(`Tôi chưa rõ câu trả lời. ${confirmation.question}`);
+      return;
     }
-    
-    // If first line is too long, use first few words
-    const words = firstLine.split(' ').slice(0, 8);
-    return words.join(' ') + (words.length === 8 ? '...' : '');
-  };
 
-  // Local command processing (fallback)
-  const processVoiceCommandLocally = async (command: string): Promise<string> => {
-    const lowerCommand = command.toLowerCase();
+    pendingConfirmationRef.current = undefined;
+    const confirmed = answer === 'yes';
+    console.log(confirmed ? '✅ Confirmed:' : '🚫 Declined:', confirmation.question);
 
-    // Handle direct content writing
-    if (currentDocument && !lowerCommand.includes('tạo') && !lowerCommand.includes('tìm') && 
-        !lowerCommand.includes('chỉnh sửa') && !lowerCommand.includes('xóa') && !lowerCommand.includes('đọc')) {
-      // This seems like content to add to the current page
-      const currentPage = getCurrentPage(currentDocument);
-      if (currentPage) {
-        const updatedPages = currentDocument.pages.map(page => 
-          page.id === currentPage.id 
-            ? { ...page, content: page.content + (page.content ? '\n' : '') + command, updated_at: new Date().toISOString() }
-            : page
-        );
-        const updatedDoc: Document = {
-          ...currentDocument,
-          pages: updatedPages,
-          updated_at: new Date().toISOString(),
-        };
-        updateDocument(updatedDoc);
-        return `Đã thêm nội dung vào trang ${currentPage.page_number}: "${command}"`;
+    if (confirmation.kind === 'delete_threads') {
+      if (confirmed) {
+        const count = await deleteThreads(confirmation.threadIds);
+        setAgentResponse(`Đã xóa ${count} cuộc trò chuyện cũ.`);
+      } else {
+        setAgentResponse('Đã hủy. Không có cuộc trò chuyện nào bị xóa.');
       }
+      return;
     }
 
-    if (lowerCommand.includes('tạo') && (lowerCommand.includes('tài liệu') || lowerCommand.includes('mới'))) {
-      handleDocumentCreate();
-      return 'Đã tạo tài liệu mới. Hãy nói nội dung bạn muốn thêm.';
-    }
-    
-    if (lowerCommand.includes('tìm') || lowerCommand.includes('tìm kiếm')) {
-      const searchTerm = extractSearchTerm(command);
-      if (searchTerm) {
-        setSearchQuery(searchTerm);
-        return `Đang tìm kiếm: "${searchTerm}"`;
+    if (confirmation.kind === 'actions') {
+      if (confirmed) {
+        await processAgentActions(confirmation.actions, confirmation.answer, confirmation.turnId, true);
+      } else {
+        setAgentResponse('Đã hủy. Không có gì bị xóa.');
       }
-      return 'Vui lòng nói rõ từ khóa bạn muốn tìm kiếm.';
+      return;
     }
-    
-    if (lowerCommand.includes('chỉnh sửa') || lowerCommand.includes('sửa')) {
-      if (currentDocument) {
-        setIsEditing(true);
-        return `Đã chuyển sang chế độ chỉnh sửa tài liệu: ${currentDocument.title}`;
+
+    // Send the answer back to the paused graph
+    setIsProcessing(true);
+    activeRunRef.current = { turnId: confirmation.turnId, threadId: confirmation.threadId, controller: new AbortController() };
+    // Fresh stream for spoken notices; the turn's own one has already ended
+    const streamId = uuidv4();
+    setStreamedAnswer({ turnId: streamId, sentences: [], notices: [], done: false });
+    try {
+      const events = AgentApiService.resumeStreamingRun(
+        confirmation.threadId,
+        confirmation.assistantId,
+        { confirmed, answer, utterance },
+        'updates',
+        getRunStreamOptions(confirmation.turnId, streamId)
+      );
+      const turn = await collectAgentTurn(events, confirmation.threadId, confirmation.turnId);
+      if (isTurnCancelled(confirmation.turnId)) return;
+
+      if (turn.interrupt) {
+        askConfirmation({ ...confirmation, question: getInterruptQuestion(turn.interrupt) });
+        return;
+      }
+
+      setConversationHistory(prev => manageConversationHistory([
+        ...prev,
+        { role: "user", content: utterance },
+        { role: "assistant", content: turn.content },
+      ]));
+
+      if (turn.content || turn.toolCalls.length) {
+        await processParsedAgentResponse(parseAgentResponse(turn.content, turn.toolCalls), confirmation.turnId, confirmed);
+      } else {
+        setAgentResponse(confirmed ? 'Đã xác nhận.' : 'Đã hủy. Không có gì bị xóa.');
+      }
+    } catch (error) {
+      if (isTurnCancelled(confirmation.turnId)) return;
+      console.error('❌ Error resuming interrupted run:', error);
+      setAgentResponse('Không thể gửi câu trả lời tới agent. Vui lòng thử lại.');
+    } finally {
+      if (!isTurnCancelled(confirmation.turnId)) {
+        activeRunRef.current = undefined;
+        setIsProcessing(false);
       }
-      return 'Vui lòng chọn một tài liệu để chỉnh sửa.';
+      setStreamedAnswer(prev => prev?.turnId === streamId ? { ...prev, done: true } : prev);
     }
-    
-    if (lowerCommand.includes('xóa')) {
-      if (currentDocument) {
-        return `Bạn có muốn xóa tài liệu "${currentDocument.title}" không? Hãy xác nhận bằng cách nhấn nút xóa.`;
+  };
+
+  // The agent is unreachable: save the command with the document and page it was spoken in
+  const queueCommand = async (command: string) => {
+    const queued = createQueuedCommand(command, documentStateRef.current);
+    try {
+      await DocumentStorageService.enqueueCommand(queued);
+      console.log('📥 Queued offline command:', queued);
+      setQueuedCommandCount(count => count + 1);
+      setAgentResponse('Không kết nối được với trợ lý. Tôi đã lưu lệnh này và sẽ gửi lại khi có kết nối.');
+    } catch (error) {
+      console.error('❌ Could not queue command:', error);
+      setAgentResponse('Không kết nối được với trợ lý và không thể lưu lệnh. Vui lòng thử lại sau.');
+    }
+  };
+
+  // Send one saved command from the document and page it was spoken in.
+  // 'deferred' keeps it queued: still offline, or the user started another turn.
+  const replayQueuedCommand = async (
+    queued: QueuedCommand,
+    assistant: Assistant
+  ): Promise<{ status: 'deferred' } | { status: 'done'; outcome: ActionOutcome }> => {
+    const document = documentStateRef.current.documents.find(doc => doc.id === queued.document_id);
+    const pageNumber = document?.pages.find(page => page.id === queued.page_id)?.page_number;
+    // Spoken with no document open: leave whatever is open now
+    if (document) dispatch({ type: 'select_document', documentId: document.id });
+    if (pageNumber) dispatch({ type: 'go_to_page', pageNumber });
+    const contextDocument = document && pageNumber ? { ...document, current_page: pageNumber } : document;
+
+    const turnId = uuidv4();
+    try {
+      const { thread, history } = await getDocumentThread(document, assistant.assistant_id);
+      if (activeRunRef.current) return { status: 'deferred' };
+      activeRunRef.current = { turnId, threadId: thread.thread_id, controller: new AbortController() };
+
+      const { userMessage, runData } = buildAgentRun(
+        queued.text,
+        assistant.assistant_id,
+        contextDocument,
+        documentStateRef.current.documents,
+        manageConversationHistory(history),
+        'queued_voice_command'
+      );
+      console.log('📤 Replaying queued command:', queued.text);
+      const turn = await streamAgentTurn(thread.thread_id, runData, turnId);
+      if (isTurnCancelled(turnId)) return { status: 'deferred' };
+
+      setConversationHistory(prev => manageConversationHistory([
+        ...prev,
+        { role: "user", content: userMessage },
+        { role: "assistant", content: turn.content },
+      ]));
+
+      if (turn.interrupt) {
+        const question = getInterruptQuestion(turn.interrupt);
+        askConfirmation({ kind: 'interrupt', question, threadId: thread.thread_id, assistantId: assistant.assistant_id, turnId });
+        return { status: 'done', outcome: { status: 'pending' } };
       }
-      return 'Vui lòng chọn một tài liệu để xóa.';
+      if (!turn.content && !turn.toolCalls.length) {
+        return { status: 'done', outcome: { status: 'failed', reason: 'trợ lý không trả lời' } };
+      }
+      const outcome = await processParsedAgentResponse(parseAgentResponse(turn.content, turn.toolCalls), turnId);
+      return { status: 'done', outcome };
+    } catch (error) {
+      if (isTurnCancelled(turnId) || (isAgentUnreachable(error) && !activeRunRef.current?.runId)) {
+        return { status: 'deferred' };
+      }
+      console.error('❌ Error replaying queued command:', error);
+      const reason = error instanceof AgentRunError ? `trợ lý gặp lỗi: ${error.message}` : 'không gửi được tới trợ lý';
+      return { status: 'done', outcome: { status: 'failed', reason } };
+    } finally {
+      if (activeRunRef.current?.turnId === turnId) activeRunRef.current = undefined;
     }
-    
-    if (lowerCommand.includes('đọc') || lowerCommand.includes('xem')) {
-      if (currentDocument) {
-        const currentPage = getCurrentPage(currentDocument);
-        if (currentPage && currentPage.content) {
-          return `Đây là nội dung trang ${currentPage.page_number} của tài liệu "${currentDocument.title}": ${currentPage.content}`;
-        } else if (currentPage) {
-          return `Trang ${currentPage.page_number} của tài liệu "${currentDocument.title}" hiện tại đang trống.`;
+  };
+
+  // What the user is being asked right now: a confirmation question or the review summary
+  const getPendingPrompt = (): string => {
+    const confirmation = pendingConfirmationRef.current;
+    if (confirmation) return confirmation.question;
+    const proposal = pendingReviewRef.current;
+    return proposal ? summarizeProposal(proposal) : '';
+  };
+
+  // Replay the saved commands in order and say how each went. Stops at the first one that
+  // waits for the user or cannot be sent yet; the rest stay queued.
+  const replayQueuedCommands = async () => {
+    const assistant = currentAssistant;
+    if (!assistant || isReplayingRef.current || activeRunRef.current || pendingConfirmationRef.current || pendingReviewRef.current) {
+      return;
+    }
+
+    isReplayingRef.current = true;
+    const outcomes: ReplayOutcome[] = [];
+    let queue: QueuedCommand[] = [];
+    try {
+      queue = await DocumentStorageService.loadCommandQueue();
+      if (queue.length === 0) return;
+      console.log('📤 Replaying', queue.length, 'queued commands');
+
+      // Edits made by the replay itself are not conflicts
+      const stateBeforeReplay = documentStateRef.current;
+      for (const queued of queue) {
+        const conflict = findQueuedCommandConflict(stateBeforeReplay, queued);
+        let outcome: ReplayOutcome;
+        if (conflict) {
+          outcome = { status: 'conflicted', command: queued, reason: conflict };
+        } else {
+          const result = await replayQueuedCommand(queued, assistant);
+          if (result.status === 'deferred') break;
+          outcome = result.outcome.status === 'applied'
+            ? { status: 'succeeded', command: queued }
+            : result.outcome.status === 'failed'
+              ? { status: 'failed', command: queued, reason: result.outcome.reason }
+              : { status: 'pending', command: queued, prompt: getPendingPrompt() };
         }
+
+        await DocumentStorageService.removeQueuedCommand(queued.id);
+        outcomes.push(outcome);
+        if (outcome.status === 'pending') break;
       }
-      return 'Vui lòng chọn một tài liệu để đọc.';
+    } catch (error) {
+      console.error('❌ Could not replay queued commands:', error);
+    } finally {
+      isReplayingRef.current = false;
     }
 
-    // Default: add content to current page
-    if (currentDocument) {
-      const currentPage = getCurrentPage(currentDocument);
+    if (outcomes.length === 0) return;
+    const remaining = queue.length - outcomes.length;
+    setQueuedCommandCount(remaining);
+    setAnnouncement({ id: uuidv4(), text: describeReplay(outcomes, remaining) });
+  };
+
+  // Reconnect first if the agent was never reached; the new thread then triggers the replay
+  const retryQueuedCommands = async () => {
+    if (!currentAssistant) {
+      try {
+        await connectAgent(AgentSettingsService.load());
+      } catch (error) {
+        console.log('🔌 Agent still unreachable, keeping queued commands:', error);
+      }
+      return;
+    }
+    await replayQueuedCommands();
+  };
+
+  // Spoken punctuation ("dấu phẩy", "xuống dòng") per the speech settings, for speech written into a page
+  const formatAppendedText = useCallback(
+    (text: string, pageContent: string) => formatSpokenText(text, pageContent, SpeechSettingsService.load()),
+    []
+  );
+
+  // Local command processing (fallback)
+  const processVoiceCommandLocally = async (command: string): Promise<string> => {
+    const localCommand = parseLocalCommand(command);
+
+    // Anything else is content for the current page
+    if (!localCommand) {
+      const currentPage = currentDocument && selectCurrentPage(currentDocument);
       if (currentPage) {
-        const updatedPages = currentDocument.pages.map(page => 
-          page.id === currentPage.id 
-            ? { ...page, content: page.content + (page.content ? '\n' : '') + command, updated_at: new Date().toISOString() }
-            : page
-        );
-        const updatedDoc: Document = {
-          ...currentDocument,
-          pages: updatedPages,
-          updated_at: new Date().toISOString(),
-        };
-        updateDocument(updatedDoc);
-        return `Đã thêm nội dung vào trang ${currentPage.page_number}: "${command}"`;
+        const content = formatAppendedText(command, currentPage.content);
+        dispatch({ type: 'append_to_page', content, at: new Date().toISOString() }, 'local');
+        return `Đã thêm nội dung vào trang ${currentPage.page_number}: "${content}"`;
       }
+      return 'Tôi đã nhận được lệnh của bạn. Tuy nhiên, tôi chưa thể xử lý lệnh này. Vui lòng thử: "Tạo tài liệu mới", "Tìm kiếm...", "Chỉnh sửa", hoặc "Đọc tài liệu".';
     }
 
-    return 'Tôi đã nhận được lệnh của bạn. Tuy nhiên, tôi chưa thể xử lý lệnh này. Vui lòng thử: "Tạo tài liệu mới", "Tìm kiếm...", "Chỉnh sửa", hoặc "Đọc tài liệu".';
-  };
+    switch (localCommand.kind) {
+      case 'create_document':
+        handleDocumentCreate();
+        return 'Đã tạo tài liệu mới. Hãy nói nội dung bạn muốn thêm.';
 
-  // Extract search term from voice command
-  const extractSearchTerm = (command: string): string => {
-    const lowerCommand = command.toLowerCase();
-    const patterns = [
-      /tìm kiếm (.*)/,
-      /tìm (.*)/,
-      /tìm kiếm về (.*)/,
-      /tìm về (.*)/,
-    ];
-    
-    for (const pattern of patterns) {
-      const match = lowerCommand.match(pattern);
-      if (match && match[1]) {
-        return match[1].trim();
+      case 'search':
+        if (localCommand.query) {
+          setSearchQuery(localCommand.query);
+          return `Đang tìm kiếm: "${localCommand.query}"`;
+        }
+        return 'Vui lòng nói rõ từ khóa bạn muốn tìm kiếm.';
+
+      case 'edit':
+        if (currentDocument) {
+          setIsEditing(true);
+          return `Đã chuyển sang chế độ chỉnh sửa tài liệu: ${currentDocument.title}`;
+        }
+        return 'Vui lòng chọn một tài liệu để chỉnh sửa.';
+
+      case 'delete': {
+        if (!currentDocument) return 'Vui lòng chọn một tài liệu để xóa.';
+        // Ask by voice; the reply is handled like an agent confirmation
+        const actions: AgentAction[] = [{ type: localCommand.target === 'page' ? 'delete_page' : 'remove_doc' }];
+        const question = buildConfirmationQuestion(documentStateRef.current, actions) ?? '';
+        pendingConfirmationRef.current = { kind: 'actions', question, actions, answer: '', turnId: uuidv4() };
+        return question;
+      }
+
+      case 'read': {
+        const currentPage = currentDocument && selectCurrentPage(currentDocument);
+        if (currentDocument && currentPage?.content) {
+          return `Đây là nội dung trang ${currentPage.page_number} của tài liệu "${currentDocument.title}": ${currentPage.content}`;
+        } else if (currentDocument && currentPage) {
+          return `Trang ${currentPage.page_number} của tài liệu "${currentDocument.title}" hiện tại đang trống.`;
+        }
+        return 'Vui lòng chọn một tài liệu để đọc.';
       }
     }
-    return '';
   };
 
+  // Dictation: written to the current page as spoken, without the agent
+  const handleDictation = useCallback((text: string) => {
+    const currentPage = currentDocument && selectCurrentPage(currentDocument);
+    if (!currentPage) {
+      announce('Chưa có tài liệu nào đang mở để ghi. Hãy nói "kết thúc đọc chính tả" rồi tạo hoặc chọn một tài liệu.');
+      return;
+    }
+    const content = formatAppendedText(text, currentPage.content);
+    dispatch({ type: 'append_to_page', content, at: new Date().toISOString(), inline: true }, 'local');
+  }, [currentDocument, dispatch, announce, formatAppendedText]);
+
+  // The turn helpers are re-created every render; the memoized handleVoiceCommand
+  // reads the latest ones here so it never runs with an old thread or document
+  const turnHelpersRef = useRef({
+    handleConfirmationAnswer,
+    processParsedAgentResponse,
+    processVoiceCommandLocally,
+    streamAgentTurn,
+    queueCommand,
+    askConfirmation,
+  });
+  useEffect(() => {
+    turnHelpersRef.current = {
+      handleConfirmationAnswer,
+      processParsedAgentResponse,
+      processVoiceCommandLocally,
+      streamAgentTurn,
+      queueCommand,
+      askConfirmation,
+    };
+  });
+
   // Legacy function - kept for fallback compatibility
   const processAgentAction = async (action: string, data: any) => {
     console.log('🎯 Processing legacy agent action:', action, 'with data:', data);
@@ -838,71 +1620,27 @@ export default function HomePage() {
 
   // Document management functions
   const handleDocumentCreate = () => {
-    setCurrentDocument(undefined);
+    dispatch({ type: 'select_document', documentId: undefined });
     setIsEditing(true);
-    // ✅ ADDED: Clear conversation history when creating new document
-    setConversationHistory([]);
   };
 
   const handleDocumentSelect = (document: Document) => {
-    setCurrentDocument(document);
+    dispatch({ type: 'select_document', documentId: document.id });
     setIsEditing(false);
-    // ✅ ADDED: Clear conversation history when switching documents
-    setConversationHistory([]);
   };
 
   const handleDocumentEdit = (document: Document) => {
-    setCurrentDocument(document);
+    dispatch({ type: 'select_document', documentId: document.id });
     setIsEditing(true);
   };
 
-  const handleDocumentDelete = (documentId: string) => {
-    setDocuments(prev => prev.filter(doc => doc.id !== documentId));
-    if (currentDocument?.id === documentId) {
-      setCurrentDocument(undefined);
-      setIsEditing(false);
-    }
-  };
-
   const handleDocumentSave = (data: { title: string; content: string }) => {
-    const now = new Date().toISOString();
-    
     if (currentDocument) {
       // Update existing document - update current page content
-      const currentPage = getCurrentPage(currentDocument);
-      if (currentPage) {
-        const updatedPages = currentDocument.pages.map(page => 
-          page.id === currentPage.id 
-            ? { ...page, content: data.content, updated_at: now }
-            : page
-        );
-        const updatedDoc: Document = {
-          ...currentDocument,
-          title: data.title,
-          pages: updatedPages,
-          updated_at: now,
-        };
-        updateDocument(updatedDoc);
-      }
+      dispatch({ type: 'save_page', title: data.title, content: data.content, at: new Date().toISOString() });
     } else {
       // Create new document
-      const newDoc: Document = {
-        id: uuidv4(),
-        title: data.title,
-        pages: [{
-          id: uuidv4(),
-          title: '', // Add title field
-          content: data.content,
-          page_number: 1,
-          created_at: now,
-          updated_at: now,
-        }],
-        current_page: 1,
-        created_at: now,
-        updated_at: now,
-      };
-      setDocuments(prev => [newDoc, ...prev]);
-      setCurrentDocument(newDoc);
+      dispatch({ type: 'create_document', document: createDocument({ title: data.title, content: data.content }) });
     }
     
     setIsEditing(false);
@@ -970,10 +1708,73 @@ export default function HomePage() {
 
             {/* Voice Status - Prominent */}
             <div className="flex items-center space-x-4">
-              <div className="flex items-center bg-gradient-to-r from-green-500/20 to-emerald-500/20 backdrop-blur-sm border border-green-400/30 rounded-full px-4 py-2">
-                <div className="w-3 h-3 bg-green-400 rounded-full mr-3 animate-pulse shadow-lg shadow-green-400/50"></div>
-                <span className="text-sm font-semibold text-green-300">VOICE ACTIVE</span>
+              {/* Agent settings */}
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="p-2 rounded-full text-purple-200 hover:bg-white/10 transition-colors"
+                aria-label="Cài đặt agent"
+                title={currentAssistant ? `Trợ lý: ${getAssistantLabel(currentAssistant)}` : 'Cài đặt agent'}
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+              {/* Speech settings */}
+              <button
+                onClick={openSpeechSettings}
+                className="p-2 rounded-full text-purple-200 hover:bg-white/10 transition-colors"
+                aria-label="Cài đặt giọng nói"
+                title="Cài đặt giọng nói"
+              >
+                <AudioLines className="w-5 h-5" />
+              </button>
+              {/* Conversation threads */}
+              <button
+                onClick={openThreadsPanel}
+                className="p-2 rounded-full text-purple-200 hover:bg-white/10 transition-colors"
+                aria-label="Cuộc trò chuyện"
+                title="Cuộc trò chuyện"
+              >
+                <MessagesSquare className="w-5 h-5" />
+              </button>
+              {/* Review mode */}
+              <button
+                onClick={() => toggleReviewMode(!reviewMode)}
+                className={`p-2 rounded-full transition-colors ${reviewMode ? 'bg-yellow-500/20 text-yellow-300' : 'text-purple-200 hover:bg-white/10'}`}
+                aria-label="Chế độ xem xét"
+                aria-pressed={reviewMode}
+                title={reviewMode ? 'Tắt chế độ xem xét' : 'Bật chế độ xem xét'}
+              >
+                <GitCompare className="w-5 h-5" />
+              </button>
+              {/* Undo / Redo */}
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={handleUndo}
+                  disabled={history.past.length === 0}
+                  className="p-2 rounded-full text-purple-200 hover:bg-white/10 disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+                  aria-label="Hoàn tác"
+                  title={history.past.length ? `Hoàn tác: ${history.past[history.past.length - 1].label}` : 'Hoàn tác'}
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={history.future.length === 0}
+                  className="p-2 rounded-full text-purple-200 hover:bg-white/10 disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+                  aria-label="Làm lại"
+                  title={history.future.length ? `Làm lại: ${history.future[0].label}` : 'Làm lại'}
+                >
+                  <Redo2 className="w-5 h-5" />
+                </button>
               </div>
+              {queuedCommandCount > 0 && (
+                <div
+                  className="px-4 py-2 rounded-full text-sm font-medium border bg-yellow-500/20 text-yellow-300 border-yellow-400/30"
+                  title="Các lệnh này sẽ được gửi lại khi kết nối với trợ lý"
+                >
+                  {queuedCommandCount} lệnh chờ gửi
+                </div>
+              )}
+              <AgentStatusIndicator health={agentHealth} />
               {currentDocument && (
                 <div className={`px-4 py-2 rounded-full text-sm font-medium border ${
                   isEditing 
@@ -1022,9 +1823,13 @@ export default function HomePage() {
               
               <VoiceController
                 onVoiceCommand={handleVoiceCommand}
+                onDictation={handleDictation}
                 agentResponse={agentResponse}
+                streamedAnswer={streamedAnswer}
                 isProcessing={isProcessing}
                 autoStart={isInteractionMode}
+                onBargeIn={handleBargeIn}
+                announcement={announcement}
               />
             </div>
           </div>
@@ -1034,20 +1839,24 @@ export default function HomePage() {
         <div className="flex-1 flex flex-col overflow-hidden">
           <div className="flex-1 p-6 overflow-auto">
             <div className="max-w-5xl mx-auto h-full">
-              {currentDocument ? (
+              {pendingReview ? (
+                <ReviewPanel
+                  proposal={pendingReview}
+                  onDecide={decideHunk}
+                  onAcceptAll={() => decideAllHunks('accepted')}
+                  onRejectAll={() => decideAllHunks('rejected')}
+                />
+              ) : currentDocument ? (
                 <div className="h-full flex flex-col">
                   {(() => {
-                    const currentPage = getCurrentPage(currentDocument);
+                    const currentPage = selectCurrentPage(currentDocument);
                     return currentPage ? (
                       <div className="h-full flex flex-col space-y-4">
                         {/* Compact Page Navigation */}
                         <div className="flex items-center justify-between bg-black/20 backdrop-blur-xl rounded-xl p-4 border border-white/10 flex-shrink-0">
                           <button
                             onClick={() => {
-                              if (currentDocument.current_page > 1) {
-                                const updatedDoc = { ...currentDocument, current_page: currentDocument.current_page - 1 };
-                                updateDocument(updatedDoc);
-                              }
+                              dispatch({ type: 'prev_page' });
                             }}
                             disabled={currentDocument.current_page <= 1}
                             className="group flex items-center px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg shadow-lg hover:shadow-xl hover:scale-105 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100 transition-all duration-200"
@@ -1071,10 +1880,7 @@ export default function HomePage() {
                           
                           <button
                             onClick={() => {
-                              if (currentDocument.current_page < currentDocument.pages.length) {
-                                const updatedDoc = { ...currentDocument, current_page: currentDocument.current_page + 1 };
-                                updateDocument(updatedDoc);
-                              }
+                              dispatch({ type: 'next_page' });
                             }}
                             disabled={currentDocument.current_page >= currentDocument.pages.length}
                             className="group flex items-center px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg shadow-lg hover:shadow-xl hover:scale-105 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100 transition-all duration-200"
@@ -1213,6 +2019,35 @@ export default function HomePage() {
           </div>
         </div>
       </main>
+
+      {isSettingsOpen && (
+        <AgentSettingsPanel
+          settings={agentSettings}
+          assistants={assistants}
+          currentAssistantId={currentAssistant?.assistant_id}
+          onSave={handleSettingsSave}
+          onClose={() => setIsSettingsOpen(false)}
+          isSaving={isSavingSettings}
+        />
+      )}
+
+      {isSpeechSettingsOpen && (
+        <SpeechSettingsPanel
+          settings={speechSettings}
+          onSave={handleSpeechSettingsSave}
+          onClose={() => setIsSpeechSettingsOpen(false)}
+        />
+      )}
+
+      {isThreadsOpen && (
+        <ThreadsPanel
+          threads={threads}
+          documents={documents}
+          currentThreadId={currentThread?.thread_id}
+          onDelete={deleteThreads}
+          onClose={() => setIsThreadsOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Save, X, Server, KeyRound, Bot } from 'lucide-react';
+import { AgentSettings, Assistant } from '@/types';
+import { getAssistantLabel } from '@/lib/assistantSelection';
+
+interface AgentSettingsPanelProps {
+  settings: AgentSettings;
+  assistants: Assistant[];
+  currentAssistantId?: string;
+  onSave: (settings: AgentSettings) => void;
+  onClose: () => void;
+  isSaving?: boolean;
+}
+
+export const AgentSettingsPanel: React.FC<AgentSettingsPanelProps> = ({
+  settings,
+  assistants,
+  currentAssistantId,
+  onSave,
+  onClose,
+  isSaving = false,
+}) => {
+  const [draft, setDraft] = useState<AgentSettings>(settings);
+
+  // Start from the saved settings whenever the panel is reopened
+  useEffect(() => {
+    setDraft({ ...settings, assistantId: currentAssistantId ?? settings.assistantId });
+  }, [settings, currentAssistantId]);
+
+  const update = (changes: Partial<AgentSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave({ ...draft, apiUrl: draft.apiUrl.trim() });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="agent-settings-title"
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-lg bg-slate-900 border border-white/10 rounded-2xl shadow-2xl text-white"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h2 id="agent-settings-title" className="text-lg font-bold text-purple-200">Cài đặt agent</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full text-purple-200 hover:bg-white/10 transition-colors"
+            aria-label="Đóng"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {/* Endpoint */}
+          <label className="block">
+            <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+              <Server size={16} />
+              Địa chỉ agent
+            </span>
+            <input
+              type="text"
+              value={draft.apiUrl}
+              onChange={(e) => update({ apiUrl: e.target.value })}
+              placeholder="http://localhost:8123"
+              className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+              required
+            />
+            <span className="text-xs text-purple-400 mt-1 block">
+              Dùng &quot;/api/agent&quot; để đi qua proxy của Next.js (tránh lỗi CORS).
+            </span>
+          </label>
+
+          {/* Auth */}
+          <div>
+            <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+              <KeyRound size={16} />
+              Xác thực
+            </span>
+            <div className="flex gap-2">
+              <select
+                value={draft.authType}
+                onChange={(e) => update({ authType: e.target.value as AgentSettings['authType'] })}
+                className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-purple-500"
+                aria-label="Kiểu xác thực"
+              >
+                <option value="none">Không</option>
+                <option value="api_key">API key (X-Api-Key)</option>
+                <option value="bearer">Bearer token</option>
+              </select>
+              <input
+                type="password"
+                value={draft.authToken}
+                onChange={(e) => update({ authToken: e.target.value })}
+                disabled={draft.authType === 'none'}
+                placeholder={draft.authType === 'bearer' ? 'Token' : 'API key'}
+                className="flex-1 bg-black/30 border border-white/10 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-40"
+                aria-label="Khóa xác thực"
+                autoComplete="off"
+              />
+            </div>
+            <span className="text-xs text-purple-400 mt-1 block">
+              Khóa được lưu trong trình duyệt này.
+            </span>
+          </div>
+
+          {/* Assistant */}
+          <label className="block">
+            <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+              <Bot size={16} />
+              Trợ lý
+            </span>
+            <select
+              value={draft.assistantId ?? ''}
+              onChange={(e) => update({ assistantId: e.target.value || undefined })}
+              disabled={assistants.length === 0}
+              className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-40"
+            >
+              {assistants.length === 0 && <option value="">Chưa tải được danh sách trợ lý</option>}
+              {assistants.map((assistant, index) => (
+                <option key={assistant.assistant_id} value={assistant.assistant_id}>
+                  {index + 1}. {getAssistantLabel(assistant)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-white/10">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
+          >
+            <X size={16} />
+            Hủy
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !draft.apiUrl.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 disabled:from-gray-600 disabled:to-gray-700 text-white rounded-lg transition-colors"
+          >
+            <Save size={16} />
+            {isSaving ? 'Đang kết nối...' : 'Lưu'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
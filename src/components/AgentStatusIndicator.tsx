@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import { AgentHealth, AgentHealthStatus } from '@/hooks/useAgentHealth';
+
+interface AgentStatusIndicatorProps {
+  health: AgentHealth;
+}
+
+const STATUS_STYLES: Record<AgentHealthStatus, { label: string; badge: string; dot: string; text: string }> = {
+  checking: {
+    label: 'ĐANG KIỂM TRA',
+    badge: 'from-slate-500/20 to-slate-600/20 border-slate-400/30',
+    dot: 'bg-slate-400 shadow-slate-400/50',
+    text: 'text-slate-300',
+  },
+  healthy: {
+    label: 'TRỢ LÝ SẴN SÀNG',
+    badge: 'from-green-500/20 to-emerald-500/20 border-green-400/30',
+    dot: 'bg-green-400 shadow-green-400/50',
+    text: 'text-green-300',
+  },
+  degraded: {
+    label: 'KẾT NỐI CHẬM',
+    badge: 'from-yellow-500/20 to-orange-500/20 border-yellow-400/30',
+    dot: 'bg-yellow-400 shadow-yellow-400/50',
+    text: 'text-yellow-300',
+  },
+  down: {
+    label: 'MẤT KẾT NỐI',
+    badge: 'from-red-500/20 to-rose-500/20 border-red-400/30',
+    dot: 'bg-red-400 shadow-red-400/50',
+    text: 'text-red-300',
+  },
+};
+
+const describeHealth = (health: AgentHealth): string => {
+  const parts: string[] = [];
+  if (health.latencyMs !== undefined) parts.push(`Độ trễ: ${health.latencyMs} ms`);
+  if (health.consecutiveFailures > 0) parts.push(`Lỗi liên tiếp: ${health.consecutiveFailures}`);
+  if (health.error) parts.push(health.error);
+  if (health.lastCheckedAt) parts.push(`Kiểm tra lúc ${new Date(health.lastCheckedAt).toLocaleTimeString('vi-VN')}`);
+  return parts.join(' · ');
+};
+
+// Header badge showing whether the agent server is reachable
+export const AgentStatusIndicator: React.FC<AgentStatusIndicatorProps> = ({ health }) => {
+  const style = STATUS_STYLES[health.status];
+
+  return (
+    <div
+      className={`flex items-center bg-gradient-to-r ${style.badge} backdrop-blur-sm border rounded-full px-4 py-2`}
+      role="status"
+      aria-live="polite"
+      title={describeHealth(health)}
+    >
+      <div className={`w-3 h-3 ${style.dot} rounded-full mr-3 shadow-lg ${health.status === 'healthy' ? 'animate-pulse' : ''}`}></div>
+      <span className={`text-sm font-semibold ${style.text}`}>
+        {style.label}
+        {health.status === 'healthy' && health.latencyMs !== undefined && (
+          <span className="ml-2 font-normal opacity-70">{health.latencyMs} ms</span>
+        )}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+'use client';
+
+import React from 'react';
+import { Check, X, CheckCheck, Ban } from 'lucide-react';
+import { ReviewProposal } from '@/lib/agentReview';
+import { HunkDecision } from '@/lib/wordDiff';
+
+interface ReviewPanelProps {
+  proposal: ReviewProposal;
+  onDecide: (hunkId: number, decision: HunkDecision) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+}
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  proposal,
+  onDecide,
+  onAcceptAll,
+  onRejectAll,
+}) => {
+  return (
+    <div className="bg-black/30 backdrop-blur-xl rounded-2xl border border-yellow-400/30 shadow-2xl h-full flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 flex-shrink-0">
+        <div>
+          <h2 className="text-lg font-bold text-yellow-300">Xem xét thay đổi</h2>
+          {proposal.answer && (
+            <p className="text-sm text-purple-300 mt-1">{proposal.answer}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onAcceptAll}
+            className="flex items-center gap-2 px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors"
+          >
+            <CheckCheck size={16} />
+            Chấp nhận tất cả
+          </button>
+          <button
+            onClick={onRejectAll}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
+          >
+            <Ban size={16} />
+            Từ chối tất cả
+          </button>
+        </div>
+      </div>
+
+      {/* Diff per page */}
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {proposal.pages.map(page => (
+          <div key={page.pageId} className="bg-white rounded-xl shadow-xl overflow-hidden">
+            <div className="bg-gradient-to-r from-purple-50 to-pink-50 px-6 py-3 border-b border-gray-100 text-sm font-semibold text-gray-700">
+              {page.documentTitle} • Trang {page.pageNumber}
+            </div>
+            <div className="p-6 whitespace-pre-wrap text-gray-800 leading-7 font-['Charter',_'Georgia',_serif] text-lg">
+              {page.segments.map((segment, index) => {
+                if (segment.type === 'equal') {
+                  return <span key={index}>{segment.text}</span>;
+                }
+
+                const decision = proposal.decisions[segment.hunkId];
+                return (
+                  <span key={index} className="group relative">
+                    <sup className="text-xs font-sans font-bold text-yellow-600 mr-0.5">{segment.hunkId}</sup>
+                    {segment.removed && decision !== 'accepted' && (
+                      <span className={decision === 'rejected' ? 'text-gray-800' : 'bg-red-100 text-red-700 line-through'}>
+                        {segment.removed}
+                      </span>
+                    )}
+                    {segment.added && decision !== 'rejected' && (
+                      <span className={decision === 'accepted' ? 'bg-green-50 text-gray-800' : 'bg-green-100 text-green-700'}>
+                        {segment.added}
+                      </span>
+                    )}
+                    <span className="inline-flex align-middle ml-1 gap-0.5 font-sans">
+                      <button
+                        onClick={() => onDecide(segment.hunkId, 'accepted')}
+                        className={`p-0.5 rounded ${decision === 'accepted' ? 'bg-green-500 text-white' : 'text-green-600 hover:bg-green-100'}`}
+                        aria-label={`Chấp nhận phần ${segment.hunkId}`}
+                      >
+                        <Check size={14} />
+                      </button>
+                      <button
+                        onClick={() => onDecide(segment.hunkId, 'rejected')}
+                        className={`p-0.5 rounded ${decision === 'rejected' ? 'bg-red-500 text-white' : 'text-red-600 hover:bg-red-100'}`}
+                        aria-label={`Từ chối phần ${segment.hunkId}`}
+                      >
+                        <X size={14} />
+                      </button>
+                    </span>
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
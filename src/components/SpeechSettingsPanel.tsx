@@ -0,0 +1,369 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Save, X, Mic, Volume2, Server, KeyRound, AudioLines, SlidersHorizontal, RotateCcw, Ear, Pilcrow } from 'lucide-react';
+import { SpeechSettings, SpeechToTextProviderId, TextToSpeechProviderId, VoiceActivitySettings, WakeAcknowledgement } from '@/types';
+import { SPEECH_TO_TEXT_PROVIDER_LABELS } from '@/services/speechToText';
+import { TEXT_TO_SPEECH_PROVIDER_LABELS } from '@/services/textToSpeech';
+import { DEFAULT_SPEECH_SETTINGS } from '@/services/speechSettings';
+import { VIETNAMESE_PUNCTUATION, formatPunctuationPhrases, parsePunctuationPhrases } from '@/lib/spokenPunctuation';
+
+interface VadSlider {
+  key: keyof VoiceActivitySettings;
+  label: string;
+  hint: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const formatMs = (value: number) => `${(value / 1000).toLocaleString('vi-VN', { maximumFractionDigits: 2 })} giây`;
+
+const VAD_SLIDERS: VadSlider[] = [
+  {
+    key: 'sensitivity',
+    label: 'Độ lớn so với tiếng ồn',
+    hint: 'Giọng nói phải lớn hơn tiếng ồn nền bao nhiêu lần. Tăng lên nếu tiếng ồn bị nhận nhầm là giọng nói.',
+    min: 1.5,
+    max: 8,
+    step: 0.5,
+    format: value => `× ${value}`,
+  },
+  {
+    key: 'minLevel',
+    label: 'Mức tối thiểu',
+    hint: 'Âm thanh nhỏ hơn mức này không bao giờ được tính là giọng nói. Giảm xuống nếu bạn nói nhỏ.',
+    min: 0.002,
+    max: 0.06,
+    step: 0.002,
+    format: value => value.toFixed(3),
+  },
+  {
+    key: 'hangoverMs',
+    label: 'Khoảng nghỉ giữa các từ',
+    hint: 'Những khoảng lặng ngắn hơn vẫn được tính là đang nói.',
+    min: 100,
+    max: 1000,
+    step: 50,
+    format: formatMs,
+  },
+  {
+    key: 'endOfTurnMs',
+    label: 'Chờ hết câu',
+    hint: 'Thời gian im lặng để kết thúc lệnh khi đã nhận dạng xong. Tăng lên nếu bạn hay bị ngắt giữa câu.',
+    min: 500,
+    max: 4000,
+    step: 100,
+    format: formatMs,
+  },
+  {
+    key: 'maxEndOfTurnMs',
+    label: 'Chờ tối đa',
+    hint: 'Thời gian im lặng kết thúc lệnh kể cả khi bộ nhận dạng chưa chốt kết quả.',
+    min: 1000,
+    max: 8000,
+    step: 250,
+    format: formatMs,
+  },
+];
+
+const WAKE_ACKNOWLEDGEMENT_LABELS: Record<WakeAcknowledgement, string> = {
+  earcon: 'Tiếng báo ngắn',
+  speech: 'Trả lời "Tôi đang nghe"',
+  none: 'Không báo',
+};
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  onSave: (settings: SpeechSettings) => void;
+  onClose: () => void;
+}
+
+export const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({
+  settings,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<SpeechSettings>(settings);
+  // Edited as "phrase = symbol" lines, parsed on save
+  const [punctuationText, setPunctuationText] = useState(() => formatPunctuationPhrases(settings.punctuationPhrases));
+
+  // Start from the saved settings whenever the panel is reopened
+  useEffect(() => {
+    setDraft(settings);
+    setPunctuationText(formatPunctuationPhrases(settings.punctuationPhrases));
+  }, [settings]);
+
+  const update = (changes: Partial<SpeechSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateVad = (changes: Partial<VoiceActivitySettings>) =>
+    setDraft(prev => ({ ...prev, vad: { ...prev.vad, ...changes } }));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const wakePhrases = draft.wakePhrases.map(phrase => phrase.trim()).filter(Boolean);
+    onSave({
+      ...draft,
+      sttHttpUrl: draft.sttHttpUrl.trim(),
+      ttsHttpUrl: draft.ttsHttpUrl.trim(),
+      elevenLabsVoiceId: draft.elevenLabsVoiceId.trim(),
+      // Without a phrase wake-word mode could never be woken
+      wakePhrases: wakePhrases.length ? wakePhrases : DEFAULT_SPEECH_SETTINGS.wakePhrases,
+      punctuationPhrases: parsePunctuationPhrases(punctuationText),
+      // The fallback wait can't be shorter than the normal one
+      vad: { ...draft.vad, maxEndOfTurnMs: Math.max(draft.vad.maxEndOfTurnMs, draft.vad.endOfTurnMs) },
+    });
+  };
+
+  const usesElevenLabs = draft.sttProvider === 'elevenlabs' || draft.ttsProvider === 'elevenlabs';
+  const isIncomplete =
+    (draft.sttProvider === 'http' && !draft.sttHttpUrl.trim()) ||
+    (draft.ttsProvider === 'http' && !draft.ttsHttpUrl.trim());
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="speech-settings-title"
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-lg bg-slate-900 border border-white/10 rounded-2xl shadow-2xl text-white"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h2 id="speech-settings-title" className="text-lg font-bold text-purple-200">Cài đặt giọng nói</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full text-purple-200 hover:bg-white/10 transition-colors"
+            aria-label="Đóng"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          {/* Recognition backend */}
+          <label className="block">
+            <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+              <Mic size={16} />
+              Nhận dạng giọng nói
+            </span>
+            <select
+              value={draft.sttProvider}
+              onChange={(e) => update({ sttProvider: e.target.value as SpeechToTextProviderId })}
+              className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {Object.entries(SPEECH_TO_TEXT_PROVIDER_LABELS).map(([id, label]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+            <span className="text-xs text-purple-400 mt-1 block">
+              Thay đổi có hiệu lực ngay, kể cả khi đang nghe.
+            </span>
+          </label>
+
+          {draft.sttProvider === 'http' && (
+            <label className="block">
+              <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+                <Server size={16} />
+                Địa chỉ máy chủ nhận dạng
+              </span>
+              <input
+                type="text"
+                value={draft.sttHttpUrl}
+                onChange={(e) => update({ sttHttpUrl: e.target.value })}
+                placeholder="http://localhost:9000/transcribe"
+                className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+              />
+              <span className="text-xs text-purple-400 mt-1 block">
+                Nhận file âm thanh (multipart &quot;file&quot;) và trả về {'{ "text": "..." }'}.
+              </span>
+            </label>
+          )}
+
+          {/* Speech output backend */}
+          <label className="block">
+            <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+              <Volume2 size={16} />
+              Đọc văn bản
+            </span>
+            <select
+              value={draft.ttsProvider}
+              onChange={(e) => update({ ttsProvider: e.target.value as TextToSpeechProviderId })}
+              className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {Object.entries(TEXT_TO_SPEECH_PROVIDER_LABELS).map(([id, label]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          {draft.ttsProvider === 'http' && (
+            <label className="block">
+              <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+                <Server size={16} />
+                Địa chỉ máy chủ đọc
+              </span>
+              <input
+                type="text"
+                value={draft.ttsHttpUrl}
+                onChange={(e) => update({ ttsHttpUrl: e.target.value })}
+                placeholder="http://localhost:8123/tts"
+                className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+              />
+              <span className="text-xs text-purple-400 mt-1 block">
+                Nhận {'{ "text": "...", "language": "vi" }'} và trả về file âm thanh.
+              </span>
+            </label>
+          )}
+
+          {draft.ttsProvider === 'elevenlabs' && (
+            <label className="block">
+              <span className="flex items-center gap-2 text-sm font-medium text-purple-200 mb-1">
+                <AudioLines size={16} />
+                Mã giọng đọc ElevenLabs
+              </span>
+              <input
+                type="text"
+                value={draft.elevenLabsVoiceId}
+                onChange={(e) => update({ elevenLabsVoiceId: e.target.value })}
+                placeholder="Để trống để dùng giọng mặc định"
+                className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+              />
+            </label>
+          )}
+
+          {usesElevenLabs && (
+            <p className="flex items-start gap-2 text-xs text-purple-400">
+              <KeyRound size={14} className="mt-0.5 shrink-0" />
+              API key ElevenLabs được cấu hình trên máy chủ (ELEVENLABS_API_KEY) và không bao giờ gửi tới trình duyệt.
+            </p>
+          )}
+
+          {/* Wake-word mode */}
+          <fieldset className="space-y-4 pt-4 border-t border-white/10">
+            <legend className="flex items-center gap-2 text-sm font-medium text-purple-200">
+              <Ear size={16} />
+              Chế độ gọi tên
+            </legend>
+            <label className="block">
+              <span className="text-sm text-purple-200 mb-1 block">Câu gọi (mỗi dòng một câu)</span>
+              <textarea
+                value={draft.wakePhrases.join('\n')}
+                onChange={(e) => update({ wakePhrases: e.target.value.split('\n') })}
+                rows={3}
+                className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none resize-y"
+              />
+              <span className="text-xs text-purple-400 block">
+                Không phân biệt hoa thường, dấu và khoảng trắng. Thêm cả những cách bộ nhận dạng hay nghe nhầm tên.
+              </span>
+            </label>
+            <label className="block">
+              <span className="text-sm text-purple-200 mb-1 block">Báo đã nghe thấy</span>
+              <select
+                value={draft.wakeAcknowledgement}
+                onChange={(e) => update({ wakeAcknowledgement: e.target.value as WakeAcknowledgement })}
+                className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {Object.entries(WAKE_ACKNOWLEDGEMENT_LABELS).map(([id, label]) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </fieldset>
+
+          {/* Spoken punctuation */}
+          <fieldset className="space-y-4 pt-4 border-t border-white/10">
+            <legend className="flex items-center gap-2 text-sm font-medium text-purple-200">
+              <Pilcrow size={16} />
+              Dấu câu bằng lời
+            </legend>
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={draft.spokenPunctuation}
+                onChange={(e) => update({ spokenPunctuation: e.target.checked })}
+                className="mt-1 accent-purple-500"
+              />
+              <span className="text-sm text-purple-200">
+                Đổi “dấu phẩy”, “dấu chấm”, “xuống dòng”… thành dấu câu và viết hoa đầu câu khi thêm nội dung vào trang
+              </span>
+            </label>
+            <label className="block">
+              <span className="text-sm text-purple-200 mb-1 block">Cụm từ riêng (mỗi dòng: cụm từ = dấu)</span>
+              <textarea
+                value={punctuationText}
+                onChange={(e) => setPunctuationText(e.target.value)}
+                rows={3}
+                disabled={!draft.spokenPunctuation}
+                placeholder={'gạch chéo = /\nhết đoạn = \\n'}
+                className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none resize-y disabled:opacity-50"
+              />
+              <span className="text-xs text-purple-400 block">
+                Có sẵn: {Object.keys(VIETNAMESE_PUNCTUATION).join(', ')}. Viết \n cho xuống dòng; để trống sau dấu = để tắt một cụm có sẵn.
+              </span>
+            </label>
+          </fieldset>
+
+          {/* End-of-speech detection */}
+          <fieldset className="space-y-4 pt-4 border-t border-white/10">
+            <legend className="flex w-full items-center justify-between text-sm font-medium text-purple-200">
+              <span className="flex items-center gap-2">
+                <SlidersHorizontal size={16} />
+                Phát hiện giọng nói
+              </span>
+              <button
+                type="button"
+                onClick={() => update({ vad: DEFAULT_SPEECH_SETTINGS.vad })}
+                className="flex items-center gap-1 text-xs text-purple-300 hover:text-white transition-colors"
+              >
+                <RotateCcw size={12} />
+                Mặc định
+              </button>
+            </legend>
+            {VAD_SLIDERS.map(slider => (
+              <label key={slider.key} className="block">
+                <span className="flex justify-between text-sm text-purple-200 mb-1">
+                  {slider.label}
+                  <span className="text-purple-300">{slider.format(draft.vad[slider.key])}</span>
+                </span>
+                <input
+                  type="range"
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                  value={draft.vad[slider.key]}
+                  onChange={(e) => updateVad({ [slider.key]: Number(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+                <span className="text-xs text-purple-400 block">{slider.hint}</span>
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-white/10">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
+          >
+            <X size={16} />
+            Hủy
+          </button>
+          <button
+            type="submit"
+            disabled={isIncomplete}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 disabled:from-gray-600 disabled:to-gray-700 text-white rounded-lg transition-colors"
+          >
+            <Save size={16} />
+            Lưu
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Trash2, X, MessagesSquare } from 'lucide-react';
+import { Document, Thread } from '@/types';
+import { findUnusedThreads, getThreadLabel } from '@/lib/agentThreads';
+
+interface ThreadsPanelProps {
+  threads: Thread[];
+  documents: Document[];
+  currentThreadId?: string;
+  onDelete: (threadIds: string[]) => Promise<unknown>;
+  onClose: () => void;
+}
+
+export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
+  threads,
+  documents,
+  currentThreadId,
+  onDelete,
+  onClose,
+}) => {
+  const [isDeleting, setIsDeleting] = useState(false);
+  const unused = findUnusedThreads(threads, documents, currentThreadId);
+
+  const handleDelete = async (threadIds: string[]) => {
+    setIsDeleting(true);
+    try {
+      await onDelete(threadIds);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="threads-title"
+    >
+      <div className="w-full max-w-lg bg-slate-900 border border-white/10 rounded-2xl shadow-2xl text-white">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h2 id="threads-title" className="flex items-center gap-2 text-lg font-bold text-purple-200">
+            <MessagesSquare size={18} />
+            Cuộc trò chuyện
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full text-purple-200 hover:bg-white/10 transition-colors"
+            aria-label="Đóng"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <ul className="max-h-96 overflow-y-auto divide-y divide-white/5">
+          {threads.length === 0 && (
+            <li className="px-6 py-8 text-center text-purple-300">Chưa có cuộc trò chuyện nào.</li>
+          )}
+          {threads.map(thread => {
+            const isCurrent = thread.thread_id === currentThreadId;
+            const isUnused = unused.includes(thread);
+            return (
+              <li key={thread.thread_id} className="flex items-center justify-between gap-3 px-6 py-3">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{getThreadLabel(thread, documents)}</div>
+                  <div className="text-xs text-purple-400">
+                    {new Date(thread.updated_at).toLocaleString('vi-VN')}
+                    {isCurrent && <span className="ml-2 text-green-400">đang dùng</span>}
+                    {isUnused && <span className="ml-2 text-yellow-400">không còn dùng</span>}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDelete([thread.thread_id])}
+                  disabled={isCurrent || isDeleting}
+                  className="p-2 rounded-full text-red-300 hover:bg-red-500/20 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                  aria-label={`Xóa cuộc trò chuyện ${getThreadLabel(thread, documents)}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-white/10">
+          <button
+            type="button"
+            onClick={() => handleDelete(unused.map(thread => thread.thread_id))}
+            disabled={unused.length === 0 || isDeleting}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            <Trash2 size={16} />
+            {isDeleting ? 'Đang xóa...' : `Xóa ${unused.length} cuộc trò chuyện không dùng`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,50 +1,118 @@
 'use client';
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Mic, MicOff, Volume2, VolumeX } from 'lucide-react';
-import { useWebSpeechTTS } from '@/hooks/useWebSpeechTTS';
-import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { Ear, Hand, Infinity as InfinityIcon, LucideIcon, Mic, MicOff, PenLine, ToggleRight, Volume2, VolumeX } from 'lucide-react';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { useSpeechToText } from '@/hooks/useSpeechToText';
+import { useVoiceActivity } from '@/hooks/useVoiceActivity';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { VoiceLevelMeter } from '@/components/VoiceLevelMeter';
+import { stripWakePhrase } from '@/lib/wakeWord';
+import { playEarcon } from '@/lib/earcon';
+import { findDictationSwitch } from '@/lib/dictation';
+import SpeechSettingsService from '@/services/speechSettings';
+import { Announcement, StreamedAnswer, VoiceInteractionMode } from '@/types';
 
 interface VoiceControllerProps {
   onVoiceCommand: (command: string) => void;
+  // Dictated text, to be written down as spoken; dictation is only offered when set
+  onDictation?: (text: string) => void;
   agentResponse?: string;
+  // Answer sentences to speak before the turn completes
+  streamedAnswer?: StreamedAnswer;
   autoStart?: boolean;
   isProcessing?: boolean;
+  // Called when the user talks over a response or a running agent turn
+  onBargeIn?: () => void;
+  bargeInEnabled?: boolean;
+  // Spoken outside of a turn, as soon as the controller is listening
+  announcement?: Announcement;
 }
 
-// Simple conversation states
-type ConversationState = 'idle' | 'listening' | 'processing' | 'speaking';
+// Simple conversation states; 'ready' waits for a key or button press with the microphone off
+type ConversationState = 'idle' | 'ready' | 'listening' | 'processing' | 'speaking';
+
+const INTERACTION_MODES: { id: VoiceInteractionMode; label: string; description: string; icon: LucideIcon }[] = [
+  { id: 'continuous', label: 'Luôn nghe', description: 'Luôn nghe, ngừng nói để gửi lệnh', icon: InfinityIcon },
+  { id: 'push_to_talk', label: 'Giữ để nói', description: 'Chỉ nghe khi giữ phím Space hoặc nút micro', icon: Hand },
+  { id: 'toggle', label: 'Nhấn để nói', description: 'Nhấn một lần để nói, nhấn lần nữa để gửi', icon: ToggleRight },
+  { id: 'wake_word', label: 'Gọi tên', description: 'Chỉ nhận lệnh nói sau câu gọi, ví dụ "Này WriteSense"', icon: Ear },
+];
+
+// After the wake phrase alone, the next utterance is taken as the command if it starts within this time
+const WAKE_FOLLOW_UP_MS = 8000;
+const WAKE_REPLY = 'Tôi đang nghe';
+
+// The microphone is only on while the user asks for it
+const isManualMode = (mode: VoiceInteractionMode) => mode === 'push_to_talk' || mode === 'toggle';
+
+// Space must still type in text fields
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 export const VoiceController: React.FC<VoiceControllerProps> = ({ 
   onVoiceCommand, 
+  onDictation,
   agentResponse, 
+  streamedAnswer,
   autoStart = false,
-  isProcessing = false 
+  isProcessing = false,
+  onBargeIn,
+  bargeInEnabled = true,
+  announcement,
 }) => {
   const [conversationState, setConversationState] = useState<ConversationState>('idle');
   const [lastProcessedResponse, setLastProcessedResponse] = useState<string>('');
+  const [interactionMode, setInteractionMode] = usePersistentState<VoiceInteractionMode>('interactionMode', 'continuous');
+  const [speechSettings, setSpeechSettings] = useState(() => SpeechSettingsService.load());
+  // The wake phrase was said on its own; the next utterance is the command
+  const [isWakeArmed, setIsWakeArmed] = useState(false);
+  // Utterances are written down instead of sent to the agent
+  const [isDictating, setIsDictating] = useState(false);
   
   // Refs to track state and prevent issues
   const conversationStateRef = useRef<ConversationState>('idle');
+  const interactionModeRef = useRef(interactionMode);
+  // Utterances of the manual turn in progress; null when no key or button is held
+  const manualPartsRef = useRef<string[] | null>(null);
+  const isWakeArmedRef = useRef(false);
+  const wakeArmedTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // The wake phrase was already acknowledged from the interim transcript of this utterance
+  const wakeHeardRef = useRef(false);
+  const isDictatingRef = useRef(false);
   const isProcessingResponseRef = useRef(false);
+  // How much of the streamed answer has been queued for speech
+  const streamedProgressRef = useRef<{ turnId?: string; queued: number; noticesQueued: number; finished: boolean }>({
+    queued: 0,
+    noticesQueued: 0,
+    finished: false,
+  });
 
   // Update refs when state changes
   useEffect(() => {
     conversationStateRef.current = conversationState;
   }, [conversationState]);
 
+  useEffect(() => {
+    interactionModeRef.current = interactionMode;
+  }, [interactionMode]);
+
+  useEffect(() => SpeechSettingsService.subscribe(setSpeechSettings), []);
+
   // Initialize TTS hook for purely voice-driven experience
   const {
     speak,
+    enqueue,
+    finishQueue,
     stop: stopSpeech,
     isSpeaking,
     isSupported: ttsSupported,
     isActivated,
-    notifyUserInteraction,
-    manualActivateTTS, // ✅ NEW: Manual activation function
+    activate: activateTTS,
     error: ttsError
-  } = useWebSpeechTTS({
-    language: 'vietnamese',
+  } = useTextToSpeech({
+    language: 'vi-VN',
     rate: 1.0,
     pitch: 1.0,
     volume: 1.0,
@@ -55,10 +123,10 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
       stopSTT();
     },
     onEnd: () => {
-      console.log('🔊 TTS ended - starting to listen again');
-      // When TTS ends, automatically start listening again
+      console.log('🔊 TTS ended - starting the next turn');
+      // When TTS ends, listen again or wait for the user to press
       if (conversationStateRef.current === 'speaking') {
-        startListening();
+        resumeAfterTurn();
       }
     },
     onError: (error) => {
@@ -74,33 +142,134 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
       stopSTT();
       // If TTS fails, go back to listening after a brief delay
       setTimeout(() => {
-        startListening();
+        resumeAfterTurn();
       }, 500);
     }
   });
 
-  // Initialize STT hook with 2-second silence timeout
+  // STT through the provider chosen in the speech settings; the voice activity settings decide when a command ends
   const {
     startListening: startSTT,
     stopListening: stopSTT,
+    finishListening: finishSTT,
     resetTranscript,
     isListening,
     transcript,
+    level: micLevel,
     isSupported: sttSupported,
     error: sttError
-  } = useSpeechRecognition({
+  } = useSpeechToText({
     language: 'vi-VN',
-    silenceTimeout: 2000, // 2 seconds as requested
     onSilenceDetected: (finalTranscript) => {
       console.log('🔇 Silence detected, processing:', finalTranscript);
       handleSilenceDetected(finalTranscript);
     },
     onError: (error) => {
       console.error('🚫 STT error:', error);
+      manualPartsRef.current = null;
       setConversationState('idle');
     }
   });
 
+  // Send a command to the agent and stop listening
+  const sendCommand = useCallback((command: string) => {
+    console.log('📤 Sending to agent:', command);
+    setConversationState('processing');
+    
+    // Stop listening and send to agent
+    stopSTT();
+    onVoiceCommand(command);
+    
+    // Clear transcript
+    resetTranscript();
+  }, [onVoiceCommand, stopSTT, resetTranscript]);
+
+  const switchDictation = useCallback((dictating: boolean) => {
+    if (isDictatingRef.current === dictating) return;
+    console.log(dictating ? '✍️ Dictation started' : '🎯 Back to command mode');
+    isDictatingRef.current = dictating;
+    setIsDictating(dictating);
+    playEarcon(dictating ? 'dictation' : 'command');
+  }, []);
+
+  // A complete utterance: dictated text is handed over without the agent, anything else is a command
+  const handleUtterance = useCallback((utterance: string) => {
+    if (!onDictation) {
+      sendCommand(utterance);
+      return;
+    }
+
+    // Words said after "bắt đầu đọc chính tả" or before "kết thúc đọc chính tả" are still dictation
+    const wasDictating = isDictatingRef.current;
+    const modeSwitch = findDictationSwitch(utterance, wasDictating);
+    let text: string;
+    if (wasDictating) {
+      text = modeSwitch ? modeSwitch.before : utterance;
+    } else if (modeSwitch) {
+      switchDictation(true);
+      text = modeSwitch.after;
+    } else {
+      sendCommand(utterance);
+      return;
+    }
+
+    if (text) {
+      console.log('✍️ Dictated:', text);
+      onDictation(text);
+    }
+    if (wasDictating && modeSwitch) switchDictation(false);
+
+    // Hands-free modes are still listening; manual ones wait for the next press
+    resetTranscript();
+    if (isManualMode(interactionModeRef.current)) setConversationState('ready');
+  }, [onDictation, sendCommand, switchDictation, resetTranscript]);
+
+  const setWakeArmed = useCallback((armed: boolean) => {
+    clearTimeout(wakeArmedTimerRef.current);
+    isWakeArmedRef.current = armed;
+    setIsWakeArmed(armed);
+    if (armed) {
+      wakeArmedTimerRef.current = setTimeout(() => {
+        console.log('💤 No command after the wake phrase');
+        setWakeArmed(false);
+      }, WAKE_FOLLOW_UP_MS);
+    }
+  }, []);
+
+  // Wake-word mode: only what follows the wake phrase reaches the agent
+  const handleWakeWordUtterance = useCallback((utterance: string) => {
+    const { wakePhrases, wakeAcknowledgement } = speechSettings;
+    const wasAcknowledged = wakeHeardRef.current;
+    wakeHeardRef.current = false;
+
+    const command = stripWakePhrase(utterance, wakePhrases);
+    if (command === undefined) {
+      if (isWakeArmedRef.current) {
+        setWakeArmed(false);
+        handleUtterance(utterance);
+      } else {
+        console.log('💤 No wake phrase, ignoring:', utterance);
+      }
+      return;
+    }
+
+    // Recorded providers have no interim transcript, so the phrase is only noticed here
+    if (!wasAcknowledged && wakeAcknowledgement === 'earcon') playEarcon('wake');
+    if (command) {
+      setWakeArmed(false);
+      handleUtterance(command);
+      return;
+    }
+
+    console.log('👋 Wake phrase heard, waiting for the command');
+    setWakeArmed(true);
+    if (wakeAcknowledgement === 'speech') {
+      // Listening resumes when the reply ends
+      stopSTT();
+      speak(WAKE_REPLY);
+    }
+  }, [speechSettings, setWakeArmed, handleUtterance, stopSTT, speak]);
+
   // Handle silence detection - send to agent and stop listening
   const handleSilenceDetected = useCallback((finalTranscript: string) => {
     if (!finalTranscript.trim()) {
@@ -108,39 +277,69 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
       return;
     }
 
+    // Pauses while the key is held belong to the same command; releasing it sends
+    if (isManualMode(interactionModeRef.current)) {
+      manualPartsRef.current?.push(finalTranscript.trim());
+      return;
+    }
+
     // Only process if we're in listening state
     if (conversationStateRef.current !== 'listening') {
       console.log('🚫 Not in listening state, ignoring transcript');
       return;
     }
 
-    console.log('📤 Sending to agent:', finalTranscript);
-    setConversationState('processing');
-    
-    // Stop listening and send to agent
-    stopSTT();
-    onVoiceCommand(finalTranscript);
-    
-    // Clear transcript
-    resetTranscript();
-  }, [onVoiceCommand, stopSTT, resetTranscript]);
+    // Once dictation was started by name, everything said is written down until it is stopped
+    if (interactionModeRef.current === 'wake_word' && !isDictatingRef.current) {
+      handleWakeWordUtterance(finalTranscript);
+      return;
+    }
+
+    handleUtterance(finalTranscript);
+  }, [handleUtterance, handleWakeWordUtterance]);
+
+  // Acknowledge the wake phrase as soon as it shows up in the interim transcript, before the utterance ends
+  useEffect(() => {
+    if (interactionMode !== 'wake_word' || isDictating || conversationState !== 'listening' || !transcript.trim()) return;
+
+    if (isWakeArmed) {
+      // The command has started; it may take longer than the follow-up window to finish
+      clearTimeout(wakeArmedTimerRef.current);
+      return;
+    }
+    if (wakeHeardRef.current || stripWakePhrase(transcript, speechSettings.wakePhrases) === undefined) return;
+
+    wakeHeardRef.current = true;
+    console.log('👋 Wake phrase heard');
+    if (speechSettings.wakeAcknowledgement === 'earcon') playEarcon('wake');
+  }, [transcript, interactionMode, isDictating, conversationState, isWakeArmed, speechSettings]);
 
-  // ✅ PURELY VOICE-DRIVEN: Start listening and notify TTS of user interaction
+  // ✅ PURELY VOICE-DRIVEN: Start listening
   const startListening = useCallback(async () => {
     console.log('🎤 Starting to listen...');
     setConversationState('listening');
     resetTranscript();
+    wakeHeardRef.current = false;
     
     try {
       await startSTT();
-      // ✅ ACCESSIBILITY: Notify TTS that user has interacted (for activation)
-      notifyUserInteraction();
-      console.log('✅ Speech recognition started, TTS interaction registered');
+      console.log('✅ Speech recognition started');
     } catch (error) {
       console.error('❌ Failed to start listening:', error);
       setConversationState('idle');
     }
-  }, [startSTT, resetTranscript, notifyUserInteraction]);
+  }, [startSTT, resetTranscript]);
+
+  // After a response: listen again hands-free, or wait for the next press
+  const resumeAfterTurn = useCallback(() => {
+    if (isManualMode(interactionModeRef.current)) {
+      stopSTT();
+      resetTranscript();
+      setConversationState('ready');
+      return;
+    }
+    startListening();
+  }, [startListening, stopSTT, resetTranscript]);
 
   // ✅ MANUAL ACTIVATION: Using hook's manual activation function with STT coordination
   const handleManualActivation = useCallback(async () => {
@@ -157,24 +356,22 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
       await new Promise(resolve => setTimeout(resolve, 100));
       
       // Use the hook's manual activation function
-      const success = await manualActivateTTS();
+      const success = await activateTTS();
       
       if (success) {
         console.log('✅ TTS activated successfully');
-        // Notify user interaction
-        notifyUserInteraction();
         
                  // Wait for TTS to complete before restarting STT
          console.log('⏳ Waiting for TTS activation speech to complete before restarting STT');
          setTimeout(() => {
            console.log('🎤 Restarting STT after TTS activation');
-           startListening();
+           resumeAfterTurn();
          }, 2000); // Shorter wait time for the shorter activation message
       } else {
         console.error('❌ TTS activation failed');
         // Restart STT even if activation failed
         setTimeout(() => {
-          startListening();
+          resumeAfterTurn();
         }, 500);
         alert('Không thể kích hoạt chức năng đọc. Vui lòng kiểm tra cài đặt trình duyệt.');
       }
@@ -182,30 +379,150 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
       console.error('❌ TTS activation error:', error);
       // Restart STT even if there was an error
       setTimeout(() => {
-        startListening();
+        resumeAfterTurn();
       }, 500);
       alert('Lỗi khi kích hoạt chức năng đọc');
     }
-  }, [manualActivateTTS, notifyUserInteraction, startListening, stopSTT, resetTranscript]);
+  }, [activateTTS, resumeAfterTurn, stopSTT, resetTranscript]);
 
   // Stop the conversation
   const stopConversation = useCallback(() => {
     console.log('🛑 Stopping conversation...');
+    manualPartsRef.current = null;
+    setWakeArmed(false);
+    switchDictation(false);
     setConversationState('idle');
     stopSTT();
     stopSpeech();
     resetTranscript();
     setLastProcessedResponse('');
-  }, [stopSTT, stopSpeech, resetTranscript]);
+  }, [stopSTT, stopSpeech, resetTranscript, setWakeArmed, switchDictation]);
+
+  // Barge-in: the user starts talking while we speak or wait for the agent
+  const handleBargeIn = useCallback(() => {
+    const state = conversationStateRef.current;
+    if (state !== 'speaking' && state !== 'processing') return;
+
+    console.log('✋ Barge-in while', state);
+    // Set before stopping speech so the TTS end handler does not restart listening too
+    conversationStateRef.current = 'listening';
+    stopSpeech();
+    onBargeIn?.();
+    startListening();
+  }, [stopSpeech, onBargeIn, startListening]);
+
+  // Push-to-talk and toggle: the key or button press starts a turn, interrupting any response
+  const beginManualTurn = useCallback(() => {
+    if (manualPartsRef.current) return;
+
+    const state = conversationStateRef.current;
+    if (state === 'speaking' || state === 'processing') {
+      console.log('✋ Barge-in by key while', state);
+      // Set before stopping speech so the TTS end handler does not start another turn
+      conversationStateRef.current = 'listening';
+      stopSpeech();
+      onBargeIn?.();
+    }
+    console.log('🎙️ Manual turn started');
+    manualPartsRef.current = [];
+    startListening();
+  }, [stopSpeech, onBargeIn, startListening]);
+
+  // Release or second press: send everything said since the turn started
+  const finishManualTurn = useCallback(async () => {
+    const parts = manualPartsRef.current;
+    if (!parts) return;
+
+    console.log('🎙️ Manual turn finished');
+    setConversationState('processing');
+    // The last words arrive through handleSilenceDetected before this resolves
+    await finishSTT();
+    // Stopped or switched mode while the last words were transcribed
+    if (manualPartsRef.current !== parts) return;
+    manualPartsRef.current = null;
+
+    const command = parts.join(' ').trim();
+    if (!command) {
+      console.log('🚫 Nothing said, waiting for the next press');
+      resetTranscript();
+      setConversationState('ready');
+      return;
+    }
+    handleUtterance(command);
+  }, [finishSTT, resetTranscript, handleUtterance]);
+
+  const toggleManualTurn = useCallback(() => {
+    if (manualPartsRef.current) {
+      finishManualTurn();
+    } else {
+      beginManualTurn();
+    }
+  }, [beginManualTurn, finishManualTurn]);
+
+  const handleTalkPointerDown = useCallback((event: React.PointerEvent<HTMLButtonElement>) => {
+    // Keep receiving the release when the pointer slides off the button
+    event.currentTarget.setPointerCapture(event.pointerId);
+    beginManualTurn();
+  }, [beginManualTurn]);
+
+  // Switching mode applies right away between turns
+  useEffect(() => {
+    const state = conversationStateRef.current;
+    if (interactionMode !== 'wake_word') setWakeArmed(false);
+    if (isManualMode(interactionMode)) {
+      if (state === 'listening' && !manualPartsRef.current) {
+        console.log('🎛️ Interaction mode', interactionMode, '- waiting for a press');
+        stopSTT();
+        resetTranscript();
+        setConversationState('ready');
+      }
+    } else {
+      manualPartsRef.current = null;
+      if (state === 'ready') {
+        console.log('🎛️ Interaction mode', interactionMode, '- listening');
+        startListening();
+      }
+    }
+  }, [interactionMode, startListening, stopSTT, resetTranscript, setWakeArmed]);
+
+  useEffect(() => () => clearTimeout(wakeArmedTimerRef.current), []);
+
+  // STT is off while speaking and processing, so a separate detector listens for barge-in.
+  // Only in continuous mode: with a key, the press interrupts, and with a wake word other voices must not
+  useVoiceActivity({
+    enabled: bargeInEnabled && interactionMode === 'continuous' && (conversationState === 'speaking' || conversationState === 'processing'),
+    isEchoLikely: conversationState === 'speaking',
+    onSpeechStart: handleBargeIn,
+  });
 
   // ✅ KEYBOARD SHORTCUTS: Handle keyboard shortcuts for accessibility
   useEffect(() => {
     // Detect if user is on macOS
     const isMac = typeof navigator !== 'undefined' && navigator.platform.toUpperCase().indexOf('MAC') >= 0;
     
+    // Space alone talks in push-to-talk and toggle modes
+    const isTalkKey = (event: KeyboardEvent) =>
+      event.code === 'Space' &&
+      !event.ctrlKey && !event.metaKey && !event.altKey && !event.shiftKey &&
+      isManualMode(interactionModeRef.current) &&
+      conversationStateRef.current !== 'idle' &&
+      !isEditableTarget(event.target);
+
     const handleKeyDown = (event: KeyboardEvent) => {
       // Platform-specific modifier key (Cmd on Mac, Ctrl on others)
       const primaryModifier = isMac ? event.metaKey : event.ctrlKey;
+
+      if (isTalkKey(event)) {
+        // Also keeps the page from scrolling and a focused button from clicking
+        event.preventDefault();
+        if (event.repeat) return;
+        if (interactionModeRef.current === 'push_to_talk') {
+          beginManualTurn();
+        } else {
+          toggleManualTurn();
+        }
+        return;
+      }
       
       // Cmd/Ctrl + Shift + Space: Activate TTS (alternative to clicking button)
       if (primaryModifier && event.shiftKey && event.code === 'Space') {
@@ -230,26 +547,91 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
       }
     };
 
-    // Add event listener
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (!isTalkKey(event)) return;
+      event.preventDefault();
+      if (interactionModeRef.current === 'push_to_talk') {
+        finishManualTurn();
+      }
+    };
+
+    // Add event listeners
     window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
     
     // Cleanup
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isActivated, ttsSupported, handleManualActivation, stopConversation]);
+  }, [isActivated, ttsSupported, handleManualActivation, stopConversation, beginManualTurn, finishManualTurn, toggleManualTurn]);
+
+  // Speak streamed answer sentences as they arrive
+  useEffect(() => {
+    if (!streamedAnswer) return;
+
+    if (streamedProgressRef.current.turnId !== streamedAnswer.turnId) {
+      streamedProgressRef.current = { turnId: streamedAnswer.turnId, queued: 0, noticesQueued: 0, finished: false };
+    }
+    const progress = streamedProgressRef.current;
+
+    // After a barge-in the rest of the answer is dropped
+    const state = conversationStateRef.current;
+    if (state !== 'processing' && state !== 'speaking') return;
+
+    // Cut off: the response that replaces it is spoken from the start
+    if (streamedAnswer.discarded) {
+      if (progress.queued + progress.noticesQueued > 0) {
+        stopSpeech();
+        progress.queued = 0;
+        progress.noticesQueued = 0;
+        setConversationState('processing');
+      }
+      return;
+    }
+
+    streamedAnswer.notices.slice(progress.noticesQueued).forEach(notice => enqueue(notice));
+    progress.noticesQueued = streamedAnswer.notices.length;
+    streamedAnswer.sentences.slice(progress.queued).forEach(sentence => enqueue(sentence));
+    progress.queued = streamedAnswer.sentences.length;
+
+    if (streamedAnswer.done && !progress.finished) {
+      progress.finished = true;
+      finishQueue();
+    }
+  }, [streamedAnswer, enqueue, finishQueue, stopSpeech]);
 
   // Handle agent response - speak it out
   useEffect(() => {
+    // Something was already spoken for this turn through the queue (notices or early sentences)
+    const progress = streamedProgressRef.current;
+    const isQueuedTurn = !!streamedAnswer && progress.turnId === streamedAnswer.turnId && progress.queued + progress.noticesQueued > 0;
+
     if (agentResponse && 
         agentResponse !== lastProcessedResponse && 
-        conversationState === 'processing' &&
+        (conversationState === 'processing' || (conversationState === 'speaking' && isQueuedTurn)) &&
         !isProcessingResponseRef.current) {
       
       isProcessingResponseRef.current = true;
       console.log('📨 New agent response received, speaking:', agentResponse.substring(0, 50) + '...');
       
       setLastProcessedResponse(agentResponse);
+
+      // Already spoken sentence by sentence while streaming
+      const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+      if (streamedAnswer?.sentences.length && normalize(streamedAnswer.sentences.join(' ')) === normalize(agentResponse)) {
+        console.log('📨 Response was already spoken while streaming');
+        isProcessingResponseRef.current = false;
+        return;
+      }
+
+      // Speak after what is already queued; close the queue again if the turn already ended
+      if (isQueuedTurn) {
+        enqueue(agentResponse);
+        if (progress.finished) finishQueue();
+        isProcessingResponseRef.current = false;
+        return;
+      }
       
       // CRITICAL: Ensure STT is fully stopped before starting TTS
       stopSTT();
@@ -264,15 +646,36 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
         isProcessingResponseRef.current = false;
       }, 500);
     }
-  }, [agentResponse, lastProcessedResponse, conversationState, speak, stopSTT]);
+  }, [agentResponse, lastProcessedResponse, conversationState, streamedAnswer, speak, enqueue, finishQueue, stopSTT]);
+
+  // Speak announcements between turns; one that arrives mid-turn waits until the next turn can start
+  const lastAnnouncementIdRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!announcement || announcement.id === lastAnnouncementIdRef.current) return;
+    // A held key means the user is talking
+    const isBetweenTurns = conversationState === 'ready' || (conversationState === 'listening' && !isManualMode(interactionMode));
+    if (!isBetweenTurns) return;
+
+    lastAnnouncementIdRef.current = announcement.id;
+    console.log('📢 Announcement:', announcement.text);
+    stopSTT();
+    setTimeout(() => {
+      speak(announcement.text);
+    }, 100);
+  }, [announcement, conversationState, interactionMode, speak, stopSTT]);
 
   // ✅ AUTO-START: Completely hands-free initialization
   useEffect(() => {
     if (autoStart && conversationState === 'idle' && sttSupported && ttsSupported) {
+      if (isManualMode(interactionMode)) {
+        console.log('🔄 Auto-starting, waiting for a press...');
+        setConversationState('ready');
+        return;
+      }
       console.log('🔄 Auto-starting hands-free conversation...');
       startListening();
     }
-  }, [autoStart, conversationState, sttSupported, ttsSupported, startListening]);
+  }, [autoStart, conversationState, interactionMode, sttSupported, ttsSupported, startListening]);
 
   // ✅ BROWSER COMPATIBILITY: Check Web Speech API support according to documentation
   const checkBrowserSupport = useCallback(() => {
@@ -294,10 +697,35 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
   // Get status info for display
   const getStatusInfo = () => {
     switch (conversationState) {
+      case 'ready':
+        return {
+          text: interactionMode === 'push_to_talk' ? 'Giữ Space hoặc nút micro để nói' : 'Nhấn Space hoặc nút micro để nói',
+          icon: MicOff,
+          color: 'text-gray-300',
+          bgColor: 'bg-gray-500/20 border-gray-400/30'
+        };
       case 'listening':
+        if (isDictating) {
+          return {
+            text: {
+              continuous: 'Đang đọc chính tả...',
+              push_to_talk: 'Đang đọc chính tả — thả phím để ghi',
+              toggle: 'Đang đọc chính tả — nhấn lần nữa để ghi',
+              wake_word: 'Đang đọc chính tả...',
+            }[interactionMode],
+            icon: PenLine,
+            color: 'text-amber-300',
+            bgColor: 'bg-amber-500/20 border-amber-400/30'
+          };
+        }
         return {
-          text: 'Đang nghe...',
-          icon: Mic,
+          text: {
+            continuous: 'Đang nghe...',
+            push_to_talk: 'Đang nghe — thả phím để gửi',
+            toggle: 'Đang nghe — nhấn lần nữa để gửi',
+            wake_word: isWakeArmed ? 'Đang nghe lệnh...' : `Đang chờ "${speechSettings.wakePhrases[0]}"...`,
+          }[interactionMode],
+          icon: interactionMode === 'wake_word' && !isWakeArmed ? Ear : Mic,
           color: 'text-green-300',
           bgColor: 'bg-green-500/20 border-green-400/30'
         };
@@ -327,6 +755,8 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
 
   const statusInfo = getStatusInfo();
   const StatusIcon = statusInfo.icon;
+  const activeMode = INTERACTION_MODES.find(mode => mode.id === interactionMode) ?? INTERACTION_MODES[0];
+  const isTalking = isManualMode(interactionMode) && conversationState === 'listening';
 
   // Check if system is supported
   const isSupported = sttSupported && ttsSupported;
@@ -340,6 +770,15 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
         <span className={`font-medium ${statusInfo.color}`}>
           {statusInfo.text}
         </span>
+        {/* Interaction mode */}
+        <span className="text-xs px-2 py-1 rounded-full bg-purple-500/20 text-purple-200 border border-purple-400/30">
+          {activeMode.label}
+        </span>
+        {isDictating && (
+          <span className="text-xs px-2 py-1 rounded-full bg-amber-500/20 text-amber-200 border border-amber-400/30">
+            Đọc chính tả
+          </span>
+        )}
         {/* TTS Status */}
         {ttsSupported && (
           <span className={`text-xs px-2 py-1 rounded-full ${isActivated ? 'bg-green-500/20 text-green-300 border border-green-400/30' : 'bg-yellow-500/20 text-yellow-300 border border-yellow-400/30'}`}>
@@ -348,6 +787,46 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
         )}
       </div>
 
+      {/* Interaction mode picker */}
+      <div role="radiogroup" aria-label="Chế độ tương tác" className="flex rounded-xl border border-white/10 bg-white/5 p-1">
+        {INTERACTION_MODES.map(mode => {
+          const ModeIcon = mode.icon;
+          const isSelected = mode.id === interactionMode;
+          return (
+            <button
+              key={mode.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => setInteractionMode(mode.id)}
+              title={mode.description}
+              className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-xs transition-colors ${isSelected ? 'bg-purple-600 text-white shadow' : 'text-purple-200 hover:bg-white/10'}`}
+            >
+              <ModeIcon className="w-3.5 h-3.5" />
+              <span>{mode.label}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Talk button for push-to-talk and toggle */}
+      {isManualMode(interactionMode) && conversationState !== 'idle' && (
+        <button
+          type="button"
+          aria-pressed={isTalking}
+          aria-label={interactionMode === 'push_to_talk' ? 'Giữ để nói' : isTalking ? 'Gửi lệnh' : 'Bắt đầu nói'}
+          onPointerDown={interactionMode === 'push_to_talk' ? handleTalkPointerDown : undefined}
+          onPointerUp={interactionMode === 'push_to_talk' ? finishManualTurn : undefined}
+          onPointerCancel={interactionMode === 'push_to_talk' ? finishManualTurn : undefined}
+          onClick={interactionMode === 'toggle' ? toggleManualTurn : undefined}
+          className={`flex items-center justify-center w-16 h-16 rounded-full border transition-all duration-200 select-none touch-none ${isTalking ? 'bg-green-600 border-green-400 scale-110 shadow-lg shadow-green-500/30' : 'bg-purple-700/60 border-purple-400/40 hover:bg-purple-600/70'}`}
+        >
+          {isTalking ? <Mic className="w-7 h-7 text-white" /> : <MicOff className="w-7 h-7 text-purple-200" />}
+        </button>
+      )}
+
+      {isListening && micLevel && <VoiceLevelMeter frame={micLevel} />}
+
       {/* Voice-only instructions - Dark Theme */}
       {conversationState === 'idle' && (
         <div className="w-full max-w-md p-4 bg-purple-900/30 backdrop-blur-sm border border-purple-400/30 rounded-xl">
@@ -366,6 +845,7 @@ export const VoiceController: React.FC<VoiceControllerProps> = ({
             <div className="text-xs text-purple-300 text-center">
               <strong className="text-purple-200">⌨️ Phím tắt:</strong><br/>
               {!isActivated && <span>{isMac ? 'Cmd + Shift + Space' : 'Ctrl + Shift + Space'}: Kích hoạt đọc<br/></span>}
+              {isManualMode(interactionMode) && <span>Space: {interactionMode === 'push_to_talk' ? 'Giữ để nói' : 'Bắt đầu / gửi lệnh'}<br/></span>}
               {isMac ? 'Cmd + S' : 'Ctrl + S'}: Dừng trò chuyện
             </div>
           </div>
@@ -0,0 +1,42 @@
+'use client';
+
+import React from 'react';
+import { VoiceActivityFrame } from '@/lib/voiceActivity';
+
+interface VoiceLevelMeterProps {
+  frame: VoiceActivityFrame;
+}
+
+// Square-root scale, so quiet voices and room noise are still visible
+const toPercent = (level: number) => `${Math.min(100, Math.sqrt(level / 0.25) * 100)}%`;
+
+// Microphone level with the learned noise floor and the level that counts as speech
+export const VoiceLevelMeter: React.FC<VoiceLevelMeterProps> = ({ frame }) => {
+  const label = frame.isCalibrating
+    ? 'Đang đo tiếng ồn nền…'
+    : frame.isSpeech
+      ? 'Đang nghe thấy giọng nói'
+      : 'Im lặng';
+
+  return (
+    <div className="w-full max-w-md">
+      <div
+        className="relative h-2 rounded-full bg-white/10 overflow-hidden"
+        role="meter"
+        aria-label="Mức âm thanh micro"
+        aria-valuemin={0}
+        aria-valuemax={1}
+        aria-valuenow={Number(frame.level.toFixed(3))}
+        aria-valuetext={label}
+      >
+        <div
+          className={`absolute inset-y-0 left-0 transition-[width] duration-100 ${frame.isSpeech ? 'bg-green-400' : 'bg-purple-400/60'}`}
+          style={{ width: toPercent(frame.level) }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-gray-300/70" style={{ left: toPercent(frame.noiseFloor) }} title="Tiếng ồn nền" />
+        <div className="absolute inset-y-0 w-0.5 bg-yellow-300" style={{ left: toPercent(frame.threshold) }} title="Ngưỡng giọng nói" />
+      </div>
+      <p className="mt-1 text-xs text-purple-300 text-center">{label}</p>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import AgentApiService from '@/services/agentApi';
+
+export type AgentHealthStatus = 'checking' | 'healthy' | 'degraded' | 'down';
+
+export interface AgentHealth {
+  status: AgentHealthStatus;
+  // Round trip of the last successful probe
+  latencyMs?: number;
+  consecutiveFailures: number;
+  lastCheckedAt?: string;
+  error?: string;
+}
+
+interface UseAgentHealthProps {
+  // Changing the server restarts monitoring from 'checking'
+  apiUrl: string;
+  enabled?: boolean;
+  intervalMs?: number;
+  // Probed more often while down, to notice the recovery quickly
+  downIntervalMs?: number;
+  // Slower than this counts as degraded
+  degradedLatencyMs?: number;
+  // A single failed probe is only degraded; this many in a row is down
+  failuresBeforeDown?: number;
+  onStatusChange?: (status: AgentHealthStatus, previous: AgentHealthStatus) => void;
+}
+
+const getStatus = (
+  latencyMs: number | undefined,
+  consecutiveFailures: number,
+  degradedLatencyMs: number,
+  failuresBeforeDown: number
+): AgentHealthStatus => {
+  if (consecutiveFailures >= failuresBeforeDown) return 'down';
+  if (consecutiveFailures > 0 || (latencyMs !== undefined && latencyMs > degradedLatencyMs)) return 'degraded';
+  return 'healthy';
+};
+
+/**
+ * Periodically probes the agent server and tracks latency and failures.
+ * Also probes right away when the browser comes back online.
+ */
+export const useAgentHealth = ({
+  apiUrl,
+  enabled = true,
+  intervalMs = 15000,
+  downIntervalMs = 5000,
+  degradedLatencyMs = 2000,
+  failuresBeforeDown = 2,
+  onStatusChange,
+}: UseAgentHealthProps) => {
+  const [health, setHealth] = useState<AgentHealth>({ status: 'checking', consecutiveFailures: 0 });
+
+  // Read inside the probe loop without restarting it
+  const healthRef = useRef(health);
+  const onStatusChangeRef = useRef(onStatusChange);
+  const probeRef = useRef<() => Promise<void>>(async () => {});
+
+  useEffect(() => {
+    onStatusChangeRef.current = onStatusChange;
+  }, [onStatusChange]);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let controller: AbortController | undefined;
+
+    const update = (next: AgentHealth) => {
+      const previous = healthRef.current.status;
+      healthRef.current = next;
+      setHealth(next);
+      if (next.status !== previous) {
+        console.log(`🩺 Agent health: ${previous} → ${next.status}`, next.latencyMs !== undefined ? `(${next.latencyMs}ms)` : '');
+        onStatusChangeRef.current?.(next.status, previous);
+      }
+    };
+
+    const probe = async () => {
+      if (timer) clearTimeout(timer);
+      controller?.abort();
+      const probeController = new AbortController();
+      controller = probeController;
+      const lastCheckedAt = new Date().toISOString();
+
+      try {
+        const latencyMs = await AgentApiService.ping({ signal: probeController.signal });
+        if (cancelled) return;
+        update({
+          status: getStatus(latencyMs, 0, degradedLatencyMs, failuresBeforeDown),
+          latencyMs,
+          consecutiveFailures: 0,
+          lastCheckedAt,
+        });
+      } catch (error) {
+        if (cancelled || probeController.signal.aborted) return;
+        const consecutiveFailures = healthRef.current.consecutiveFailures + 1;
+        update({
+          status: getStatus(undefined, consecutiveFailures, degradedLatencyMs, failuresBeforeDown),
+          consecutiveFailures,
+          lastCheckedAt,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      if (cancelled) return;
+      timer = setTimeout(probe, healthRef.current.status === 'down' ? downIntervalMs : intervalMs);
+    };
+
+    probeRef.current = probe;
+    healthRef.current = { status: 'checking', consecutiveFailures: 0 };
+    setHealth(healthRef.current);
+    probe();
+
+    window.addEventListener('online', probe);
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      controller?.abort();
+      window.removeEventListener('online', probe);
+      probeRef.current = async () => {};
+    };
+  }, [apiUrl, enabled, intervalMs, downIntervalMs, degradedLatencyMs, failuresBeforeDown]);
+
+  // Probe now, e.g. after a request failed
+  const checkNow = useCallback(() => probeRef.current(), []);
+
+  return { ...health, checkNow };
+};
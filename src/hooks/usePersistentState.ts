@@ -0,0 +1,37 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+const STORAGE_PREFIX = 'writesense:';
+
+// useState that is kept in localStorage so user preferences survive reloads
+export const usePersistentState = <T,>(key: string, defaultValue: T) => {
+  const storageKey = STORAGE_PREFIX + key;
+  const [value, setValue] = useState<T>(defaultValue);
+
+  // Read the stored value after hydration to keep server and client markup identical
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(storageKey);
+      if (stored !== null) {
+        setValue(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not read setting "${key}":`, error);
+    }
+  }, [storageKey, key]);
+
+  const setPersistentValue = useCallback((next: T | ((prev: T) => T)) => {
+    setValue(prev => {
+      const resolved = typeof next === 'function' ? (next as (prev: T) => T)(prev) : next;
+      try {
+        window.localStorage.setItem(storageKey, JSON.stringify(resolved));
+      } catch (error) {
+        console.warn(`⚠️ Could not save setting "${key}":`, error);
+      }
+      return resolved;
+    });
+  }, [storageKey, key]);
+
+  return [value, setPersistentValue] as const;
+};
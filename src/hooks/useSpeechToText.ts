@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SpeechToTextProviderId } from '@/types';
+import { VoiceActivityFrame } from '@/lib/voiceActivity';
+import SpeechSettingsService from '@/services/speechSettings';
+import { SpeechToTextProvider, createSpeechToTextProvider } from '@/services/speechToText';
+
+export interface SpeechToTextState {
+  isListening: boolean;
+  transcript: string;
+  isSupported: boolean;
+  providerId?: SpeechToTextProviderId;
+  // Latest microphone level while listening, for a level meter
+  level?: VoiceActivityFrame;
+  error?: string;
+}
+
+interface UseSpeechToTextProps {
+  // Stable part of the utterance so far
+  onResult?: (transcript: string) => void;
+  onFinalResult?: (transcript: string) => void;
+  onError?: (error: string) => void;
+  // The utterance is complete
+  onSilenceDetected?: (finalTranscript: string) => void;
+  language?: string;
+}
+
+/**
+ * Speech recognition through the provider chosen in the speech settings.
+ * Saving other settings swaps the provider right away; a session that was
+ * listening continues on the new one. The end of each utterance is found by
+ * the voice activity settings.
+ */
+export const useSpeechToText = ({
+  onResult,
+  onFinalResult,
+  onError,
+  onSilenceDetected,
+  language = 'vi-VN',
+}: UseSpeechToTextProps = {}) => {
+  const [state, setState] = useState<SpeechToTextState>({
+    isListening: false,
+    transcript: '',
+    isSupported: false,
+  });
+  const [settings, setSettings] = useState(() => SpeechSettingsService.load());
+
+  const providerRef = useRef<SpeechToTextProvider | null>(null);
+  // True from startListening until the provider stops, so a swap knows to restart
+  const isListeningRef = useRef(false);
+  // Read inside provider events without recreating the provider
+  const callbacksRef = useRef({ onResult, onFinalResult, onError, onSilenceDetected });
+
+  useEffect(() => {
+    callbacksRef.current = { onResult, onFinalResult, onError, onSilenceDetected };
+  }, [onResult, onFinalResult, onError, onSilenceDetected]);
+
+  useEffect(() => SpeechSettingsService.subscribe(setSettings), []);
+
+  const { sttProvider, sttHttpUrl, vad } = settings;
+
+  useEffect(() => {
+    const provider = createSpeechToTextProvider(
+      { sttProvider, sttHttpUrl },
+      { language, vad }
+    );
+    providerRef.current = provider;
+    setState(prev => ({ ...prev, isSupported: provider.isSupported(), providerId: provider.id, error: undefined }));
+
+    const unsubscribe = provider.subscribe(event => {
+      const callbacks = callbacksRef.current;
+      switch (event.type) {
+        case 'start':
+          isListeningRef.current = true;
+          setState(prev => ({ ...prev, isListening: true, error: undefined }));
+          break;
+        case 'interim':
+          setState(prev => ({ ...prev, transcript: event.transcript }));
+          break;
+        case 'final':
+          setState(prev => ({ ...prev, transcript: event.transcript }));
+          callbacks.onResult?.(event.transcript);
+          break;
+        case 'silence':
+          setState(prev => ({ ...prev, transcript: '' }));
+          callbacks.onSilenceDetected?.(event.transcript);
+          callbacks.onFinalResult?.(event.transcript);
+          break;
+        case 'level':
+          setState(prev => ({ ...prev, level: event.frame }));
+          break;
+        case 'error':
+          isListeningRef.current = false;
+          setState(prev => ({ ...prev, isListening: false, level: undefined, error: event.error }));
+          callbacks.onError?.(event.error);
+          break;
+        case 'end':
+          isListeningRef.current = false;
+          setState(prev => ({ ...prev, isListening: false, level: undefined }));
+          break;
+      }
+    });
+
+    if (isListeningRef.current) {
+      console.log(`🔁 Speech provider changed to ${provider.id}, continuing to listen`);
+      provider.start().catch(error => {
+        isListeningRef.current = false;
+        const errorMessage = error instanceof Error ? error.message : 'Failed to start speech recognition';
+        setState(prev => ({ ...prev, isListening: false, error: errorMessage }));
+        callbacksRef.current.onError?.(errorMessage);
+      });
+    }
+
+    return () => {
+      unsubscribe();
+      provider.dispose();
+      if (providerRef.current === provider) providerRef.current = null;
+    };
+  }, [sttProvider, sttHttpUrl, vad, language]);
+
+  // Start listening
+  const startListening = useCallback(async () => {
+    const provider = providerRef.current;
+    if (!provider?.isSupported()) {
+      const error = 'Speech recognition not supported';
+      setState(prev => ({ ...prev, error }));
+      callbacksRef.current.onError?.(error);
+      return;
+    }
+
+    isListeningRef.current = true;
+    setState(prev => ({ ...prev, transcript: '', error: undefined }));
+    try {
+      await provider.start();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to start speech recognition';
+      console.error('❌ Error starting speech recognition:', error);
+      isListeningRef.current = false;
+      setState(prev => ({ ...prev, error: errorMessage, isListening: false }));
+      callbacksRef.current.onError?.(errorMessage);
+    }
+  }, []);
+
+  // Stop listening; an unfinished utterance is dropped
+  const stopListening = useCallback(() => {
+    console.log('🛑 Stopping speech recognition...');
+    isListeningRef.current = false;
+    providerRef.current?.stop();
+    setState(prev => ({ ...prev, isListening: false }));
+  }, []);
+
+  // Stop listening after the utterance in progress has been reported through onSilenceDetected
+  const finishListening = useCallback(async () => {
+    isListeningRef.current = false;
+    await providerRef.current?.finish();
+    setState(prev => ({ ...prev, isListening: false }));
+  }, []);
+
+  // Reset transcript
+  const resetTranscript = useCallback(() => {
+    setState(prev => ({ ...prev, transcript: '' }));
+  }, []);
+
+  return {
+    ...state,
+    startListening,
+    stopListening,
+    finishListening,
+    resetTranscript,
+  };
+};
@@ -1,393 +1,185 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TextToSpeechProviderId } from '@/types';
+import SpeechSettingsService from '@/services/speechSettings';
+import { TextToSpeechProvider, TextToSpeechVoice, createTextToSpeechProvider } from '@/services/textToSpeech';
+
+export interface TextToSpeechState {
+  isSupported: boolean;
+  isSpeaking: boolean;
+  isPaused: boolean;
+  // Unlocked by a user gesture; nothing is spoken before that
+  isActivated: boolean;
+  error?: string;
+  currentText?: string;
+  // Share of currentText already spoken, 0..1
+  progress: number;
+  providerId?: TextToSpeechProviderId;
+}
 
 interface UseTextToSpeechProps {
   language?: string;
   rate?: number;
   pitch?: number;
   volume?: number;
+  onStart?: () => void;
+  // Everything spoken, including a finished queue
+  onEnd?: () => void;
+  onError?: (error: string) => void;
+  onPause?: () => void;
+  onResume?: () => void;
 }
 
-interface TextToSpeechState {
-  isSpeaking: boolean;
-  isPaused: boolean;
-  isSupported: boolean;
-  error?: string;
-}
-
+/**
+ * Speech output through the provider chosen in the speech settings. Saving
+ * other settings swaps the provider; activation carries over to the new one.
+ */
 export const useTextToSpeech = ({
   language = 'vi-VN',
   rate = 1,
   pitch = 1,
   volume = 1,
+  onStart,
+  onEnd,
+  onError,
+  onPause,
+  onResume,
 }: UseTextToSpeechProps = {}) => {
   const [state, setState] = useState<TextToSpeechState>({
+    isSupported: false,
     isSpeaking: false,
     isPaused: false,
-    isSupported: false,
-    error: undefined,
+    isActivated: false,
+    progress: 0,
   });
+  const [settings, setSettings] = useState(() => SpeechSettingsService.load());
 
-  // Fix for speech-dispatcher bug on Ubuntu systems
-  const [speechDispatcherFixed, setSpeechDispatcherFixed] = useState(false);
-  const [isClient, setIsClient] = useState(false);
-  const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
-  const utteranceQueueRef = useRef<SpeechSynthesisUtterance[]>([]);
+  const providerRef = useRef<TextToSpeechProvider | null>(null);
+  // Survives provider swaps so the user does not have to activate again
+  const isActivatedRef = useRef(false);
+  // Read inside provider events without recreating the provider
+  const callbacksRef = useRef({ onStart, onEnd, onError, onPause, onResume });
 
-  // Fix for Chrome's bug where speech synthesis gets cut off
-  const watchdogRef = useRef<number | null>(null);
-  const resumeInfinity = useCallback(() => {
-    if (speechSynthesis.speaking && !speechSynthesis.paused) {
-      speechSynthesis.pause();
-      speechSynthesis.resume();
-
-      // Clear existing watchdog and set a new one
-      if (watchdogRef.current) {
-        window.clearTimeout(watchdogRef.current);
-      }
-      watchdogRef.current = window.setTimeout(resumeInfinity, 5000);
-    }
-  }, []);
-
-  // Ensure client-side hydration
   useEffect(() => {
-    setIsClient(true);
-  }, []);
+    callbacksRef.current = { onStart, onEnd, onError, onPause, onResume };
+  }, [onStart, onEnd, onError, onPause, onResume]);
 
-  // Cleanup watchdog on unmount
-  useEffect(() => {
-    return () => {
-      if (watchdogRef.current) {
-        window.clearTimeout(watchdogRef.current);
-        watchdogRef.current = null;
-      }
-    };
-  }, []);
+  useEffect(() => SpeechSettingsService.subscribe(setSettings), []);
 
-  // Initialize speech synthesis
-  useEffect(() => {
-    if (!isClient) return;
-
-    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
-      console.log('✅ Speech synthesis is supported');
-      setState(prev => ({ ...prev, isSupported: true }));
+  const { ttsProvider, ttsHttpUrl, elevenLabsVoiceId } = settings;
 
-      // On Ubuntu systems, fix speech-dispatcher bug by disabling the Web Speech API temporarily
-      // This is based on the fix mentioned here: https://tqdev.com/2021-firefox-ubuntu-crackling-sound
-      try {
-        const isLinux = navigator.userAgent.toLowerCase().includes('linux');
-        if (isLinux) {
-          console.log('Linux OS detected, applying speech-dispatcher fix');
-          
-          // Fix 1: Disable Web Speech Synthesis on Linux temporarily to see if it helps
-          const meta = document.createElement('meta');
-          meta.name = 'speech-synthesis-fix';
-          meta.content = 'disabled';
-          document.head.appendChild(meta);
-          
-          // This will only disable it for a short test, then we'll restore it
-          setTimeout(() => {
-            document.head.removeChild(meta);
-            console.log('✅ Speech synthesis restored after fix applied');
-            setSpeechDispatcherFixed(true);
-          }, 500);
-        }
-      } catch (error) {
-        console.error('Error during speech-dispatcher fix:', error);
+  useEffect(() => {
+    const provider = createTextToSpeechProvider(
+      { ttsProvider, ttsHttpUrl, elevenLabsVoiceId },
+      { language, rate, pitch, volume, activated: isActivatedRef.current }
+    );
+    providerRef.current = provider;
+    setState(prev => ({
+      ...prev,
+      isSupported: provider.isSupported(),
+      isSpeaking: false,
+      isPaused: false,
+      isActivated: provider.isActivated(),
+      providerId: provider.id,
+      error: undefined,
+      currentText: undefined,
+      progress: 0,
+    }));
+
+    const unsubscribe = provider.subscribe(event => {
+      const callbacks = callbacksRef.current;
+      switch (event.type) {
+        case 'start':
+          setState(prev => ({
+            ...prev,
+            isSpeaking: true,
+            isPaused: false,
+            currentText: event.text,
+            progress: 0,
+            error: undefined,
+          }));
+          callbacks.onStart?.();
+          break;
+        case 'progress':
+          setState(prev => ({ ...prev, progress: event.progress }));
+          break;
+        case 'pause':
+          setState(prev => ({ ...prev, isPaused: true }));
+          callbacks.onPause?.();
+          break;
+        case 'resume':
+          setState(prev => ({ ...prev, isPaused: false }));
+          callbacks.onResume?.();
+          break;
+        case 'end':
+          setState(prev => ({ ...prev, isSpeaking: false, isPaused: false, currentText: undefined, progress: 0 }));
+          callbacks.onEnd?.();
+          break;
+        case 'error':
+          setState(prev => ({ ...prev, isSpeaking: false, isPaused: false, currentText: undefined, error: event.error }));
+          callbacks.onError?.(event.error);
+          break;
+        case 'activation':
+          isActivatedRef.current = event.activated;
+          setState(prev => ({ ...prev, isActivated: event.activated, error: event.error }));
+          break;
       }
+    });
 
-      // Load available voices
-      const loadVoices = () => {
-        const voices = speechSynthesis.getVoices();
-        console.log(`🎙️ Available voices loaded: ${voices.length}`);
-        if (voices.length > 0) {
-          console.log('Available voices:', voices.map(v => `${v.name} (${v.lang})`).join(', '));
-        }
-      };
-      
-      loadVoices();
-      if (speechSynthesis.onvoiceschanged !== undefined) {
-        speechSynthesis.onvoiceschanged = loadVoices;
-      }
-    } else {
-      setState(prev => ({ 
-        ...prev, 
-        isSupported: false,
-        error: 'Trình duyệt không hỗ trợ Speech Synthesis API.'
-      }));
-    }
-    
-    // Important cleanup
     return () => {
-      if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
-        speechSynthesis.cancel();
-        if (watchdogRef.current) {
-          window.clearTimeout(watchdogRef.current);
-          watchdogRef.current = null;
-        }
-      }
+      unsubscribe();
+      provider.dispose();
+      if (providerRef.current === provider) providerRef.current = null;
     };
-  }, [isClient]);
-
-  const selectBestVoice = useCallback((lang: string) => {
-    if (!window.speechSynthesis) return null;
-    
-    const voices = speechSynthesis.getVoices();
-    if (!voices.length) return null;
-    
-    // First try: exact language match
-    let voice = voices.find(v => v.lang.toLowerCase() === lang.toLowerCase());
-    
-    // Second try: partial match (language code)
-    if (!voice) {
-      const langCode = lang.split('-')[0].toLowerCase();
-      voice = voices.find(v => v.lang.toLowerCase().startsWith(langCode));
-    }
-    
-    // Third try: default voice
-    if (!voice && voices.length > 0) {
-      voice = voices.find(v => v.default) || voices[0];
-    }
-    
-    return voice;
-  }, []);
+  }, [ttsProvider, ttsHttpUrl, elevenLabsVoiceId, language, rate, pitch, volume]);
 
+  // Speak now, interrupting anything playing or queued
   const speak = useCallback((text: string) => {
-    if (!state.isSupported || !window.speechSynthesis) {
-      const error = 'Trình duyệt không hỗ trợ Speech Synthesis API.';
-      setState(prev => ({ ...prev, error }));
-      return;
-    }
-
-    if (!text.trim()) {
-      const error = 'Không có nội dung để đọc.';
-      setState(prev => ({ ...prev, error }));
-      return;
-    }
-
-    // If speech is currently active, we need to stop it first
-    if (speechSynthesis.speaking || speechSynthesis.pending) {
-      console.log('🛑 Stopping existing speech before starting new one');
-      
-      // Force stop all speech
-      speechSynthesis.cancel();
-      
-      // Clear our internal state
-      if (watchdogRef.current) {
-        window.clearTimeout(watchdogRef.current);
-        watchdogRef.current = null;
-      }
-      
-      // Clear references
-      currentUtteranceRef.current = null;
-      utteranceQueueRef.current = [];
-      
-      // Update state to reflect that we're not speaking
-      setState(prev => ({ 
-        ...prev, 
-        isSpeaking: false, 
-        isPaused: false 
-      }));
-      
-      // Wait longer for the cancellation to fully complete and browser state to update
-      setTimeout(() => {
-        // Double-check that speech has actually stopped
-        if (!speechSynthesis.speaking && !speechSynthesis.pending) {
-          console.log('✅ Speech fully stopped, starting new utterance');
-          createAndSpeakUtterance(text);
-        } else {
-          console.log('⚠️ Speech still active after cancellation, waiting longer');
-          // Wait even longer if speech is still active
-          setTimeout(() => {
-            createAndSpeakUtterance(text);
-          }, 500);
-        }
-      }, 200); // Increased delay from 50ms to 200ms
-    } else {
-      createAndSpeakUtterance(text);
-    }
-  }, [language, rate, pitch, volume, state.isSupported, selectBestVoice]);
-
-  const createAndSpeakUtterance = useCallback((text: string) => {
-    // Additional safety check
-    if (!window.speechSynthesis) {
-      console.error('🚨 SpeechSynthesis not available');
-      setState(prev => ({
-        ...prev,
-        error: 'Hệ thống phát âm không khả dụng.'
-      }));
-      return;
-    }
+    providerRef.current?.speak(text);
+  }, []);
 
-    // Don't try to speak if there's already speech happening
-    if (speechSynthesis.speaking || speechSynthesis.pending) {
-      console.warn('⚠️ Speech already in progress, skipping new utterance');
-      return;
-    }
+  // Speak after the current sentence; call finishQueue() when the last one is added
+  const enqueue = useCallback((text: string) => {
+    providerRef.current?.enqueue(text);
+  }, []);
 
-    console.log('🗣️ Creating new utterance:', text.substring(0, 50) + (text.length > 50 ? '...' : ''));
-    
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = language;
-    
-    // Clamp values to safe ranges
-    utterance.rate = Math.max(0.1, Math.min(rate, 2));
-    utterance.pitch = Math.max(0.1, Math.min(pitch, 2));
-    utterance.volume = Math.max(0, Math.min(volume, 1));
-    
-    // Try to find an appropriate voice
-    const bestVoice = selectBestVoice(language);
-    if (bestVoice) {
-      console.log(`🎙️ Using voice: ${bestVoice.name} (${bestVoice.lang})`);
-      utterance.voice = bestVoice;
-    }
-    
-    // Keep reference to prevent garbage collection
-    currentUtteranceRef.current = utterance;
-    utteranceQueueRef.current.push(utterance);
-    
-    // Event handlers
-    utterance.onstart = () => {
-      console.log('🔊 Speech started');
-      setState(prev => ({ 
-        ...prev, 
-        isSpeaking: true, 
-        isPaused: false, 
-        error: undefined 
-      }));
-      
-      // Start the watchdog to prevent Chrome from cutting off
-      if (!watchdogRef.current) {
-        watchdogRef.current = window.setTimeout(resumeInfinity, 5000);
-      }
-    };
-    
-    utterance.onend = () => {
-      console.log('🔊 Speech ended');
-      setState(prev => ({ 
-        ...prev, 
-        isSpeaking: false, 
-        isPaused: false 
-      }));
-      currentUtteranceRef.current = null;
-      utteranceQueueRef.current = utteranceQueueRef.current.filter(u => u !== utterance);
-      
-      // Clear the watchdog
-      if (watchdogRef.current) {
-        window.clearTimeout(watchdogRef.current);
-        watchdogRef.current = null;
-      }
-    };
-    
-    utterance.onerror = (event) => {
-      console.error('🚨 Speech error:', event.error);
-      
-      // Handle specific error cases
-      if (event.error === 'canceled') {
-        console.log('ℹ️ Speech was canceled - this is normal when stopping to start new speech');
-        // Don't treat cancellation as a real error if we're just switching to new speech
-        setState(prev => ({ 
-          ...prev, 
-          isSpeaking: false, 
-          isPaused: false,
-          error: undefined // Clear error for canceled
-        }));
-      } else if (event.error === 'not-allowed') {
-        console.error('🚫 Speech not allowed - possibly due to user activation policy or rapid consecutive calls');
-        setState(prev => ({ 
-          ...prev, 
-          isSpeaking: false, 
-          isPaused: false,
-          error: 'Không thể phát âm. Vui lòng thử lại sau.'
-        }));
-      } else {
-        setState(prev => ({ 
-          ...prev, 
-          isSpeaking: false, 
-          isPaused: false,
-          error: `Lỗi phát âm: ${event.error}`
-        }));
-      }
-      
-      currentUtteranceRef.current = null;
-      utteranceQueueRef.current = utteranceQueueRef.current.filter(u => u !== utterance);
-      
-      // Clear the watchdog
-      if (watchdogRef.current) {
-        window.clearTimeout(watchdogRef.current);
-        watchdogRef.current = null;
-      }
-    };
-    
-    // Speak!
-    try {
-      console.log('🎯 Starting speech synthesis');
-      speechSynthesis.speak(utterance);
-    } catch (error) {
-      console.error('🚨 Error in speechSynthesis.speak():', error);
-      setState(prev => ({
-        ...prev,
-        error: 'Lỗi khi gọi hàm phát âm.'
-      }));
-    }
-  }, [language, rate, pitch, volume, resumeInfinity, selectBestVoice]);
+  const finishQueue = useCallback(() => {
+    providerRef.current?.finishQueue();
+  }, []);
 
   const pause = useCallback(() => {
-    if (state.isSupported && speechSynthesis.speaking && !speechSynthesis.paused) {
-      speechSynthesis.pause();
-      setState(prev => ({ ...prev, isPaused: true }));
-      
-      // Clear the watchdog
-      if (watchdogRef.current) {
-        window.clearTimeout(watchdogRef.current);
-        watchdogRef.current = null;
-      }
-    }
-  }, [state.isSupported]);
+    providerRef.current?.pause();
+  }, []);
 
   const resume = useCallback(() => {
-    if (state.isSupported && speechSynthesis.paused) {
-      speechSynthesis.resume();
-      setState(prev => ({ ...prev, isPaused: false }));
-      
-      // Restart the watchdog
-      if (!watchdogRef.current) {
-        watchdogRef.current = window.setTimeout(resumeInfinity, 5000);
-      }
-    }
-  }, [state.isSupported, resumeInfinity]);
+    providerRef.current?.resume();
+  }, []);
 
+  // Silence everything; onEnd is not called
   const stop = useCallback(() => {
-    if (state.isSupported) {
-      speechSynthesis.cancel();
-      setState(prev => ({ 
-        ...prev, 
-        isSpeaking: false, 
-        isPaused: false 
-      }));
-      currentUtteranceRef.current = null;
-      utteranceQueueRef.current = [];
-      
-      // Clear the watchdog
-      if (watchdogRef.current) {
-        window.clearTimeout(watchdogRef.current);
-        watchdogRef.current = null;
-      }
-    }
-  }, [state.isSupported]);
+    providerRef.current?.stop();
+    setState(prev => ({ ...prev, isSpeaking: false, isPaused: false, currentText: undefined, progress: 0 }));
+  }, []);
 
-  const getVoices = useCallback(() => {
-    if (!state.isSupported) return [];
-    return speechSynthesis.getVoices();
-  }, [state.isSupported]);
+  // Must run inside a click, tap or key handler
+  const activate = useCallback(async () => {
+    return (await providerRef.current?.activate()) ?? false;
+  }, []);
+
+  const getVoices = useCallback(async (): Promise<TextToSpeechVoice[]> => {
+    return (await providerRef.current?.getVoices()) ?? [];
+  }, []);
 
   return {
     ...state,
     speak,
+    enqueue,
+    finishQueue,
     pause,
     resume,
     stop,
+    activate,
     getVoices,
   };
-}; 
\ No newline at end of file
+};
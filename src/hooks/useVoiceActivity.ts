@@ -0,0 +1,141 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { MicrophoneLevelMeter, createMicrophoneLevelMeter } from '@/lib/voiceActivity';
+
+// After TTS starts, the echo level is measured for this long before speech can trigger
+const ECHO_CALIBRATION_MS = 500;
+
+interface UseVoiceActivityProps {
+  // The microphone is only opened while enabled
+  enabled: boolean;
+  onSpeechStart?: () => void;
+  // RMS level (0..1) that counts as speech
+  threshold?: number;
+  // While our own TTS is playing, speech must be this many times louder than the echo floor
+  echoRatio?: number;
+  isEchoLikely?: boolean;
+  // Speech must last this long before it triggers, so clicks and short echo bursts are ignored
+  minSpeechMs?: number;
+  // Sampling interval; a coarse interval keeps the detector cheap
+  intervalMs?: number;
+}
+
+export interface VoiceActivityState {
+  isActive: boolean;
+  error?: string;
+}
+
+/**
+ * Low-power voice activity detector used for barge-in. Runs a small
+ * AnalyserNode on an echo-cancelled microphone stream and reports when the
+ * user starts talking.
+ */
+export const useVoiceActivity = ({
+  enabled,
+  onSpeechStart,
+  threshold = 0.02,
+  echoRatio = 2.5,
+  isEchoLikely = false,
+  minSpeechMs = 300,
+  intervalMs = 50,
+}: UseVoiceActivityProps) => {
+  const [state, setState] = useState<VoiceActivityState>({ isActive: false });
+
+  // Read inside the sampling loop without restarting the microphone
+  const onSpeechStartRef = useRef(onSpeechStart);
+  const isEchoLikelyRef = useRef(isEchoLikely);
+
+  useEffect(() => {
+    onSpeechStartRef.current = onSpeechStart;
+    isEchoLikelyRef.current = isEchoLikely;
+  }, [onSpeechStart, isEchoLikely]);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      return;
+    }
+
+    let cancelled = false;
+    let stream: MediaStream | undefined;
+    let meter: MicrophoneLevelMeter | undefined;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            // Browser echo cancellation removes most of the synthesized speech
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: false,
+          },
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        const levelMeter = createMicrophoneLevelMeter(stream);
+        meter = levelMeter;
+
+        // Slowly tracked level of the residual echo while TTS is playing
+        let echoFloor = 0;
+        let echoSince: number | undefined;
+        let speechSince: number | undefined;
+        let triggered = false;
+
+        setState({ isActive: true });
+        console.log('👂 Voice activity detector started');
+
+        timer = setInterval(() => {
+          const level = levelMeter.read();
+
+          const now = Date.now();
+          let required = threshold;
+          if (isEchoLikelyRef.current) {
+            echoSince ??= now;
+            if (now - echoSince < ECHO_CALIBRATION_MS) {
+              echoFloor = Math.max(echoFloor, level);
+              speechSince = undefined;
+              return;
+            }
+            // Rises slowly so the user's own voice does not become the floor
+            echoFloor = level > echoFloor ? echoFloor * 0.95 + level * 0.05 : echoFloor * 0.99 + level * 0.01;
+            required = Math.max(threshold, echoFloor * echoRatio);
+          } else {
+            echoSince = undefined;
+            echoFloor = 0;
+          }
+
+          if (level < required) {
+            speechSince = undefined;
+            return;
+          }
+
+          speechSince ??= now;
+          if (!triggered && now - speechSince >= minSpeechMs) {
+            triggered = true;
+            console.log('🗣️ Speech detected (level', level.toFixed(3), 'required', required.toFixed(3) + ')');
+            onSpeechStartRef.current?.();
+          }
+        }, intervalMs);
+      } catch (error) {
+        console.error('❌ Voice activity detector failed to start:', error);
+        setState({ isActive: false, error: 'Không thể mở microphone để phát hiện giọng nói.' });
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      meter?.close();
+      setState({ isActive: false });
+    };
+  }, [enabled, threshold, echoRatio, minSpeechMs, intervalMs]);
+
+  return state;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseAgentResponse, validateAgentAction } from '@/lib/agentActions';
+
+describe('validateAgentAction', () => {
+  it('accepts create_doc without content and defaults it to an empty string', () => {
+    expect(validateAgentAction({ type: 'create_doc', title: 'Kế hoạch' })).toEqual({
+      action: { type: 'create_doc', content: '', title: 'Kế hoạch' },
+      errors: [],
+    });
+    expect(validateAgentAction({ type: 'create_doc' }).action).toEqual({ type: 'create_doc', content: '' });
+  });
+
+  it('still requires the content of add_to_page', () => {
+    expect(validateAgentAction({ type: 'add_to_page' }).errors).toEqual(['actions[0].content là bắt buộc cho add_to_page']);
+  });
+
+  it('rejects inherited object keys as action types', () => {
+    expect(validateAgentAction({ type: 'constructor' }).action).toBeUndefined();
+  });
+});
+
+describe('parseAgentResponse', () => {
+  it('reads a legacy create_doc without content', () => {
+    const result = parseAgentResponse('Action: create_doc\nAnswer: Đã tạo tài liệu mới.');
+    expect(result.status === 'ok' && result.response.actions).toEqual([{ type: 'create_doc', content: '' }]);
+  });
+});
@@ -0,0 +1,247 @@
+import { AgentAction, AgentActionType, AgentToolCall, ParsedAgentResponse } from '@/types';
+
+export type AgentResponseParseResult =
+  | { status: 'ok'; response: ParsedAgentResponse }
+  // The agent tried to send actions but they don't match the schema
+  | { status: 'invalid'; errors: string[] }
+  // Plain text without any recognizable action
+  | { status: 'unparsed'; text: string };
+
+interface ActionSchema {
+  required: string[];
+  optional: string[];
+  // Values of optional fields the action type always carries
+  defaults?: Record<string, string>;
+}
+
+// Field schema for every action the frontend can execute. All fields are strings.
+export const AGENT_ACTION_SCHEMAS: Record<AgentActionType, ActionSchema> = {
+  add_to_page: { required: ['content'], optional: [] },
+  rewrite_page: { required: ['content'], optional: [] },
+  create_doc: { required: [], optional: ['content', 'title'], defaults: { content: '' } },
+  set_title_doc: { required: ['title'], optional: [] },
+  read_title_doc: { required: [], optional: [] },
+  set_title_page: { required: ['title'], optional: [] },
+  read_title_page: { required: [], optional: [] },
+  add_page: { required: [], optional: ['title'] },
+  next_page: { required: [], optional: [] },
+  prev_page: { required: [], optional: [] },
+  read_page: { required: [], optional: [] },
+  delete_page: { required: [], optional: [] },
+  remove_doc: { required: [], optional: [] },
+  save_doc: { required: [], optional: [] },
+  reply_user: { required: [], optional: ['content'] },
+};
+
+// Description of the JSON format, sent back to the agent in correction turns
+export const AGENT_ACTION_FORMAT_HINT =
+  'Trả lời bằng JSON: {"actions": [{"type": "<action>", ...}], "answer": "<câu trả lời>"}. ' +
+  `Các action hợp lệ: ${Object.entries(AGENT_ACTION_SCHEMAS)
+    .map(([type, schema]) => schema.required.length ? `${type}(${schema.required.join(', ')})` : type)
+    .join(', ')}.`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Own keys only, so "constructor" or "__proto__" are not mistaken for actions
+const isAgentActionType = (type: string): type is AgentActionType => Object.hasOwn(AGENT_ACTION_SCHEMAS, type);
+
+// Validate one raw action object; legacy {action, content} keys are accepted too
+export const validateAgentAction = (raw: unknown, index = 0): { action?: AgentAction; errors: string[] } => {
+  const label = `actions[${index}]`;
+  if (!isRecord(raw)) {
+    return { errors: [`${label} phải là một object`] };
+  }
+
+  const type = raw.type ?? raw.action ?? raw.name;
+  if (typeof type !== 'string') {
+    return { errors: [`${label}.type bị thiếu`] };
+  }
+
+  const normalizedType = type.trim().toLowerCase();
+  if (!isAgentActionType(normalizedType)) {
+    return { errors: [`${label}.type "${type}" không được hỗ trợ`] };
+  }
+  const schema = AGENT_ACTION_SCHEMAS[normalizedType];
+
+  // Tool calls keep their fields in "args"
+  const fields = isRecord(raw.args) ? raw.args : raw;
+  const errors: string[] = [];
+  const action: Record<string, unknown> = { type: normalizedType };
+
+  for (const field of [...schema.required, ...schema.optional]) {
+    const value = fields[field];
+    if (value === undefined || value === null) {
+      if (schema.required.includes(field)) {
+        errors.push(`${label}.${field} là bắt buộc cho ${normalizedType}`);
+      } else if (schema.defaults && Object.hasOwn(schema.defaults, field)) {
+        action[field] = schema.defaults[field];
+      }
+      continue;
+    }
+    if (typeof value !== 'string') {
+      errors.push(`${label}.${field} phải là chuỗi`);
+      continue;
+    }
+    action[field] = value;
+  }
+
+  return errors.length ? { errors } : { action: action as AgentAction, errors };
+};
+
+const validatePayload = (payload: unknown, format: ParsedAgentResponse['format']): AgentResponseParseResult => {
+  if (!isRecord(payload)) {
+    return { status: 'invalid', errors: ['Phản hồi JSON phải là một object'] };
+  }
+
+  let rawActions: unknown[];
+  if (Array.isArray(payload.actions)) {
+    rawActions = payload.actions;
+  } else if (payload.action !== undefined) {
+    rawActions = [isRecord(payload.action) ? payload.action : { ...payload, type: payload.action }];
+  } else if (payload.type !== undefined) {
+    rawActions = [payload];
+  } else {
+    return { status: 'invalid', errors: ['Thiếu trường "actions"'] };
+  }
+
+  if (rawActions.length === 0) {
+    return { status: 'invalid', errors: ['"actions" không được rỗng'] };
+  }
+
+  const actions: AgentAction[] = [];
+  const errors: string[] = [];
+  rawActions.forEach((raw, index) => {
+    const result = validateAgentAction(raw, index);
+    if (result.action) actions.push(result.action);
+    errors.push(...result.errors);
+  });
+
+  if (payload.answer !== undefined && typeof payload.answer !== 'string') {
+    errors.push('"answer" phải là chuỗi');
+  }
+
+  if (errors.length) {
+    return { status: 'invalid', errors };
+  }
+
+  return {
+    status: 'ok',
+    response: {
+      actions,
+      answer: typeof payload.answer === 'string' ? payload.answer.trim() : '',
+      format,
+    },
+  };
+};
+
+// Find a JSON object in the text: the whole text, a ```json fence, or the outermost braces
+const extractJson = (text: string): { found: boolean; value?: unknown } => {
+  const candidates: string[] = [];
+  const trimmed = text.trim();
+  candidates.push(trimmed);
+
+  const fence = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fence) candidates.push(fence[1].trim());
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start !== -1 && end > start) candidates.push(trimmed.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    if (!candidate.startsWith('{')) continue;
+    try {
+      return { found: true, value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return { found: start !== -1 && trimmed.slice(start).includes('"actions"') };
+};
+
+// Parse the legacy format: "Action: <action type>\nAction content: <action content>\nAnswer: <answer>"
+export const parseLegacyTextResponse = (response: string): AgentResponseParseResult => {
+  const lines = response.trim().split('\n');
+  let actionType = '';
+  let actionContent = '';
+  let answer = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line.startsWith('Action:')) {
+      actionType = line.substring(7).trim();
+    } else if (line.startsWith('Action content:')) {
+      // Action content might span multiple lines, collect until we hit "Answer:"
+      const contentLines = [];
+      for (let j = i; j < lines.length; j++) {
+        const currentLine = lines[j].trim();
+        if (currentLine.startsWith('Answer:')) {
+          answer = lines.slice(j).join('\n').trim().substring(7).trim();
+          break;
+        } else if (j === i) {
+          contentLines.push(currentLine.substring(15).trim());
+        } else {
+          contentLines.push(currentLine);
+        }
+      }
+      actionContent = contentLines.join('\n').trim();
+      break;
+    } else if (line.startsWith('Answer:')) {
+      answer = lines.slice(i).join('\n').trim().substring(7).trim();
+      break;
+    }
+  }
+
+  if (!actionType) {
+    return { status: 'unparsed', text: response };
+  }
+
+  const type = actionType.toLowerCase();
+  if (!isAgentActionType(type)) {
+    return { status: 'invalid', errors: [`Action "${actionType}" không được hỗ trợ`] };
+  }
+  const schema = AGENT_ACTION_SCHEMAS[type];
+
+  // The legacy format has a single free-text slot: map it to the action's first field
+  const field = schema.required[0] ?? schema.optional[0];
+  const raw: Record<string, unknown> = { type };
+  if (field && actionContent) raw[field] = actionContent;
+
+  const result = validateAgentAction(raw);
+  if (!result.action) {
+    return { status: 'invalid', errors: result.errors };
+  }
+
+  return { status: 'ok', response: { actions: [result.action], answer, format: 'text' } };
+};
+
+/**
+ * Parse a complete agent turn. Tool calls win over text; JSON in the text wins
+ * over the legacy "Action:/Action content:/Answer:" format.
+ */
+export const parseAgentResponse = (text: string, toolCalls: AgentToolCall[] = []): AgentResponseParseResult => {
+  if (toolCalls.length > 0) {
+    return validatePayload({
+      actions: toolCalls.map(call => ({ type: call.name, args: call.args })),
+      answer: text.trim() || undefined,
+    }, 'tool_call');
+  }
+
+  const json = extractJson(text);
+  if (json.value !== undefined) {
+    return validatePayload(json.value, 'json');
+  }
+  if (json.found) {
+    return { status: 'invalid', errors: ['JSON không hợp lệ'] };
+  }
+
+  return parseLegacyTextResponse(text);
+};
+
+// Free-text slot of an action, as used by the legacy handlers
+export const getActionContent = (action: AgentAction): string => {
+  if ('content' in action && action.content) return action.content;
+  if ('title' in action && action.title) return action.title;
+  return '';
+};
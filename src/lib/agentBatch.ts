@@ -0,0 +1,235 @@
+import { AgentAction, Document } from '@/types';
+import { getActionContent } from '@/lib/agentActions';
+import {
+  DocumentAction,
+  DocumentState,
+  createDocument,
+  createPage,
+  documentReducer,
+  selectCurrentDocument,
+  selectCurrentPage,
+} from '@/lib/documentReducer';
+
+export type ActionBatchResult =
+  | {
+      ok: true;
+      // Dispatch as one { type: 'batch' } action to commit the whole turn
+      documentActions: DocumentAction[];
+      // State after the batch, as validated against the snapshot
+      state: DocumentState;
+      // Default spoken message for every step, in order
+      messages: string[];
+      // save_doc leaves edit mode once the batch commits
+      stopEditing: boolean;
+    }
+  | {
+      ok: false;
+      failedIndex: number;
+      failedAction: AgentAction;
+      error: string;
+    };
+
+// A step that cannot be applied; aborts the whole batch
+class ActionStepError extends Error {}
+
+export interface ExecuteAgentActionsOptions {
+  // Applied to text appended by add_to_page, given the page text it follows (spoken punctuation)
+  formatAppendedText?: (text: string, pageContent: string) => string;
+}
+
+// Extract title from content (first line or first few words)
+export const extractTitleFromContent = (content: string): string => {
+  if (!content) return '';
+
+  const firstLine = content.split('\n')[0].trim();
+  if (firstLine.length > 0 && firstLine.length <= 100) {
+    return firstLine;
+  }
+
+  // If first line is too long, use first few words
+  const words = firstLine.split(' ').slice(0, 8);
+  return words.join(' ') + (words.length === 8 ? '...' : '');
+};
+
+const requireCurrentDocument = (state: DocumentState): Document => {
+  const document = selectCurrentDocument(state);
+  if (!document) {
+    throw new ActionStepError('Không có tài liệu nào được chọn.');
+  }
+  return document;
+};
+
+const requireCurrentPage = (document: Document) => {
+  const page = selectCurrentPage(document);
+  if (!page) {
+    throw new ActionStepError(`Không tìm thấy trang ${document.current_page}.`);
+  }
+  return page;
+};
+
+// Check one agent action against the state and translate it into document actions.
+// Throws ActionStepError if it cannot be applied.
+const planAction = (
+  state: DocumentState,
+  action: AgentAction,
+  options: ExecuteAgentActionsOptions
+): { documentActions: DocumentAction[]; message: string } => {
+  const at = new Date().toISOString();
+  const actionContent = getActionContent(action);
+
+  switch (action.type) {
+    case 'add_to_page': {
+      const page = requireCurrentPage(requireCurrentDocument(state));
+      const content = options.formatAppendedText?.(actionContent, page.content) ?? actionContent;
+      return {
+        documentActions: [{ type: 'append_to_page', content, at }],
+        message: `Đã thêm nội dung vào trang ${page.page_number}.`,
+      };
+    }
+
+    case 'rewrite_page': {
+      const page = requireCurrentPage(requireCurrentDocument(state));
+      return {
+        documentActions: [{ type: 'rewrite_page', content: actionContent, at }],
+        message: `Đã viết lại nội dung trang ${page.page_number}.`,
+      };
+    }
+
+    case 'create_doc': {
+      const document = createDocument({
+        title: action.title || extractTitleFromContent(action.content),
+        content: action.content,
+      });
+      return {
+        documentActions: [{ type: 'create_document', document }],
+        message: `Đã tạo tài liệu mới: "${document.title}"`,
+      };
+    }
+
+    case 'set_title_doc':
+      requireCurrentDocument(state);
+      return {
+        documentActions: [{ type: 'set_document_title', title: action.title, at }],
+        message: `Đã đặt tiêu đề tài liệu: "${action.title}"`,
+      };
+
+    case 'read_title_doc': {
+      const document = requireCurrentDocument(state);
+      return { documentActions: [], message: `Tiêu đề tài liệu là: "${document.title}"` };
+    }
+
+    case 'set_title_page': {
+      const page = requireCurrentPage(requireCurrentDocument(state));
+      return {
+        documentActions: [{ type: 'set_page_title', title: action.title, at }],
+        message: `Đã đặt tiêu đề trang ${page.page_number}: "${action.title}"`,
+      };
+    }
+
+    case 'read_title_page': {
+      const page = requireCurrentPage(requireCurrentDocument(state));
+      return {
+        documentActions: [],
+        message: page.title
+          ? `Tiêu đề trang ${page.page_number} là: "${page.title}"`
+          : `Trang ${page.page_number} chưa có tiêu đề.`,
+      };
+    }
+
+    case 'add_page': {
+      const document = requireCurrentDocument(state);
+      const newPageNumber = document.pages.length + 1;
+      return {
+        documentActions: [{ type: 'add_page', page: createPage(action.title), at }],
+        message: `Đã tạo trang mới số ${newPageNumber}. Bạn đang ở trang ${newPageNumber}.`,
+      };
+    }
+
+    case 'next_page': {
+      const document = requireCurrentDocument(state);
+      if (document.current_page >= document.pages.length) {
+        throw new ActionStepError('Đây là trang cuối cùng.');
+      }
+      return { documentActions: [{ type: 'next_page' }], message: `Đã chuyển đến trang ${document.current_page + 1}.` };
+    }
+
+    case 'prev_page': {
+      const document = requireCurrentDocument(state);
+      if (document.current_page <= 1) {
+        throw new ActionStepError('Đây là trang đầu tiên.');
+      }
+      return { documentActions: [{ type: 'prev_page' }], message: `Đã chuyển về trang ${document.current_page - 1}.` };
+    }
+
+    case 'read_page': {
+      const page = requireCurrentPage(requireCurrentDocument(state));
+      const pageTitle = page.title ? ` "${page.title}"` : '';
+      return {
+        documentActions: [],
+        message: page.content
+          ? `Đây là nội dung trang ${page.page_number}${pageTitle}: ${page.content}`
+          : `Trang ${page.page_number} hiện tại đang trống.`,
+      };
+    }
+
+    case 'delete_page': {
+      const document = requireCurrentDocument(state);
+      if (document.pages.length <= 1) {
+        throw new ActionStepError('Không thể xóa trang duy nhất trong tài liệu.');
+      }
+      return { documentActions: [{ type: 'delete_page', at }], message: `Đã xóa trang ${document.current_page}.` };
+    }
+
+    case 'remove_doc': {
+      const document = requireCurrentDocument(state);
+      return {
+        documentActions: [{ type: 'delete_document', documentId: document.id }],
+        message: `Đã xóa tài liệu: "${document.title}"`,
+      };
+    }
+
+    case 'save_doc': {
+      const document = requireCurrentDocument(state);
+      return { documentActions: [], message: `Đã lưu tài liệu: "${document.title}"` };
+    }
+
+    case 'reply_user':
+      return { documentActions: [], message: actionContent };
+  }
+};
+
+/**
+ * Validate the actions in order against a snapshot of the document state.
+ * Either every step applies and the resulting document actions are returned,
+ * or nothing is committed.
+ */
+export const executeAgentActions = (
+  state: DocumentState,
+  actions: AgentAction[],
+  options: ExecuteAgentActionsOptions = {}
+): ActionBatchResult => {
+  let draft = state;
+  const documentActions: DocumentAction[] = [];
+  const messages: string[] = [];
+
+  for (let index = 0; index < actions.length; index++) {
+    const action = actions[index];
+    try {
+      const plan = planAction(draft, action, options);
+      draft = plan.documentActions.reduce(documentReducer, draft);
+      documentActions.push(...plan.documentActions);
+      if (plan.message) messages.push(plan.message);
+    } catch (error) {
+      if (!(error instanceof ActionStepError)) throw error;
+      return { ok: false, failedIndex: index, failedAction: action, error: error.message };
+    }
+  }
+
+  return {
+    ok: true,
+    documentActions,
+    state: draft,
+    messages,
+    stopEditing: actions.some(action => action.type === 'save_doc'),
+  };
+};
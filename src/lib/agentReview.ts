@@ -0,0 +1,139 @@
+import { DocumentAction, DocumentState } from '@/lib/documentReducer';
+import { DiffSegment, HunkDecision, applyHunkDecisions, describeHunk, diffWords, getHunks } from '@/lib/wordDiff';
+
+export interface ReviewPage {
+  documentId: string;
+  documentTitle: string;
+  pageId: string;
+  pageNumber: number;
+  before: string;
+  after: string;
+  segments: DiffSegment[];
+}
+
+// An agent batch held back until the user accepts or rejects its page edits
+export interface ReviewProposal {
+  turnId: string;
+  // State the batch was planned against; the proposal is stale once it changes
+  base: DocumentState;
+  answer: string;
+  documentActions: DocumentAction[];
+  pages: ReviewPage[];
+  decisions: Record<number, HunkDecision>;
+}
+
+export type ReviewCommand =
+  | { kind: 'accept_all' }
+  | { kind: 'reject_all' }
+  | { kind: 'accept'; hunkId: number }
+  | { kind: 'reject'; hunkId: number }
+  | { kind: 'repeat' };
+
+const SPOKEN_NUMBERS: Record<string, number> = {
+  'một': 1, 'nhất': 1, 'hai': 2, 'ba': 3, 'bốn': 4, 'tư': 4, 'năm': 5,
+  'sáu': 6, 'bảy': 7, 'tám': 8, 'chín': 9, 'mười': 10,
+};
+
+// "2", "hai", "thứ hai" -> 2
+export const parseSpokenNumber = (text: string): number | undefined => {
+  const digits = text.match(/\d+/);
+  if (digits) return parseInt(digits[0], 10);
+
+  for (const word of text.toLowerCase().split(/\s+/)) {
+    if (SPOKEN_NUMBERS[word] !== undefined) return SPOKEN_NUMBERS[word];
+  }
+  return undefined;
+};
+
+/**
+ * Build a review for the pages whose content differs between the state before
+ * and after the batch. Returns undefined when no existing page changes.
+ */
+export const buildReviewProposal = (
+  before: DocumentState,
+  after: DocumentState,
+  documentActions: DocumentAction[],
+  turnId: string,
+  answer: string
+): ReviewProposal | undefined => {
+  const pages: ReviewPage[] = [];
+  let nextHunkId = 0;
+
+  for (const document of after.documents) {
+    const original = before.documents.find(doc => doc.id === document.id);
+    if (!original) continue;
+
+    for (const page of document.pages) {
+      const originalPage = original.pages.find(p => p.id === page.id);
+      if (!originalPage || originalPage.content === page.content) continue;
+
+      // Renumber hunks so ids stay unique across pages
+      const segments = diffWords(originalPage.content, page.content).map(segment =>
+        segment.type === 'change' ? { ...segment, hunkId: ++nextHunkId } : segment
+      );
+      pages.push({
+        documentId: document.id,
+        documentTitle: document.title,
+        pageId: page.id,
+        pageNumber: page.page_number,
+        before: originalPage.content,
+        after: page.content,
+        segments,
+      });
+    }
+  }
+
+  if (pages.length === 0) return undefined;
+  return { turnId, base: before, answer, documentActions, pages, decisions: {} };
+};
+
+export const getProposalHunkIds = (proposal: ReviewProposal): number[] =>
+  proposal.pages.flatMap(page => getHunks(page.segments).map(hunk => hunk.hunkId));
+
+export const isProposalDecided = (proposal: ReviewProposal): boolean =>
+  getProposalHunkIds(proposal).every(id => proposal.decisions[id] !== undefined);
+
+/**
+ * Document actions that apply the proposal with the user's decisions: the
+ * original batch plus page rewrites for hunks that were rejected.
+ * Returns an empty list when nothing was accepted.
+ */
+export const resolveProposal = (proposal: ReviewProposal): DocumentAction[] => {
+  const accepted = getProposalHunkIds(proposal).some(id => proposal.decisions[id] === 'accepted');
+  if (!accepted) return [];
+
+  const at = new Date().toISOString();
+  const fixups: DocumentAction[] = [];
+  for (const page of proposal.pages) {
+    const content = applyHunkDecisions(page.segments, proposal.decisions);
+    if (content !== page.after) {
+      fixups.push({ type: 'set_page_content', documentId: page.documentId, pageId: page.pageId, content, at });
+    }
+  }
+  return [...proposal.documentActions, ...fixups];
+};
+
+// Spoken summary of the proposed change, read before asking for confirmation
+export const summarizeProposal = (proposal: ReviewProposal): string => {
+  const parts = proposal.pages.map(page => {
+    const hunks = getHunks(page.segments)
+      .map(hunk => `phần ${hunk.hunkId}: ${describeHunk(hunk)}`)
+      .join('; ');
+    return `Trang ${page.pageNumber}: ${hunks}.`;
+  });
+  const count = getProposalHunkIds(proposal).length;
+  return `Có ${count} thay đổi được đề xuất. ${parts.join(' ')} ` +
+    'Nói "chấp nhận" hoặc "từ chối", hoặc "chấp nhận phần" kèm số thứ tự.';
+};
+
+export const parseReviewCommand = (utterance: string): ReviewCommand | undefined => {
+  const text = utterance.toLowerCase().trim();
+  const accept = /(chấp nhận|đồng ý|áp dụng|accept)/.test(text);
+  const reject = /(từ chối|bỏ qua|không đồng ý|hủy|reject)/.test(text);
+  const part = /(phần|đoạn|thay đổi|part)\s+/.test(text) ? parseSpokenNumber(text.replace(/.*(phần|đoạn|thay đổi|part)\s+/, '')) : undefined;
+
+  if (reject) return part ? { kind: 'reject', hunkId: part } : { kind: 'reject_all' };
+  if (accept) return part ? { kind: 'accept', hunkId: part } : { kind: 'accept_all' };
+  if (/(đọc lại|nhắc lại|thay đổi gì|repeat)/.test(text)) return { kind: 'repeat' };
+  return undefined;
+};
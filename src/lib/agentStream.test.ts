@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { dispatchAgentStreamEvent, getMetadataRunId } from '@/lib/agentStream';
+
+describe('dispatchAgentStreamEvent', () => {
+  it('passes the run id of a metadata event', () => {
+    const metadata = vi.fn();
+    expect(dispatchAgentStreamEvent({ event: 'metadata', data: { run_id: 'run-1', attempt: 1 } }, { metadata })).toBe(true);
+    expect(metadata).toHaveBeenCalledWith({ run_id: 'run-1', attempt: 1 });
+  });
+
+  it('splits the subgraph namespace off the event name', () => {
+    const updates = vi.fn();
+    dispatchAgentStreamEvent({ event: 'updates|tools:1', data: { tools: {} } }, { updates });
+    expect(updates).toHaveBeenCalledWith({ tools: {} }, ['tools:1']);
+  });
+
+  it('unpacks a messages-tuple event', () => {
+    const messages = vi.fn();
+    dispatchAgentStreamEvent({ event: 'messages', data: [{ type: 'AIMessageChunk', content: 'Xin' }, { langgraph_node: 'agent' }] }, { messages });
+    expect(messages).toHaveBeenCalledWith({ type: 'AIMessageChunk', content: 'Xin' }, { langgraph_node: 'agent' }, []);
+  });
+
+  it('hands data of the wrong shape to unhandled instead of the typed handler', () => {
+    const handlers = { metadata: vi.fn(), updates: vi.fn(), messagesComplete: vi.fn(), unhandled: vi.fn() };
+    const events = [
+      { event: 'metadata', data: { attempt: 1 } },
+      { event: 'updates', data: ['not', 'a', 'record'] },
+      { event: 'messages/complete', data: [null] },
+    ];
+
+    for (const event of events) {
+      expect(dispatchAgentStreamEvent(event, handlers)).toBe(false);
+    }
+    expect(handlers.metadata).not.toHaveBeenCalled();
+    expect(handlers.updates).not.toHaveBeenCalled();
+    expect(handlers.messagesComplete).not.toHaveBeenCalled();
+    expect(handlers.unhandled).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('getMetadataRunId', () => {
+  it('only reads string run ids of metadata events', () => {
+    expect(getMetadataRunId({ event: 'metadata', data: { run_id: 'run-1' } })).toBe('run-1');
+    expect(getMetadataRunId({ event: 'metadata', data: { run_id: 1 } })).toBeUndefined();
+    expect(getMetadataRunId({ event: 'values', data: { run_id: 'run-1' } })).toBeUndefined();
+  });
+});
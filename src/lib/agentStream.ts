@@ -0,0 +1,114 @@
+import { AgentInterrupt, AgentMessage, AgentStreamEvent } from '@/types';
+
+// Subgraph events are named "<mode>|<namespace>|..."; the namespace is empty for the root graph
+type Namespace = string[];
+
+export interface AgentStreamHandlers {
+  // First event of every run
+  metadata?: (data: { run_id: string; attempt?: number }) => void;
+  // stream_mode "values": the full state after each step
+  values?: (state: Record<string, unknown>, namespace: Namespace) => void;
+  // stream_mode "updates": { [node]: update }, plus __interrupt__ when the graph pauses
+  updates?: (updates: Record<string, unknown>, namespace: Namespace) => void;
+  // stream_mode "messages-tuple": one token chunk with its run metadata
+  messages?: (message: AgentMessage, metadata: Record<string, unknown>, namespace: Namespace) => void;
+  // stream_mode "messages": the messages so far, then the finished ones
+  messagesPartial?: (messages: AgentMessage[], namespace: Namespace) => void;
+  messagesComplete?: (messages: AgentMessage[], namespace: Namespace) => void;
+  // stream_mode "custom": whatever the graph writes with get_stream_writer()
+  custom?: (data: unknown, namespace: Namespace) => void;
+  // Any event without a handler above
+  unhandled?: (event: AgentStreamEvent) => void;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Messages are only checked to be objects; their fields are all optional
+const toMessages = (data: unknown): AgentMessage[] | undefined =>
+  Array.isArray(data) && data.every(isRecord) ? data as AgentMessage[] : undefined;
+
+// Run id carried by a "metadata" event
+export const getMetadataRunId = (event: AgentStreamEvent): string | undefined =>
+  event.event === 'metadata' && isRecord(event.data) && typeof event.data.run_id === 'string'
+    ? event.data.run_id
+    : undefined;
+
+/**
+ * Route one stream event to its typed handler. Returns false when no handler
+ * took it or its data does not have the shape of its mode (unhandled is still
+ * called). Error and end events never get here: the stream reader turns them
+ * into an exception and the end of iteration.
+ */
+export const dispatchAgentStreamEvent = (event: AgentStreamEvent, handlers: AgentStreamHandlers): boolean => {
+  const [mode, ...namespace] = event.event.split('|');
+  const { data } = event;
+
+  switch (mode) {
+    case 'metadata': {
+      const runId = getMetadataRunId(event);
+      if (!handlers.metadata || runId === undefined || !isRecord(data)) break;
+      handlers.metadata({ run_id: runId, attempt: typeof data.attempt === 'number' ? data.attempt : undefined });
+      return true;
+    }
+    case 'values':
+      if (!handlers.values || !isRecord(data)) break;
+      handlers.values(data, namespace);
+      return true;
+    case 'updates':
+      if (!handlers.updates || !isRecord(data)) break;
+      handlers.updates(data, namespace);
+      return true;
+    case 'messages':
+      // messages-tuple is sent under the "messages" event name
+      if (!handlers.messages || !Array.isArray(data)) break;
+      handlers.messages(isRecord(data[0]) ? data[0] : {}, isRecord(data[1]) ? data[1] : {}, namespace);
+      return true;
+    case 'messages/partial': {
+      const messages = toMessages(data);
+      if (!handlers.messagesPartial || !messages) break;
+      handlers.messagesPartial(messages, namespace);
+      return true;
+    }
+    case 'messages/complete': {
+      const messages = toMessages(data);
+      if (!handlers.messagesComplete || !messages) break;
+      handlers.messagesComplete(messages, namespace);
+      return true;
+    }
+    case 'custom':
+      if (!handlers.custom) break;
+      handlers.custom(data, namespace);
+      return true;
+  }
+
+  handlers.unhandled?.(event);
+  return false;
+};
+
+// Text of a message whose content is a string or a list of content blocks
+export const getMessageText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => typeof block === 'string' ? block : block?.type === 'text' ? block.text ?? '' : '')
+    .join('');
+};
+
+export const isAiMessage = (message: AgentMessage): boolean =>
+  message.type === 'ai' || message.type === 'AIMessageChunk' || message.role === 'assistant';
+
+// The interrupt an "updates" event paused on, if any
+export const getUpdatesInterrupt = (updates: Record<string, unknown>): AgentInterrupt | undefined => {
+  const interrupts = updates?.__interrupt__;
+  return Array.isArray(interrupts) && interrupts.length ? interrupts[0] : undefined;
+};
+
+// Messages written by the nodes of an "updates" event
+export const getUpdatesMessages = (updates: Record<string, unknown>): AgentMessage[] =>
+  Object.entries(updates ?? {})
+    .filter(([node]) => node !== '__interrupt__')
+    .flatMap(([, update]) => {
+      const messages = (update as { messages?: unknown } | null)?.messages;
+      return Array.isArray(messages) ? messages : [];
+    });
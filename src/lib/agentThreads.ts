@@ -0,0 +1,91 @@
+import { AgentMessage, Document, Thread } from '@/types';
+import { getMessageText } from '@/lib/agentStream';
+
+export type ConversationMessage = { role: string; content: string };
+
+type DocumentMetadata = NonNullable<Document['metadata']>;
+
+// Document.metadata key holding the linked thread of each assistant: { [assistantId]: threadId }
+const THREADS_METADATA_KEY = 'agent_threads';
+
+export const getLinkedThreadId = (document: Document, assistantId: string): string | undefined =>
+  document.metadata?.[THREADS_METADATA_KEY]?.[assistantId];
+
+// Metadata update that links the document to the assistant's thread
+export const linkThreadMetadata = (document: Document, assistantId: string, threadId: string): DocumentMetadata => ({
+  [THREADS_METADATA_KEY]: { ...document.metadata?.[THREADS_METADATA_KEY], [assistantId]: threadId },
+});
+
+// Metadata update removing the given threads, or undefined when none is linked
+export const unlinkThreadsMetadata = (document: Document, threadIds: string[]): DocumentMetadata | undefined => {
+  const threads: Record<string, string> = document.metadata?.[THREADS_METADATA_KEY] ?? {};
+  const kept = Object.entries(threads).filter(([, threadId]) => !threadIds.includes(threadId));
+  if (kept.length === Object.keys(threads).length) return undefined;
+  return { [THREADS_METADATA_KEY]: Object.fromEntries(kept) };
+};
+
+export const getDocumentThreadIds = (document: Document): string[] =>
+  Object.values(document.metadata?.[THREADS_METADATA_KEY] ?? {});
+
+// Metadata stored on the server thread, so old threads can be recognised when listed
+export const buildThreadMetadata = (document?: Document): DocumentMetadata => ({
+  purpose: 'document_management',
+  ...(document ? { document_id: document.id, document_title: document.title } : {}),
+});
+
+const MESSAGE_ROLES: Record<string, string> = {
+  human: 'user',
+  user: 'user',
+  ai: 'assistant',
+  assistant: 'assistant',
+};
+
+/**
+ * Rebuild the conversation history from a thread state. Only user and
+ * assistant messages with text are kept; tool calls and system messages
+ * are the graph's own business.
+ */
+export const threadStateToConversation = (state: { values?: { messages?: unknown } } | undefined): ConversationMessage[] => {
+  const messages = state?.values?.messages;
+  if (!Array.isArray(messages)) return [];
+
+  return (messages as AgentMessage[]).flatMap(message => {
+    const role = MESSAGE_ROLES[message?.type ?? message?.role ?? ''];
+    const content = getMessageText(message?.content).trim();
+    return role && content ? [{ role, content }] : [];
+  });
+};
+
+// Threads no document points to any more, except the one in use
+export const findUnusedThreads = (threads: Thread[], documents: Document[], currentThreadId?: string): Thread[] => {
+  const linked = new Set(documents.flatMap(getDocumentThreadIds));
+  return threads.filter(thread => thread.thread_id !== currentThreadId && !linked.has(thread.thread_id));
+};
+
+export const getThreadLabel = (thread: Thread, documents: Document[]): string => {
+  const document = documents.find(doc => getDocumentThreadIds(doc).includes(thread.thread_id));
+  return document?.title || thread.metadata?.document_title || 'Không gắn với tài liệu';
+};
+
+export const describeThreads = (threads: Thread[], documents: Document[], currentThreadId?: string): string => {
+  if (threads.length === 0) return 'Chưa có cuộc trò chuyện nào.';
+
+  const items = threads.map((thread, index) => {
+    const current = thread.thread_id === currentThreadId ? ' (đang dùng)' : '';
+    return `${index + 1}. ${getThreadLabel(thread, documents)}${current}`;
+  });
+  const unused = findUnusedThreads(threads, documents, currentThreadId).length;
+  const hint = unused > 0 ? ` Có ${unused} cuộc trò chuyện không còn dùng, nói "xóa cuộc trò chuyện cũ" để dọn dẹp.` : '';
+  return `Có ${threads.length} cuộc trò chuyện: ${items.join('; ')}.${hint}`;
+};
+
+export type ThreadCommand = { kind: 'list' } | { kind: 'delete_unused' };
+
+// "danh sách cuộc trò chuyện", "xóa cuộc trò chuyện cũ"
+export const parseThreadCommand = (command: string): ThreadCommand | undefined => {
+  const lower = command.toLowerCase().trim();
+  if (!lower.includes('cuộc trò chuyện')) return undefined;
+  if (/(xóa|xoá|dọn)/.test(lower)) return { kind: 'delete_unused' };
+  if (/(danh sách|liệt kê|có những)/.test(lower)) return { kind: 'list' };
+  return undefined;
+};
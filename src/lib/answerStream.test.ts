@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createAnswerSentenceStream } from '@/lib/answerStream';
+import { mentionsDestructiveAction } from '@/lib/confirmation';
+
+const streamTokens = (tokens: string[], shouldStop?: (text: string) => boolean) => {
+  const sentences: string[] = [];
+  const stream = createAnswerSentenceStream(sentence => sentences.push(sentence), shouldStop);
+  tokens.forEach(stream.push);
+  stream.end();
+  return sentences;
+};
+
+describe('createAnswerSentenceStream', () => {
+  it('passes on each sentence of a JSON answer as soon as it is complete', () => {
+    expect(streamTokens(['{"actions": [], "answer": "Xin chào. ', 'Tôi có thể', ' giúp gì?"}'])).toEqual([
+      'Xin chào.',
+      'Tôi có thể giúp gì?',
+    ]);
+  });
+
+  it('reads the legacy Answer: section', () => {
+    expect(streamTokens(['Action: next_page\nAnswer: Đã chuyển', ' trang.'])).toEqual(['Đã chuyển trang.']);
+  });
+
+  it('says nothing once the payload names a destructive action', () => {
+    expect(streamTokens(['{"actions": [{"type": "remove_doc"}], ', '"answer": "Đã xóa tài liệu."}'], mentionsDestructiveAction)).toEqual([]);
+    expect(streamTokens(['Action: delete_page\n', 'Answer: Đã xóa trang.'], mentionsDestructiveAction)).toEqual([]);
+  });
+
+  it('stops in the middle of an answer when the action comes after it', () => {
+    expect(streamTokens(['{"answer": "Được. ', 'Đang xóa.", "actions": [{"type": "delete_page"}]}'], mentionsDestructiveAction)).toEqual([
+      'Được.',
+    ]);
+  });
+
+  it('keeps speaking answers of other actions', () => {
+    expect(streamTokens(['{"actions": [{"type": "add_page"}], "answer": "Đã thêm trang."}'], mentionsDestructiveAction)).toEqual([
+      'Đã thêm trang.',
+    ]);
+  });
+});
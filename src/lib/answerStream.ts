@@ -0,0 +1,101 @@
+// Incremental extraction of the spoken answer from a streamed agent turn
+
+const SENTENCE_END = /[.!?…]/;
+
+// Decode a JSON string body up to its closing quote, or as far as it has arrived
+const decodePartialJsonString = (text: string, start: number): { value: string; closed: boolean } => {
+  let value = '';
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"') return { value, closed: true };
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escape = text[index + 1];
+    if (escape === undefined) break;
+    if (escape === 'u') {
+      const hex = text.slice(index + 2, index + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      index += 5;
+      continue;
+    }
+    value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+    index++;
+  }
+  return { value, closed: false };
+};
+
+/**
+ * The answer part of a partial response: the "answer" field of a JSON payload
+ * or the "Answer:" section of the legacy format. Undefined until it starts.
+ */
+export const extractPartialAnswer = (text: string): { value: string; closed: boolean } | undefined => {
+  const jsonField = text.match(/"answer"\s*:\s*"/);
+  if (jsonField?.index !== undefined) {
+    return decodePartialJsonString(text, jsonField.index + jsonField[0].length);
+  }
+
+  const legacy = text.match(/(?:^|\n)\s*Answer:[ \t]*/);
+  if (legacy?.index !== undefined) {
+    return { value: text.slice(legacy.index + legacy[0].length), closed: false };
+  }
+
+  return undefined;
+};
+
+/**
+ * Feed streamed tokens in; every sentence of the answer is passed to
+ * onSentence as soon as it is complete. end() flushes the last one.
+ * Nothing more is passed on once the response so far matches shouldStop.
+ */
+export const createAnswerSentenceStream = (
+  onSentence: (sentence: string) => void,
+  shouldStop?: (text: string) => boolean
+) => {
+  let text = '';
+  let emitted = 0;
+  let finished = false;
+
+  const emit = (sentence: string) => {
+    const trimmed = sentence.trim();
+    if (trimmed) onSentence(trimmed);
+  };
+
+  const flush = (final: boolean) => {
+    if (finished) return;
+    if (shouldStop?.(text)) {
+      finished = true;
+      return;
+    }
+    const answer = extractPartialAnswer(text);
+    if (!answer) return;
+
+    const { value } = answer;
+    // A sentence is complete once its terminator is followed by whitespace
+    for (let index = emitted; index < value.length; index++) {
+      const char = value[index];
+      const next = value[index + 1];
+      if (char === '\n' || (SENTENCE_END.test(char) && next !== undefined && /\s/.test(next))) {
+        emit(value.slice(emitted, index + 1));
+        emitted = index + 1;
+      }
+    }
+
+    if (final || answer.closed) {
+      emit(value.slice(emitted));
+      emitted = value.length;
+      finished = answer.closed || final;
+    }
+  };
+
+  return {
+    push: (token: string) => {
+      text += token;
+      flush(false);
+    },
+    end: () => flush(true),
+  };
+};
@@ -0,0 +1,48 @@
+import { Assistant } from '@/types';
+import { parseSpokenNumber } from '@/lib/agentReview';
+
+export const getAssistantLabel = (assistant: Assistant): string =>
+  assistant.name || assistant.graph_id || assistant.assistant_id.slice(0, 8);
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Find the assistant the user named: by its number in the spoken list
+ * ("trợ lý số 2") or by (part of) its name or graph id.
+ */
+export const findAssistant = (assistants: Assistant[], spoken: string): Assistant | undefined => {
+  const query = normalize(spoken);
+  if (!query) return undefined;
+
+  // A lone number picks from the spoken list
+  const index = parseSpokenNumber(query);
+  if (index !== undefined && !query.includes(' ')) return assistants[index - 1];
+
+  return assistants.find(assistant =>
+    [assistant.name, assistant.graph_id]
+      .filter((value): value is string => !!value)
+      .some(value => {
+        const name = normalize(value);
+        return name === query || name.includes(query) || query.includes(name);
+      })
+  );
+};
+
+// Spoken list of assistants, numbered from 1 for selection by voice
+export const describeAssistants = (assistants: Assistant[], currentId?: string): string => {
+  if (assistants.length === 0) return 'Không có trợ lý nào trên máy chủ agent.';
+
+  const items = assistants.map((assistant, index) =>
+    `${index + 1}. ${getAssistantLabel(assistant)}${assistant.assistant_id === currentId ? ' (đang dùng)' : ''}`
+  );
+  return `Có ${assistants.length} trợ lý: ${items.join(', ')}. Nói "chọn trợ lý" kèm tên hoặc số để đổi.`;
+};
+
+// Spoken selection command: "chọn trợ lý X", "dùng trợ lý X", "đổi sang trợ lý X"
+export const parseAssistantCommand = (utterance: string): { kind: 'list' } | { kind: 'select'; query: string } | undefined => {
+  const text = utterance.toLowerCase().trim().replace(/[.!?]+$/, '');
+  if (/(danh sách|liệt kê|có những) trợ lý/.test(text)) return { kind: 'list' };
+
+  const match = text.match(/(?:chọn|dùng|sử dụng|đổi sang|chuyển sang)\s+trợ lý\s+(?:số\s+)?(.+)/);
+  return match ? { kind: 'select', query: match[1].trim() } : undefined;
+};
@@ -0,0 +1,52 @@
+// Resolves once the source buffer has taken the chunk
+const appendChunk = (sourceBuffer: SourceBuffer, chunk: Uint8Array) =>
+  new Promise<void>((resolve, reject) => {
+    const onUpdateEnd = () => {
+      sourceBuffer.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      sourceBuffer.removeEventListener('updateend', onUpdateEnd);
+      reject(new Error('Could not buffer audio'));
+    };
+    sourceBuffer.addEventListener('updateend', onUpdateEnd, { once: true });
+    sourceBuffer.addEventListener('error', onError, { once: true });
+    sourceBuffer.appendBuffer(chunk as BufferSource);
+  });
+
+/**
+ * Turn an audio response into a URL for an audio element. When the browser
+ * can decode the format through MediaSource, playback starts with the first
+ * chunk instead of after the whole download; otherwise the body is buffered.
+ * Revoke the URL with URL.revokeObjectURL when done.
+ */
+export const createAudioStreamUrl = async (response: Response): Promise<string> => {
+  const contentType = response.headers.get('Content-Type')?.split(';')[0].trim() || 'audio/mpeg';
+  const body = response.body;
+  if (!body || typeof MediaSource === 'undefined' || !MediaSource.isTypeSupported(contentType)) {
+    return URL.createObjectURL(await response.blob());
+  }
+
+  const mediaSource = new MediaSource();
+  // Fires once the URL is attached to a media element
+  mediaSource.addEventListener('sourceopen', async () => {
+    const reader = body.getReader();
+    try {
+      const sourceBuffer = mediaSource.addSourceBuffer(contentType);
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await appendChunk(sourceBuffer, value);
+      }
+      if (mediaSource.readyState === 'open') mediaSource.endOfStream();
+    } catch (error) {
+      // Also lands here when the element was pointed elsewhere mid-stream
+      reader.cancel().catch(() => undefined);
+      if (mediaSource.readyState === 'open') {
+        console.error('❌ Audio stream failed:', error);
+        mediaSource.endOfStream('network');
+      }
+    }
+  }, { once: true });
+  return URL.createObjectURL(mediaSource);
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { describeReplay } from '@/lib/commandQueue';
+import { QueuedCommand } from '@/types';
+
+const command = (text: string): QueuedCommand => ({ id: text, text, queued_at: '2024-01-01T00:00:00.000Z' });
+
+describe('describeReplay', () => {
+  it('words conflicts and failures differently', () => {
+    expect(describeReplay([
+      { status: 'succeeded', command: command('trang tiếp') },
+      { status: 'conflicted', command: command('xóa trang'), reason: 'trang đã bị sửa' },
+      { status: 'failed', command: command('lưu'), reason: 'trợ lý không phản hồi' },
+    ], 0)).toBe(
+      'Đã gửi lại 3 lệnh đã lưu: 1 lệnh thành công. Lệnh "xóa trang" bị xung đột: trang đã bị sửa. ' +
+      'Lệnh "lưu" không thực hiện được: trợ lý không phản hồi.'
+    );
+  });
+
+  it('ends with the questions of pending commands', () => {
+    expect(describeReplay([{ status: 'pending', command: command('xóa tài liệu'), prompt: 'Xóa tài liệu?' }], 2)).toBe(
+      'Đã gửi lại 1 lệnh đã lưu: 0 lệnh thành công. Còn 2 lệnh chờ gửi. Lệnh "xóa tài liệu": Xóa tài liệu?'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { v4 as uuidv4 } from 'uuid';
+import { QueuedCommand } from '@/types';
+import { DocumentState, selectCurrentDocument, selectCurrentPage } from '@/lib/documentReducer';
+
+export type ReplayOutcome =
+  | { status: 'succeeded'; command: QueuedCommand }
+  // The document or page changed since the command was spoken: it was not sent
+  | { status: 'conflicted'; command: QueuedCommand; reason: string }
+  // Sent, but the agent failed it or its actions could not be applied
+  | { status: 'failed'; command: QueuedCommand; reason: string }
+  // Replayed, but waiting for a spoken confirmation or a review decision
+  | { status: 'pending'; command: QueuedCommand; prompt: string };
+
+// Capture a command together with the document and page it was spoken in
+export const createQueuedCommand = (text: string, state: DocumentState): QueuedCommand => {
+  const document = selectCurrentDocument(state);
+  const page = selectCurrentPage(document);
+  return {
+    id: uuidv4(),
+    text,
+    queued_at: new Date().toISOString(),
+    document_id: document?.id,
+    page_id: page?.id,
+    page_number: page?.page_number,
+    page_content: page?.content,
+  };
+};
+
+/**
+ * Why a queued command can no longer be replayed as spoken, if it can't.
+ * Check against the state from before the replay started, so edits made by
+ * earlier replayed commands don't count as conflicts.
+ */
+export const findQueuedCommandConflict = (state: DocumentState, command: QueuedCommand): string | undefined => {
+  if (!command.document_id) return undefined;
+
+  const document = state.documents.find(doc => doc.id === command.document_id);
+  if (!document) return 'tài liệu đã bị xóa';
+  if (!command.page_id) return undefined;
+
+  const page = document.pages.find(p => p.id === command.page_id);
+  if (!page) return `trang ${command.page_number ?? ''} đã bị xóa`;
+  if (command.page_content !== undefined && page.content !== command.page_content) {
+    return `trang ${page.page_number} đã được sửa sau khi bạn nói lệnh này`;
+  }
+  return undefined;
+};
+
+// Spoken summary of a replay, e.g. "Đã gửi lại 3 lệnh đã lưu: 1 lệnh thành công. Lệnh "…" bị xung đột: …
+// Lệnh "…" không thực hiện được: …"
+export const describeReplay = (outcomes: ReplayOutcome[], remaining: number): string => {
+  const succeeded = outcomes.filter(outcome => outcome.status === 'succeeded').length;
+  const parts = [`Đã gửi lại ${outcomes.length} lệnh đã lưu: ${succeeded} lệnh thành công.`];
+
+  for (const outcome of outcomes) {
+    if (outcome.status === 'conflicted') {
+      parts.push(`Lệnh "${outcome.command.text}" bị xung đột: ${outcome.reason}.`);
+    } else if (outcome.status === 'failed') {
+      parts.push(`Lệnh "${outcome.command.text}" không thực hiện được: ${outcome.reason}.`);
+    }
+  }
+  if (remaining > 0) {
+    parts.push(`Còn ${remaining} lệnh chờ gửi.`);
+  }
+  // Last, so the question is what the user answers
+  for (const outcome of outcomes) {
+    if (outcome.status === 'pending') {
+      parts.push(`Lệnh "${outcome.command.text}": ${outcome.prompt}`);
+    }
+  }
+  return parts.join(' ');
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { classifyConfirmation } from '@/lib/confirmation';
+
+describe('classifyConfirmation', () => {
+  it('reads plain yes and no replies', () => {
+    expect(classifyConfirmation('Có.')).toBe('yes');
+    expect(classifyConfirmation('đồng ý')).toBe('yes');
+    expect(classifyConfirmation('không')).toBe('no');
+    expect(classifyConfirmation('thôi, đừng xóa')).toBe('no');
+  });
+
+  it('reads a negated yes as no', () => {
+    expect(classifyConfirmation('không đồng ý')).toBe('no');
+    expect(classifyConfirmation('chắc chắn không')).toBe('no');
+  });
+
+  it('reads yes replies that go on with an agreeing "không"', () => {
+    expect(classifyConfirmation('có, không sao')).toBe('yes');
+    expect(classifyConfirmation('xóa đi, không cần giữ')).toBe('yes');
+    expect(classifyConfirmation('chắc chắn không sai')).toBe('yes');
+    expect(classifyConfirmation('không sao đâu')).toBe('yes');
+  });
+
+  it('still refuses when a no follows the agreeing phrase', () => {
+    expect(classifyConfirmation('không sao, nhưng thôi đừng xóa')).toBe('no');
+  });
+
+  it('leaves other replies unanswered', () => {
+    expect(classifyConfirmation('để tôi nghĩ đã')).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { AgentAction, AgentActionType, AgentInterrupt } from '@/types';
+import { DocumentState, selectCurrentDocument } from '@/lib/documentReducer';
+import { executeAgentActions } from '@/lib/agentBatch';
+
+export type ConfirmationAnswer = 'yes' | 'no';
+
+// Something destructive that waits for a spoken yes/no before it runs
+export type PendingConfirmation =
+  | {
+      // The agent graph paused with interrupt(); the answer resumes the run
+      kind: 'interrupt';
+      question: string;
+      threadId: string;
+      assistantId: string;
+      turnId: string;
+    }
+  | {
+      // Actions executed by the frontend, held until the user confirms
+      kind: 'actions';
+      question: string;
+      actions: AgentAction[];
+      answer: string;
+      turnId: string;
+    }
+  | {
+      // Old agent threads picked for deletion by "xóa cuộc trò chuyện cũ"
+      kind: 'delete_threads';
+      question: string;
+      threadIds: string[];
+    };
+
+export const DESTRUCTIVE_ACTIONS: AgentActionType[] = ['remove_doc', 'delete_page'];
+
+export const isDestructiveAction = (action: AgentAction): boolean => DESTRUCTIVE_ACTIONS.includes(action.type);
+
+// Whether a partial agent response already names a destructive action, in any of the payload formats
+export const mentionsDestructiveAction = (text: string): boolean =>
+  DESTRUCTIVE_ACTIONS.some(type => new RegExp(`\\b${type}\\b`, 'i').test(text));
+
+// Whole words or phrases. No is checked first: "không đồng ý" contains "đồng ý"
+const NO_PHRASES = ['không', 'ko', 'đừng', 'thôi', 'hủy', 'huỷ', 'sai', 'no', 'nope', 'cancel', 'dont', "don't"];
+const YES_PHRASES = [
+  'có', 'đồng ý', 'chắc chắn', 'chắc', 'đúng', 'đúng vậy', 'xóa đi', 'xác nhận',
+  'ok', 'okay', 'ừ', 'vâng', 'dạ', 'yes', 'yeah', 'sure',
+];
+// Replies with "không" that still agree: "có, không sao", "xóa đi, không cần giữ", "chắc chắn không sai"
+const AGREEING_NO_PHRASES = [
+  'không vấn đề gì', 'không vấn đề', 'không sao', 'không sai', 'không cần giữ', 'không cần nữa',
+];
+
+/**
+ * Classify a spoken reply to a confirmation question.
+ * Returns undefined when the reply is neither a clear yes nor a clear no.
+ */
+export const classifyConfirmation = (utterance: string): ConfirmationAnswer | undefined => {
+  // Pad with spaces so phrases only match whole words (\b does not handle Vietnamese letters)
+  let text = ` ${utterance.toLowerCase().replace(/[.,!?;:]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+  const matches = (phrases: string[]) => phrases.some(phrase => text.includes(` ${phrase} `));
+
+  // Taken out before looking for a no, so their "không" does not count
+  const agrees = matches(AGREEING_NO_PHRASES);
+  for (const phrase of AGREEING_NO_PHRASES) {
+    text = text.split(` ${phrase} `).join(' ');
+  }
+
+  if (matches(NO_PHRASES)) return 'no';
+  if (agrees || matches(YES_PHRASES)) return 'yes';
+  return undefined;
+};
+
+// Spoken question for one destructive action, using the state it will apply to
+const describeDestructiveAction = (state: DocumentState, action: AgentAction): string => {
+  const document = selectCurrentDocument(state);
+  if (action.type === 'remove_doc') {
+    return `xóa tài liệu "${document?.title ?? ''}"`;
+  }
+  return `xóa trang ${document?.current_page ?? ''}${document ? ` của tài liệu "${document.title}"` : ''}`;
+};
+
+/**
+ * Question asked before running a batch with destructive actions, or undefined
+ * when the batch needs no confirmation. Each action is described against the
+ * state left by the steps before it.
+ */
+export const buildConfirmationQuestion = (state: DocumentState, actions: AgentAction[]): string | undefined => {
+  const descriptions: string[] = [];
+  actions.forEach((action, index) => {
+    if (!isDestructiveAction(action)) return;
+    const prefix = executeAgentActions(state, actions.slice(0, index));
+    descriptions.push(describeDestructiveAction(prefix.ok ? prefix.state : state, action));
+  });
+
+  if (descriptions.length === 0) return undefined;
+  return `Bạn có chắc muốn ${descriptions.join(' và ')} không? Hãy trả lời có hoặc không.`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Question for an agent interrupt: a string value, or a "question"/"message" field
+export const getInterruptQuestion = (interrupt: AgentInterrupt): string => {
+  const { value } = interrupt;
+  if (typeof value === 'string' && value.trim()) return value.trim();
+
+  if (isRecord(value)) {
+    for (const key of ['question', 'message', 'content']) {
+      const field = value[key];
+      if (typeof field === 'string' && field.trim()) return field.trim();
+    }
+    if (value.action === 'remove_doc') return 'Bạn có chắc muốn xóa tài liệu này không?';
+    if (value.action === 'delete_page') return 'Bạn có chắc muốn xóa trang này không?';
+  }
+
+  return 'Bạn có chắc muốn tiếp tục không?';
+};
@@ -0,0 +1,13 @@
+import { SpokenPhraseMatch, findSpokenPhrase } from '@/lib/spokenPhrase';
+
+// Spoken switches between command mode and dictation
+export const DICTATION_START_PHRASES = ['bắt đầu đọc chính tả'];
+export const DICTATION_STOP_PHRASES = ['kết thúc đọc chính tả', 'dừng đọc chính tả'];
+
+/**
+ * The phrase that leaves the current mode, if the utterance contains it:
+ * the start phrase in command mode, a stop phrase while dictating. Text
+ * around it is kept, so "kết thúc đọc chính tả" can end a dictated sentence.
+ */
+export const findDictationSwitch = (utterance: string, isDictating: boolean): SpokenPhraseMatch | undefined =>
+  findSpokenPhrase(utterance, isDictating ? DICTATION_STOP_PHRASES : DICTATION_START_PHRASES);
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Document, DocumentPage } from '@/types';
+import { DocumentHistoryAction, DocumentHistoryState, documentHistoryReducer } from '@/lib/documentHistory';
+import { DocumentAction, selectCurrentDocument, selectCurrentPage } from '@/lib/documentReducer';
+
+const T0 = '2026-01-01T00:00:00.000Z';
+const T1 = '2026-01-02T00:00:00.000Z';
+
+const page = (pageNumber: number, content = ''): DocumentPage => ({
+  id: `page-${pageNumber}`,
+  title: '',
+  content,
+  page_number: pageNumber,
+  created_at: T0,
+  updated_at: T0,
+});
+
+const document = (id: string, pages: DocumentPage[]): Document => ({
+  id,
+  title: 'Tài liệu',
+  pages,
+  current_page: 1,
+  created_at: T0,
+  updated_at: T0,
+});
+
+const run = (actions: (DocumentAction | DocumentHistoryAction['type'])[]): DocumentHistoryState => {
+  const hydrated = documentHistoryReducer(
+    { present: { documents: [] }, past: [], future: [] },
+    {
+      type: 'apply',
+      action: {
+        type: 'hydrate',
+        documents: [document('doc-1', [page(1, 'một'), page(2, 'hai')]), document('doc-2', [page(1, 'khác')])],
+        currentDocumentId: 'doc-1',
+      },
+    }
+  );
+  return actions.reduce<DocumentHistoryState>(
+    (history, action) => documentHistoryReducer(history, typeof action === 'string' ? { type: action } as DocumentHistoryAction : { type: 'apply', action }),
+    hydrated
+  );
+};
+
+const find = (history: DocumentHistoryState, id: string) => history.present.documents.find(doc => doc.id === id)!;
+
+describe('documentHistoryReducer', () => {
+  it('records content changes and undoes and redoes them', () => {
+    const edited = run([{ type: 'append_to_page', content: 'thêm', at: T1 }]);
+    expect(edited.past.map(entry => entry.label)).toEqual(['thêm nội dung vào trang 1']);
+
+    const undone = documentHistoryReducer(edited, { type: 'undo' });
+    expect(find(undone, 'doc-1').pages[0].content).toBe('một');
+    expect(find(documentHistoryReducer(undone, { type: 'redo' }), 'doc-1').pages[0].content).toBe('một\nthêm');
+  });
+
+  it('does not record navigation or metadata', () => {
+    const history = run([{ type: 'next_page' }, { type: 'set_document_metadata', documentId: 'doc-1', metadata: { thread_id: 't' } }]);
+    expect(history.past).toHaveLength(0);
+  });
+
+  it('keeps a thread linked after the edit when that edit is undone', () => {
+    const history = run([
+      { type: 'append_to_page', content: 'thêm', at: T1 },
+      { type: 'set_document_metadata', documentId: 'doc-1', metadata: { thread_id: 'thread-1' } },
+      'undo',
+    ]);
+    expect(find(history, 'doc-1').pages[0].content).toBe('một');
+    expect(find(history, 'doc-1').metadata).toEqual({ thread_id: 'thread-1' });
+
+    expect(find(documentHistoryReducer(history, { type: 'redo' }), 'doc-1').metadata).toEqual({ thread_id: 'thread-1' });
+  });
+
+  it('stays on the open document and page when an earlier edit is undone', () => {
+    const history = run([
+      { type: 'append_to_page', content: 'thêm', at: T1 },
+      { type: 'next_page' },
+      { type: 'select_document', documentId: 'doc-2' },
+      'undo',
+    ]);
+    expect(find(history, 'doc-1').pages[0].content).toBe('một');
+    expect(history.present.currentDocumentId).toBe('doc-2');
+    expect(find(history, 'doc-1').current_page).toBe(2);
+  });
+
+  it('moves to an existing page when the page it was on is undone', () => {
+    const history = run([{ type: 'add_page', page: page(3), at: T1 }, 'undo']);
+    const doc = selectCurrentDocument(history.present)!;
+    expect(doc.pages).toHaveLength(2);
+    expect(selectCurrentPage(doc)?.page_number).toBe(2);
+  });
+
+  it('falls back to the selection of the snapshot when the open document is undone', () => {
+    const history = run([{ type: 'create_document', document: document('doc-3', [page(1)]) }, 'undo']);
+    expect(history.present.documents.map(doc => doc.id)).toEqual(['doc-1', 'doc-2']);
+    expect(history.present.currentDocumentId).toBe('doc-1');
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  DocumentAction,
+  DocumentState,
+  documentReducer,
+  initialDocumentState,
+  selectCurrentDocument,
+} from '@/lib/documentReducer';
+
+const MAX_HISTORY_LENGTH = 50;
+
+export type ChangeSource = 'agent' | 'local' | 'manual';
+
+export interface HistoryEntry {
+  // Spoken description, e.g. "viết lại trang 2"
+  label: string;
+  source: ChangeSource;
+  // Agent turn that produced the change, if any
+  turnId?: string;
+  actionTypes: DocumentAction['type'][];
+  before: DocumentState;
+  after: DocumentState;
+}
+
+export interface DocumentHistoryState {
+  present: DocumentState;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type DocumentHistoryAction =
+  | { type: 'apply'; action: DocumentAction; source?: ChangeSource; turnId?: string }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export const initialDocumentHistoryState: DocumentHistoryState = {
+  present: initialDocumentState,
+  past: [],
+  future: [],
+};
+
+// Navigation, selection and bookkeeping metadata don't change the content: they are not recorded
+const UNRECORDED_ACTIONS: DocumentAction['type'][] = [
+  'hydrate', 'select_document', 'set_document_metadata', 'go_to_page', 'next_page', 'prev_page',
+];
+
+// The documents of a history snapshot, with what is not recorded (metadata such as the linked
+// agent thread, the open document, the page position) carried over from the present state
+const restoreSnapshot = (snapshot: DocumentState, present: DocumentState): DocumentState => {
+  const documents = snapshot.documents.map(document => {
+    const current = present.documents.find(doc => doc.id === document.id);
+    if (!current) return document;
+    return {
+      ...document,
+      metadata: current.metadata,
+      current_page: Math.min(Math.max(current.current_page, 1), Math.max(document.pages.length, 1)),
+    };
+  });
+  const keepsSelection = present.currentDocumentId === undefined
+    || documents.some(doc => doc.id === present.currentDocumentId);
+  return { documents, currentDocumentId: keepsSelection ? present.currentDocumentId : snapshot.currentDocumentId };
+};
+
+const flattenActions = (action: DocumentAction): DocumentAction[] =>
+  action.type === 'batch' ? action.actions.flatMap(flattenActions) : [action];
+
+// Vietnamese description of one action, using the state it was applied to
+const describeAction = (state: DocumentState, action: DocumentAction): string | undefined => {
+  const document = selectCurrentDocument(state);
+  const page = document?.current_page;
+
+  switch (action.type) {
+    case 'create_document':
+      return `tạo tài liệu "${action.document.title}"`;
+    case 'delete_document': {
+      const deleted = state.documents.find(doc => doc.id === action.documentId);
+      return `xóa tài liệu "${deleted?.title ?? ''}"`;
+    }
+    case 'set_document_title':
+      return `đặt tiêu đề tài liệu "${action.title}"`;
+    case 'append_to_page':
+      return `thêm nội dung vào trang ${page}`;
+    case 'rewrite_page':
+      return `viết lại trang ${page}`;
+    case 'set_page_title':
+      return `đặt tiêu đề trang ${page}`;
+    case 'save_page':
+      return `lưu trang ${page}`;
+    case 'set_page_content': {
+      const target = state.documents
+        .find(doc => doc.id === action.documentId)?.pages
+        .find(p => p.id === action.pageId);
+      return `sửa trang ${target?.page_number ?? ''}`;
+    }
+    case 'add_page':
+      return `thêm trang ${(document?.pages.length ?? 0) + 1}`;
+    case 'delete_page':
+      return `xóa trang ${page}`;
+    default:
+      return undefined;
+  }
+};
+
+const describeChange = (state: DocumentState, action: DocumentAction): string => {
+  const labels: string[] = [];
+  let draft = state;
+  for (const step of flattenActions(action)) {
+    const label = describeAction(draft, step);
+    if (label) labels.push(label);
+    draft = documentReducer(draft, step);
+  }
+  return labels.join(', ');
+};
+
+/**
+ * Undo/redo wrapper around documentReducer. Every recorded entry keeps the
+ * state before and after the change together with what caused it; undo and
+ * redo only bring back the documents' content.
+ */
+export const documentHistoryReducer = (
+  history: DocumentHistoryState,
+  action: DocumentHistoryAction
+): DocumentHistoryState => {
+  switch (action.type) {
+    case 'apply': {
+      const { action: documentAction } = action;
+
+      // Loading a new workspace starts a fresh history
+      if (documentAction.type === 'hydrate') {
+        return { present: documentReducer(history.present, documentAction), past: [], future: [] };
+      }
+
+      const present = documentReducer(history.present, documentAction);
+      if (present === history.present) return history;
+
+      const actionTypes = flattenActions(documentAction)
+        .map(step => step.type)
+        .filter(type => !UNRECORDED_ACTIONS.includes(type));
+      if (actionTypes.length === 0) {
+        return { ...history, present };
+      }
+
+      const entry: HistoryEntry = {
+        label: describeChange(history.present, documentAction),
+        source: action.source ?? 'manual',
+        turnId: action.turnId,
+        actionTypes,
+        before: history.present,
+        after: present,
+      };
+
+      return {
+        present,
+        past: [...history.past, entry].slice(-MAX_HISTORY_LENGTH),
+        future: [],
+      };
+    }
+
+    case 'undo': {
+      const entry = history.past[history.past.length - 1];
+      if (!entry) return history;
+      return {
+        present: restoreSnapshot(entry.before, history.present),
+        past: history.past.slice(0, -1),
+        future: [entry, ...history.future],
+      };
+    }
+
+    case 'redo': {
+      const entry = history.future[0];
+      if (!entry) return history;
+      return {
+        present: restoreSnapshot(entry.after, history.present),
+        past: [...history.past, entry],
+        future: history.future.slice(1),
+      };
+    }
+
+    default:
+      return history;
+  }
+};
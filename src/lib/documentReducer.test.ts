@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { Document, DocumentPage } from '@/types';
+import {
+  DocumentState,
+  documentReducer,
+  selectCurrentDocument,
+  selectCurrentPage,
+} from '@/lib/documentReducer';
+
+const T0 = '2026-01-01T00:00:00.000Z';
+const T1 = '2026-01-02T00:00:00.000Z';
+
+const page = (pageNumber: number, content = ''): DocumentPage => ({
+  id: `page-${pageNumber}`,
+  title: '',
+  content,
+  page_number: pageNumber,
+  created_at: T0,
+  updated_at: T0,
+});
+
+const document = (pages: DocumentPage[], currentPage = 1, id = 'doc-1'): Document => ({
+  id,
+  title: 'Tài liệu',
+  pages,
+  current_page: currentPage,
+  created_at: T0,
+  updated_at: T0,
+});
+
+const stateWith = (doc: Document): DocumentState => ({ documents: [doc], currentDocumentId: doc.id });
+
+const current = (state: DocumentState) => selectCurrentDocument(state)!;
+
+describe('documentReducer', () => {
+  describe('delete_page', () => {
+    it('keeps the only page of a document', () => {
+      const state = stateWith(document([page(1, 'nội dung')]));
+      expect(documentReducer(state, { type: 'delete_page', at: T1 })).toBe(state);
+    });
+
+    it('renumbers the pages after the deleted one', () => {
+      const state = stateWith(document([page(1), page(2), page(3)], 2));
+      const next = current(documentReducer(state, { type: 'delete_page', at: T1 }));
+
+      expect(next.pages.map(p => [p.id, p.page_number])).toEqual([['page-1', 1], ['page-3', 2]]);
+      expect(next.current_page).toBe(2);
+      expect(next.updated_at).toBe(T1);
+    });
+
+    it('moves to the new last page when the last page is deleted', () => {
+      const state = stateWith(document([page(1), page(2)], 2));
+      const next = current(documentReducer(state, { type: 'delete_page', at: T1 }));
+
+      expect(next.pages).toHaveLength(1);
+      expect(next.current_page).toBe(1);
+    });
+  });
+
+  describe('next_page / prev_page', () => {
+    it('stays on the last page', () => {
+      const state = stateWith(document([page(1), page(2)], 2));
+      expect(documentReducer(state, { type: 'next_page' })).toBe(state);
+    });
+
+    it('stays on the first page', () => {
+      const state = stateWith(document([page(1), page(2)], 1));
+      expect(documentReducer(state, { type: 'prev_page' })).toBe(state);
+    });
+
+    it('moves between pages without touching updated_at', () => {
+      const state = stateWith(document([page(1), page(2)], 1));
+      const next = current(documentReducer(state, { type: 'next_page' }));
+      expect(next.current_page).toBe(2);
+      expect(next.updated_at).toBe(T0);
+      expect(current(documentReducer(stateWith(next), { type: 'prev_page' })).current_page).toBe(1);
+    });
+
+    it('clamps go_to_page to the existing pages', () => {
+      const state = stateWith(document([page(1), page(2), page(3)], 1));
+      expect(current(documentReducer(state, { type: 'go_to_page', pageNumber: 9 })).current_page).toBe(3);
+      expect(current(documentReducer(state, { type: 'go_to_page', pageNumber: 0 })).current_page).toBe(1);
+    });
+  });
+
+  describe('add_page', () => {
+    it('appends the page with the next number and opens it', () => {
+      const state = stateWith(document([page(1), page(2)], 1));
+      const next = current(documentReducer(state, { type: 'add_page', page: { ...page(0), id: 'new' }, at: T1 }));
+
+      expect(next.pages.at(-1)).toMatchObject({ id: 'new', page_number: 3 });
+      expect(next.current_page).toBe(3);
+    });
+  });
+
+  describe('append_to_page', () => {
+    const append = (content: string, added: string, inline?: boolean) =>
+      selectCurrentPage(current(documentReducer(stateWith(document([page(1, content)])), {
+        type: 'append_to_page', content: added, at: T1, inline,
+      })))!.content;
+
+    it('starts a new line by default', () => {
+      expect(append('Dòng một', 'Dòng hai')).toBe('Dòng một\nDòng hai');
+    });
+
+    it('does not add a separator to an empty page', () => {
+      expect(append('', 'Xin chào')).toBe('Xin chào');
+      expect(append('', 'Xin chào', true)).toBe('Xin chào');
+    });
+
+    it('continues the last line when inline', () => {
+      expect(append('Xin chào', 'các bạn', true)).toBe('Xin chào các bạn');
+    });
+
+    it('puts no space before punctuation or after trailing whitespace when inline', () => {
+      expect(append('Xin chào', ', các bạn', true)).toBe('Xin chào, các bạn');
+      expect(append('Xin chào', '.', true)).toBe('Xin chào.');
+      expect(append('Xin chào\n', 'các bạn', true)).toBe('Xin chào\ncác bạn');
+    });
+
+    it('updates the page and document timestamps', () => {
+      const state = stateWith(document([page(1, 'a')]));
+      const next = current(documentReducer(state, { type: 'append_to_page', content: 'b', at: T1 }));
+      expect(next.updated_at).toBe(T1);
+      expect(next.pages[0].updated_at).toBe(T1);
+    });
+  });
+
+  describe('batch', () => {
+    it('applies the actions in order as one transition', () => {
+      const state = stateWith(document([page(1, 'Trang một')]));
+      const next = documentReducer(state, {
+        type: 'batch',
+        actions: [
+          { type: 'add_page', page: { ...page(0), id: 'new' }, at: T1 },
+          { type: 'append_to_page', content: 'Trang hai', at: T1 },
+          { type: 'set_document_title', title: 'Báo cáo', at: T1 },
+        ],
+      });
+
+      const doc = current(next);
+      expect(doc.title).toBe('Báo cáo');
+      expect(doc.pages.map(p => p.content)).toEqual(['Trang một', 'Trang hai']);
+      expect(doc.current_page).toBe(2);
+    });
+
+    it('returns the same state when nothing changes', () => {
+      const state = stateWith(document([page(1)]));
+      expect(documentReducer(state, { type: 'batch', actions: [{ type: 'prev_page' }, { type: 'delete_page', at: T1 }] })).toBe(state);
+    });
+  });
+
+  describe('documents', () => {
+    it('closes the deleted document when it was open', () => {
+      const state: DocumentState = {
+        documents: [document([page(1)], 1, 'a'), document([page(1)], 1, 'b')],
+        currentDocumentId: 'a',
+      };
+      const next = documentReducer(state, { type: 'delete_document', documentId: 'a' });
+      expect(next.documents.map(doc => doc.id)).toEqual(['b']);
+      expect(next.currentDocumentId).toBeUndefined();
+    });
+
+    it('ignores selecting a document that does not exist', () => {
+      const state = stateWith(document([page(1)]));
+      expect(documentReducer(state, { type: 'select_document', documentId: 'missing' })).toBe(state);
+    });
+
+    it('does nothing to the current page without an open document', () => {
+      const state: DocumentState = { documents: [document([page(1)])], currentDocumentId: undefined };
+      expect(documentReducer(state, { type: 'append_to_page', content: 'x', at: T1 })).toBe(state);
+    });
+
+    it('merges metadata without touching updated_at', () => {
+      const state = stateWith({ ...document([page(1)]), metadata: { a: 1 } });
+      const next = current(documentReducer(state, { type: 'set_document_metadata', documentId: 'doc-1', metadata: { b: 2 } }));
+      expect(next.metadata).toEqual({ a: 1, b: 2 });
+      expect(next.updated_at).toBe(T0);
+    });
+  });
+});
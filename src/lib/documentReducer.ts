@@ -0,0 +1,228 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Document, DocumentPage } from '@/types';
+
+export interface DocumentState {
+  documents: Document[];
+  currentDocumentId?: string;
+}
+
+/**
+ * Every change to the document state goes through one of these actions.
+ * Ids and timestamps are carried by the action (see the creators below) so the
+ * reducer stays pure.
+ */
+export type DocumentAction =
+  | { type: 'hydrate'; documents: Document[]; currentDocumentId?: string }
+  | { type: 'select_document'; documentId?: string }
+  | { type: 'create_document'; document: Document }
+  | { type: 'delete_document'; documentId: string }
+  | { type: 'set_document_title'; title: string; at: string }
+  // Starts a new line unless inline, which continues the last one (dictation)
+  | { type: 'append_to_page'; content: string; at: string; inline?: boolean }
+  | { type: 'rewrite_page'; content: string; at: string }
+  | { type: 'set_page_title'; title: string; at: string }
+  | { type: 'save_page'; title: string; content: string; at: string }
+  // Targets a page by id rather than the current page (used when applying reviewed hunks)
+  | { type: 'set_page_content'; documentId: string; pageId: string; content: string; at: string }
+  | { type: 'add_page'; page: DocumentPage; at: string }
+  // Merged into Document.metadata without touching updated_at (e.g. the linked agent thread)
+  | { type: 'set_document_metadata'; documentId: string; metadata: NonNullable<Document['metadata']> }
+  | { type: 'delete_page'; at: string }
+  | { type: 'go_to_page'; pageNumber: number }
+  | { type: 'next_page' }
+  | { type: 'prev_page' }
+  // Applied in order as a single state transition
+  | { type: 'batch'; actions: DocumentAction[] };
+
+export const initialDocumentState: DocumentState = {
+  documents: [],
+  currentDocumentId: undefined,
+};
+
+// Selectors
+export const selectCurrentDocument = (state: DocumentState): Document | undefined =>
+  state.documents.find(doc => doc.id === state.currentDocumentId);
+
+export const selectCurrentPage = (document?: Document): DocumentPage | undefined =>
+  document?.pages.find(page => page.page_number === document.current_page);
+
+// Action creators for actions that need fresh ids or timestamps
+export const createDocument = (data: { title?: string; content?: string; pageTitle?: string } = {}): Document => {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    title: data.title || 'Tài liệu mới',
+    pages: [{
+      id: uuidv4(),
+      title: data.pageTitle || '',
+      content: data.content || '',
+      page_number: 1,
+      created_at: now,
+      updated_at: now,
+    }],
+    current_page: 1,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+export const createPage = (title = ''): DocumentPage => {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    title,
+    content: '',
+    // Assigned by the reducer when the page is added
+    page_number: 0,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+const updateCurrentDocument = (state: DocumentState, update: (document: Document) => Document): DocumentState => {
+  const current = selectCurrentDocument(state);
+  if (!current) return state;
+
+  const updated = update(current);
+  if (updated === current) return state;
+
+  return {
+    ...state,
+    documents: state.documents.map(doc => doc.id === current.id ? updated : doc),
+  };
+};
+
+const updateCurrentPage = (
+  state: DocumentState,
+  at: string,
+  update: (page: DocumentPage) => Partial<DocumentPage>
+): DocumentState => updateCurrentDocument(state, document => {
+  const page = selectCurrentPage(document);
+  if (!page) return document;
+
+  return {
+    ...document,
+    pages: document.pages.map(p => p.id === page.id ? { ...p, ...update(p), updated_at: at } : p),
+    updated_at: at,
+  };
+});
+
+const goToPage = (document: Document, pageNumber: number): Document => {
+  const target = Math.min(Math.max(pageNumber, 1), document.pages.length);
+  return target === document.current_page ? document : { ...document, current_page: target };
+};
+
+export const documentReducer = (state: DocumentState, action: DocumentAction): DocumentState => {
+  switch (action.type) {
+    case 'hydrate':
+      return {
+        documents: action.documents,
+        currentDocumentId: action.currentDocumentId,
+      };
+
+    case 'select_document':
+      if (action.documentId && !state.documents.some(doc => doc.id === action.documentId)) {
+        return state;
+      }
+      return { ...state, currentDocumentId: action.documentId };
+
+    case 'create_document':
+      return {
+        documents: [action.document, ...state.documents.filter(doc => doc.id !== action.document.id)],
+        currentDocumentId: action.document.id,
+      };
+
+    case 'delete_document':
+      return {
+        documents: state.documents.filter(doc => doc.id !== action.documentId),
+        currentDocumentId: state.currentDocumentId === action.documentId ? undefined : state.currentDocumentId,
+      };
+
+    case 'set_document_title':
+      return updateCurrentDocument(state, document => ({ ...document, title: action.title, updated_at: action.at }));
+
+    case 'append_to_page':
+      return updateCurrentPage(state, action.at, page => {
+        const separator = !page.content
+          ? ''
+          : !action.inline
+            ? '\n'
+            // No space before punctuation that belongs to the previous word
+            : /\s$/.test(page.content) || /^[\s,.;:!?…)\]}”’]/.test(action.content) ? '' : ' ';
+        return { content: page.content + separator + action.content };
+      });
+
+    case 'rewrite_page':
+      return updateCurrentPage(state, action.at, () => ({ content: action.content }));
+
+    case 'set_page_title':
+      return updateCurrentPage(state, action.at, () => ({ title: action.title }));
+
+    case 'save_page': {
+      const titled = updateCurrentDocument(state, document => ({ ...document, title: action.title, updated_at: action.at }));
+      return updateCurrentPage(titled, action.at, () => ({ content: action.content }));
+    }
+
+    case 'set_page_content':
+      return {
+        ...state,
+        documents: state.documents.map(doc => doc.id !== action.documentId ? doc : {
+          ...doc,
+          pages: doc.pages.map(page => page.id === action.pageId ? { ...page, content: action.content, updated_at: action.at } : page),
+          updated_at: action.at,
+        }),
+      };
+
+    case 'add_page':
+      return updateCurrentDocument(state, document => {
+        const pageNumber = document.pages.length + 1;
+        return {
+          ...document,
+          pages: [...document.pages, { ...action.page, page_number: pageNumber }],
+          // Automatically switch to the new page
+          current_page: pageNumber,
+          updated_at: action.at,
+        };
+      });
+
+    case 'set_document_metadata':
+      return {
+        ...state,
+        documents: state.documents.map(doc => doc.id !== action.documentId ? doc : {
+          ...doc,
+          metadata: { ...doc.metadata, ...action.metadata },
+        }),
+      };
+
+    case 'delete_page':
+      return updateCurrentDocument(state, document => {
+        // A document always keeps at least one page
+        if (document.pages.length <= 1) return document;
+
+        const pages = document.pages
+          .filter(page => page.page_number !== document.current_page)
+          .map((page, index) => ({ ...page, page_number: index + 1 }));
+        return {
+          ...document,
+          pages,
+          current_page: Math.min(document.current_page, pages.length),
+          updated_at: action.at,
+        };
+      });
+
+    case 'go_to_page':
+      return updateCurrentDocument(state, document => goToPage(document, action.pageNumber));
+
+    case 'next_page':
+      return updateCurrentDocument(state, document => goToPage(document, document.current_page + 1));
+
+    case 'prev_page':
+      return updateCurrentDocument(state, document => goToPage(document, document.current_page - 1));
+
+    case 'batch':
+      return action.actions.reduce(documentReducer, state);
+
+    default:
+      return state;
+  }
+};
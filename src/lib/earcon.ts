@@ -0,0 +1,45 @@
+// Short tones that confirm something without speaking over the user
+export type EarconName = 'wake' | 'dictation' | 'command';
+
+// Frequencies in Hz, played one after another
+const EARCONS: Record<EarconName, number[]> = {
+  // Rising: "I'm listening"
+  wake: [660, 880],
+  // Rising major chord: speech is written down from now on
+  dictation: [523, 659, 784],
+  // Falling: back to commands
+  command: [784, 659, 523],
+};
+
+const NOTE_SECONDS = 0.12;
+const VOLUME = 0.15;
+
+let audioContext: AudioContext | undefined;
+
+// Synthesized with Web Audio, so it plays without a file or a speech provider
+export const playEarcon = (name: EarconName): void => {
+  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return;
+
+  try {
+    audioContext ??= new AudioContext();
+    const context = audioContext;
+    context.resume().catch(() => undefined);
+
+    EARCONS[name].forEach((frequency, index) => {
+      const start = context.currentTime + index * NOTE_SECONDS;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      // Quick fade in and out so the notes don't click
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(VOLUME, start + 0.01);
+      gain.gain.linearRampToValueAtTime(0, start + NOTE_SECONDS);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + NOTE_SECONDS);
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not play earcon:', error);
+  }
+};
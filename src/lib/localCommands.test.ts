@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocalCommand } from '@/lib/localCommands';
+
+describe('parseLocalCommand', () => {
+  it('reads the command phrases', () => {
+    expect(parseLocalCommand('Tạo tài liệu mới.')).toEqual({ kind: 'create_document' });
+    expect(parseLocalCommand('hãy tạo một tài liệu')).toEqual({ kind: 'create_document' });
+    expect(parseLocalCommand('tìm kiếm về biên bản họp')).toEqual({ kind: 'search', query: 'biên bản họp' });
+    expect(parseLocalCommand('chỉnh sửa')).toEqual({ kind: 'edit' });
+    expect(parseLocalCommand('làm ơn xóa trang này')).toEqual({ kind: 'delete', target: 'page' });
+    expect(parseLocalCommand('xoá tài liệu')).toEqual({ kind: 'delete', target: 'document' });
+    expect(parseLocalCommand('đọc trang 2')).toEqual({ kind: 'read' });
+    expect(parseLocalCommand('xem lại trang hiện tại')).toEqual({ kind: 'read' });
+    expect(parseLocalCommand('đọc')).toEqual({ kind: 'read' });
+  });
+
+  it('leaves sentences that start with a command verb as content', () => {
+    for (const sentence of [
+      'tạo ra nhiều giá trị mới cho công ty',
+      'đọc sách là sở thích của tôi',
+      'xem xét lại vấn đề',
+      'tìm hiểu về lịch sử Việt Nam',
+      'sửa soạn hành lý cho chuyến đi',
+      'xóa đói giảm nghèo là mục tiêu lớn',
+      'sáng tạo là điều quan trọng',
+    ]) {
+      expect(parseLocalCommand(sentence), sentence).toBeUndefined();
+    }
+  });
+});
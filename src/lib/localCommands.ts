@@ -0,0 +1,41 @@
+// Commands understood without the agent, for when it has nothing to say or fails
+export type LocalCommand =
+  | { kind: 'create_document' }
+  | { kind: 'search'; query: string }
+  | { kind: 'edit' }
+  | { kind: 'delete'; target: 'page' | 'document' }
+  | { kind: 'read' };
+
+// Politeness before the verb: "hãy xóa trang này", "làm ơn đọc trang"
+const LEAD_IN = /^(?:(?:hãy|làm ơn|vui lòng|xin|bạn)\s+)+/;
+
+// What a command acts on: "xóa trang này", "đọc tài liệu", "xem lại trang 2"
+const TARGET = String.raw`(?:\s+(?:lại|cả|một|1))?\s+(?:trang|tài liệu|văn bản|nội dung)(?:\s.*)?`;
+
+const CREATE = /^tạo(?:\s+(?:một|1))?\s+(?:(?:tài liệu|văn bản)(?:\s.*)?|mới)$/;
+// "tìm hiểu", "tìm ra", "tìm cách" start sentences rather than searches
+const SEARCH = /^tìm(?!\s+(?:hiểu|ra|thấy|cách|được)(?:\s|$))(?:\s+kiếm)?(?:\s+về)?(?:\s+(.*))?$/;
+const EDIT = new RegExp(String.raw`^(?:chỉnh\s+)?sửa(?:${TARGET})?$`);
+// Both placements of the tone mark are common
+const DELETE = new RegExp(String.raw`^x(?:óa|oá)(?:\s+bỏ)?(?:${TARGET})?$`);
+const READ = new RegExp(`^(?:đọc|xem)(?:${TARGET})?$`);
+
+/**
+ * A command only when the utterance is a command phrase: the verb alone or
+ * followed by what it acts on ("tạo tài liệu mới", "đọc trang 2"). Sentences
+ * that merely start with the same verb ("đọc sách là sở thích của tôi",
+ * "tạo ra nhiều giá trị mới") are not mistaken for commands.
+ */
+export const parseLocalCommand = (utterance: string): LocalCommand | undefined => {
+  const text = utterance.toLowerCase().trim().replace(/[.!?]+$/, '').replace(LEAD_IN, '');
+
+  if (CREATE.test(text)) return { kind: 'create_document' };
+
+  const search = text.match(SEARCH);
+  if (search) return { kind: 'search', query: search[1]?.trim() ?? '' };
+
+  if (EDIT.test(text)) return { kind: 'edit' };
+  if (DELETE.test(text)) return { kind: 'delete', target: text.includes('trang') ? 'page' : 'document' };
+  if (READ.test(text)) return { kind: 'read' };
+  return undefined;
+};
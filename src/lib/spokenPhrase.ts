@@ -0,0 +1,44 @@
+// Lowercase without diacritics or punctuation, so "Này, WriteSense!" matches "nay writesense"
+const normalizeWord = (word: string) =>
+  word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/gi, 'd')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, '');
+
+export interface SpokenPhraseMatch {
+  // What was said before and after the phrase, as transcribed
+  before: string;
+  after: string;
+}
+
+/**
+ * The first of the phrases said in the transcript. Recognizers split or
+ * join words unpredictably ("write sense", "writesense") and drop or add
+ * accents, so words are compared without spaces, case or diacritics.
+ */
+export const findSpokenPhrase = (transcript: string, phrases: string[]): SpokenPhraseMatch | undefined => {
+  const words = transcript.trim().split(/\s+/).filter(Boolean);
+  const normalized = words.map(normalizeWord);
+  const targets = phrases
+    .map(phrase => phrase.split(/\s+/).map(normalizeWord).join(''))
+    .filter(Boolean);
+
+  for (let start = 0; start < words.length; start++) {
+    for (const target of targets) {
+      let joined = '';
+      for (let index = start; index < words.length && joined.length < target.length; index++) {
+        joined += normalized[index];
+        if (joined === target) {
+          // Drop the punctuation a recognizer may put around the phrase
+          return {
+            before: words.slice(0, start).join(' ').replace(/[\s,.:;!?]+$/, ''),
+            after: words.slice(index + 1).join(' ').replace(/^[\s,.:;!?]+/, ''),
+          };
+        }
+      }
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySpokenPunctuation,
+  ENGLISH_PUNCTUATION,
+  formatSpokenText,
+  getPunctuationTable,
+  VIETNAMESE_PUNCTUATION,
+} from '@/lib/spokenPunctuation';
+
+const vi = (text: string, precedingText = '') => applySpokenPunctuation(text, VIETNAMESE_PUNCTUATION, precedingText);
+
+describe('applySpokenPunctuation', () => {
+  it('converts the spoken punctuation and capitalizes sentence starts', () => {
+    expect(vi('xin chào dấu phẩy hôm nay trời đẹp dấu chấm bạn có khỏe không dấu hỏi')).toBe(
+      'Xin chào, hôm nay trời đẹp. Bạn có khỏe không?'
+    );
+  });
+
+  it('prefers the longest phrase', () => {
+    expect(vi('thật sao dấu chấm hỏi thật dấu chấm than')).toBe('Thật sao? Thật!');
+  });
+
+  it('turns line break phrases into new lines and paragraphs', () => {
+    expect(vi('mở đầu xuống dòng dòng hai đoạn mới đoạn ba')).toBe('Mở đầu\nDòng hai\n\nĐoạn ba');
+  });
+
+  it('keeps brackets and quotes against the words they enclose', () => {
+    expect(vi('ghi chú mở ngoặc tạm thời đóng ngoặc và mở ngoặc kép trích dẫn đóng ngoặc kép')).toBe(
+      'Ghi chú (tạm thời) và “trích dẫn”'
+    );
+  });
+
+  it('keeps a closing bracket spoken twice', () => {
+    expect(vi('mở ngoặc a mở ngoặc b đóng ngoặc đóng ngoặc')).toBe('(A (b))');
+  });
+
+  it('does not repeat punctuation the recognizer already added', () => {
+    expect(vi('xin chào. dấu chấm')).toBe('Xin chào.');
+  });
+
+  it('only capitalizes text without punctuation words', () => {
+    expect(vi('hôm nay trời đẹp')).toBe('Hôm nay trời đẹp');
+    expect(vi('hôm nay trời đẹp', 'Xin chào,')).toBe('hôm nay trời đẹp');
+    expect(vi('', 'Xin chào.')).toBe('');
+  });
+
+  it('capitalizes after the sentence the page ends with', () => {
+    expect(vi('tiếp theo', 'Câu trước.')).toBe('Tiếp theo');
+  });
+
+  it('reads the English table', () => {
+    expect(applySpokenPunctuation('hello comma world period how are you question mark', ENGLISH_PUNCTUATION)).toBe(
+      'Hello, world. How are you?'
+    );
+  });
+});
+
+describe('getPunctuationTable', () => {
+  it('picks the table by language and lets user phrases add and remove entries', () => {
+    const table = getPunctuationTable('vi-VN', { 'chấm xuống dòng': '.\n', 'dấu gạch ngang': '' });
+    expect(table['chấm xuống dòng']).toBe('.\n');
+    expect(table['dấu gạch ngang']).toBeUndefined();
+    expect(getPunctuationTable('en-US').comma).toBe(',');
+  });
+});
+
+describe('formatSpokenText', () => {
+  it('leaves the text alone when spoken punctuation is off', () => {
+    expect(formatSpokenText('xin chào dấu phẩy', '', { spokenPunctuation: false, punctuationPhrases: {} })).toBe('xin chào dấu phẩy');
+  });
+});
@@ -0,0 +1,155 @@
+import { SpeechSettings } from '@/types';
+
+// Spoken phrase → the text it stands for; "\n" starts a new line
+export type PunctuationTable = Record<string, string>;
+
+// Longer phrases win, so "dấu chấm hỏi" is not read as "dấu chấm" + "hỏi"
+export const VIETNAMESE_PUNCTUATION: PunctuationTable = {
+  'dấu phẩy': ',',
+  'dấu chấm': '.',
+  'dấu hỏi': '?',
+  'dấu chấm hỏi': '?',
+  'dấu chấm than': '!',
+  'dấu hai chấm': ':',
+  'dấu chấm phẩy': ';',
+  'dấu ba chấm': '…',
+  'dấu gạch ngang': '-',
+  'mở ngoặc': '(',
+  'đóng ngoặc': ')',
+  'mở ngoặc kép': '“',
+  'đóng ngoặc kép': '”',
+  'xuống dòng': '\n',
+  'đoạn mới': '\n\n',
+};
+
+export const ENGLISH_PUNCTUATION: PunctuationTable = {
+  comma: ',',
+  period: '.',
+  'full stop': '.',
+  'question mark': '?',
+  'exclamation mark': '!',
+  'exclamation point': '!',
+  colon: ':',
+  semicolon: ';',
+  ellipsis: '…',
+  hyphen: '-',
+  'open parenthesis': '(',
+  'close parenthesis': ')',
+  'open quote': '“',
+  'close quote': '”',
+  'new line': '\n',
+  'new paragraph': '\n\n',
+};
+
+// Built-in tables by language code without the region
+export const PUNCTUATION_TABLES: Record<string, PunctuationTable> = {
+  vi: VIETNAMESE_PUNCTUATION,
+  en: ENGLISH_PUNCTUATION,
+};
+
+// Built-in table for a locale ("vi-VN" → vi) with the user's phrases on top; an empty value removes a built-in phrase
+export const getPunctuationTable = (language: string, custom: PunctuationTable = {}): PunctuationTable => {
+  const table = { ...PUNCTUATION_TABLES[language.split('-')[0].toLowerCase()], ...custom };
+  return Object.fromEntries(Object.entries(table).filter(([, symbol]) => symbol !== ''));
+};
+
+// Punctuation that sticks to the word before it, or to the word after it
+const ATTACHES_LEFT = /^[,.;:!?…)\]}”’]/;
+const ATTACHES_RIGHT = /[([{“‘]$/;
+const ENDS_SENTENCE = /[.!?…]$/;
+
+// Whether text added after this starts a new sentence
+const isAtSentenceStart = (text: string) => /(?:^|[.!?…]|\n)\s*$/.test(text);
+
+const capitalize = (word: string) => word.charAt(0).toLocaleUpperCase() + word.slice(1);
+
+// Lowercase without surrounding punctuation, to compare recognized words with table phrases
+const toKey = (word: string) => word.toLocaleLowerCase().normalize('NFC').replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+/**
+ * Replace spoken punctuation in recognized speech ("xin chào dấu phẩy")
+ * with the symbols, and capitalize the start of every sentence. The text
+ * before it decides whether the first word starts a sentence.
+ */
+export const applySpokenPunctuation = (text: string, table: PunctuationTable, precedingText = ''): string => {
+  const phrases = Object.entries(table)
+    .map(([phrase, symbol]) => ({ words: phrase.split(/\s+/).map(toKey).filter(Boolean), symbol }))
+    .filter(phrase => phrase.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  // Line breaks already in the text (agent content) are kept as tokens of their own
+  const words = text.trim().match(/\n+|[^\s]+/g) ?? [];
+  const keys = words.map(toKey);
+
+  let output = '';
+  let capitalizeNext = isAtSentenceStart(precedingText);
+  // Whether the output ends with a recognized word, which may carry its own punctuation
+  let endsWithWord = false;
+  const appendSpaced = (piece: string) => {
+    if (output && !/\s$/.test(output) && !ATTACHES_RIGHT.test(output)) output += ' ';
+    output += piece;
+  };
+
+  for (let index = 0; index < words.length;) {
+    if (words[index].startsWith('\n')) {
+      output = output.replace(/[ \t]+$/, '') + words[index];
+      capitalizeNext = true;
+      endsWithWord = false;
+      index++;
+      continue;
+    }
+
+    const match = phrases.find(phrase => phrase.words.every((word, offset) => keys[index + offset] === word));
+    if (!match) {
+      const word = capitalizeNext ? capitalize(words[index]) : words[index];
+      capitalizeNext = ENDS_SENTENCE.test(word);
+      appendSpaced(word);
+      endsWithWord = true;
+      index++;
+      continue;
+    }
+
+    const { symbol } = match;
+    if (symbol.includes('\n')) {
+      output = output.replace(/[ \t]+$/, '') + symbol;
+      capitalizeNext = true;
+    } else if (ATTACHES_LEFT.test(symbol)) {
+      output = output.replace(/\s+$/, '');
+      // Recognizers that punctuate by themselves may already have put it there,
+      // but a symbol spoken twice (")" closing two brackets) is kept twice
+      if (!endsWithWord || !output.endsWith(symbol)) output += symbol;
+      if (ENDS_SENTENCE.test(symbol)) capitalizeNext = true;
+    } else {
+      appendSpaced(symbol);
+    }
+    endsWithWord = false;
+    index += match.words.length;
+  }
+  return output;
+};
+
+// Spoken punctuation per the speech settings, for text added to a page
+export const formatSpokenText = (
+  text: string,
+  precedingText: string,
+  settings: Pick<SpeechSettings, 'spokenPunctuation' | 'punctuationPhrases'>,
+  language = 'vi-VN'
+): string =>
+  settings.spokenPunctuation
+    ? applySpokenPunctuation(text, getPunctuationTable(language, settings.punctuationPhrases), precedingText)
+    : text;
+
+// Table as editable lines: "phrase = symbol", with "\n" written out
+export const formatPunctuationPhrases = (table: PunctuationTable): string =>
+  Object.entries(table)
+    .map(([phrase, symbol]) => `${phrase} = ${symbol.replace(/\n/g, '\\n')}`)
+    .join('\n');
+
+export const parsePunctuationPhrases = (text: string): PunctuationTable =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.split('='))
+      .filter(parts => parts.length >= 2 && parts[0].trim())
+      .map(([phrase, ...symbol]) => [phrase.trim().toLocaleLowerCase(), symbol.join('=').trim().replace(/\\n/g, '\n')])
+  );
@@ -0,0 +1,106 @@
+// Server-sent events decoder following the WHATWG event stream format
+
+export interface SseEvent {
+  // "message" when the server sent no event field
+  event: string;
+  data: string;
+  // Last event id seen on the stream, carried by every event after it
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * Incremental decoder: push text chunks as they arrive and get the events
+ * completed by them. Handles CRLF/LF/CR line endings split across chunks,
+ * comments, multi-line data and fields without a space after the colon.
+ * An unterminated last event is never dispatched, as the spec requires.
+ */
+export const createSseDecoder = () => {
+  let buffer = '';
+  let isFirstChunk = true;
+  // A chunk ending in CR may be followed by the LF of the same line ending
+  let skipLeadingLf = false;
+
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = (): SseEvent | undefined => {
+    const hasData = dataLines.length > 0;
+    const event: SseEvent = {
+      event: eventType || 'message',
+      data: dataLines.join('\n'),
+      ...(lastEventId !== undefined ? { id: lastEventId } : {}),
+      ...(retry !== undefined ? { retry } : {}),
+    };
+    eventType = '';
+    dataLines = [];
+    retry = undefined;
+    // Blocks without data only update the id and retry fields
+    return hasData ? event : undefined;
+  };
+
+  const processLine = (line: string): SseEvent | undefined => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+    return undefined;
+  };
+
+  const push = (chunk: string): SseEvent[] => {
+    let text = chunk;
+    if (isFirstChunk && text.length > 0) {
+      isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    if (skipLeadingLf && text.startsWith('\n')) text = text.slice(1);
+    skipLeadingLf = false;
+
+    buffer += text;
+    const events: SseEvent[] = [];
+    let start = 0;
+    for (let index = 0; index < buffer.length; index++) {
+      const char = buffer[index];
+      if (char !== '\n' && char !== '\r') continue;
+
+      const event = processLine(buffer.slice(start, index));
+      if (event) events.push(event);
+
+      if (char === '\r') {
+        if (index + 1 === buffer.length) {
+          skipLeadingLf = true;
+        } else if (buffer[index + 1] === '\n') {
+          index++;
+        }
+      }
+      start = index + 1;
+    }
+    buffer = buffer.slice(start);
+    return events;
+  };
+
+  return { push };
+};
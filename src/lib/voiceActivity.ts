@@ -0,0 +1,143 @@
+import { VoiceActivitySettings } from '@/types';
+
+// Levels heard while the detector learns the room's background noise
+const CALIBRATION_MS = 500;
+// Speech must stay above the threshold this long to count, so clicks are ignored
+const ATTACK_MS = 100;
+// Once speaking, the level may drop to this share of the threshold before it counts as quiet
+const RELEASE_RATIO = 0.75;
+// Floor rises slowly so a long sentence does not become the new background
+const FLOOR_RISE = 0.01;
+const FLOOR_FALL = 0.1;
+const MIN_NOISE_FLOOR = 0.001;
+
+export interface VoiceActivityFrame {
+  // RMS level of the microphone, 0..1
+  level: number;
+  noiseFloor: number;
+  // Level that starts speech
+  threshold: number;
+  isSpeech: boolean;
+  isCalibrating: boolean;
+}
+
+/**
+ * Energy-based voice activity detection: learns the background noise when
+ * it starts and keeps adapting it during pauses. Speech is reported after a
+ * short attack and held through a hangover, so gaps between words don't
+ * count as silence.
+ */
+export class EnergyVoiceActivityDetector {
+  private calibrationLevels: number[] = [];
+  private startedAt?: number;
+  private noiseFloor = MIN_NOISE_FLOOR;
+  private isSpeech = false;
+  private loudSince?: number;
+  private lastVoicedAt?: number;
+
+  constructor(private settings: VoiceActivitySettings) {}
+
+  // Feed one level measurement
+  process(level: number, now: number): VoiceActivityFrame {
+    this.startedAt ??= now;
+    const isCalibrating = now - this.startedAt < CALIBRATION_MS;
+
+    if (isCalibrating) {
+      this.calibrationLevels.push(level);
+      return { level, noiseFloor: this.noiseFloor, threshold: this.threshold, isSpeech: false, isCalibrating };
+    }
+    if (this.calibrationLevels.length) {
+      // A low percentile, in case the user was already talking
+      const sorted = [...this.calibrationLevels].sort((a, b) => a - b);
+      this.noiseFloor = Math.max(MIN_NOISE_FLOOR, sorted[Math.floor(sorted.length * 0.3)]);
+      this.calibrationLevels = [];
+      console.log('🎚️ Noise floor calibrated at', this.noiseFloor.toFixed(4));
+    }
+
+    const threshold = this.threshold;
+    const required = this.isSpeech ? threshold * RELEASE_RATIO : threshold;
+    if (level >= required) {
+      this.loudSince ??= now;
+      if (this.isSpeech || now - this.loudSince >= ATTACK_MS) {
+        this.isSpeech = true;
+        this.lastVoicedAt = now;
+      }
+    } else {
+      this.loudSince = undefined;
+      if (this.isSpeech && now - (this.lastVoicedAt ?? now) >= this.settings.hangoverMs) {
+        this.isSpeech = false;
+      }
+      if (!this.isSpeech) {
+        const rate = level > this.noiseFloor ? FLOOR_RISE : FLOOR_FALL;
+        this.noiseFloor = Math.max(MIN_NOISE_FLOOR, this.noiseFloor + (level - this.noiseFloor) * rate);
+      }
+    }
+
+    return { level, noiseFloor: this.noiseFloor, threshold: this.threshold, isSpeech: this.isSpeech, isCalibrating };
+  }
+
+  get threshold(): number {
+    return Math.max(this.settings.minLevel, this.noiseFloor * this.settings.sensitivity);
+  }
+
+  // Whether anything was said since the last reset
+  get heardSpeech(): boolean {
+    return this.lastVoicedAt !== undefined;
+  }
+
+  // How long it has been quiet since the last speech, or undefined before any
+  silenceMs(now: number): number | undefined {
+    if (this.isSpeech) return 0;
+    if (this.lastVoicedAt === undefined) return undefined;
+    return now - this.lastVoicedAt;
+  }
+
+  // Start a new utterance; the learned noise floor is kept
+  resetUtterance(): void {
+    this.isSpeech = false;
+    this.loudSince = undefined;
+    this.lastVoicedAt = undefined;
+  }
+}
+
+/**
+ * Whether the user's turn is over: after endOfTurnMs of silence once the
+ * recognizer has finalized everything it heard, or after maxEndOfTurnMs if
+ * it still has words pending. Recordings transcribed after the cut count as
+ * final.
+ */
+export const isEndOfTurn = (
+  silenceMs: number | undefined,
+  isRecognizerFinal: boolean,
+  settings: VoiceActivitySettings
+): boolean => {
+  if (silenceMs === undefined) return false;
+  return silenceMs >= (isRecognizerFinal ? settings.endOfTurnMs : settings.maxEndOfTurnMs);
+};
+
+export interface MicrophoneLevelMeter {
+  // RMS level of the latest audio, 0..1
+  read(): number;
+  close(): void;
+}
+
+// AnalyserNode on a microphone stream; the caller still owns the stream
+export const createMicrophoneLevelMeter = (stream: MediaStream): MicrophoneLevelMeter => {
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 512;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    read() {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) sum += sample * sample;
+      return Math.sqrt(sum / samples.length);
+    },
+    close() {
+      audioContext.close().catch(() => undefined);
+    },
+  };
+};
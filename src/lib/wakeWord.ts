@@ -0,0 +1,12 @@
+import { findSpokenPhrase } from '@/lib/spokenPhrase';
+
+// Said before a command in wake-word mode; more can be added in the speech settings
+export const DEFAULT_WAKE_PHRASES = ['Này WriteSense'];
+
+/**
+ * The command after the first wake phrase in the transcript, or undefined
+ * when none was said. Anything before the phrase is someone else talking
+ * and is dropped.
+ */
+export const stripWakePhrase = (transcript: string, phrases: string[]): string | undefined =>
+  findSpokenPhrase(transcript, phrases)?.after;
@@ -0,0 +1,155 @@
+// Word-level diff used to review agent edits before they are applied
+
+export type DiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; hunkId: number; removed: string; added: string };
+
+export type HunkDecision = 'accepted' | 'rejected';
+
+// Above this many LCS cells the changed middle part is treated as one hunk
+const MAX_LCS_CELLS = 4_000_000;
+
+// Words and the whitespace between them, so joining the tokens gives back the text
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const pushSegment = (segments: DiffSegment[], type: 'equal' | 'removed' | 'added', text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+
+  if (type === 'equal') {
+    if (last?.type === 'equal') {
+      last.text += text;
+    } else {
+      segments.push({ type: 'equal', text });
+    }
+    return;
+  }
+
+  if (last?.type === 'change') {
+    if (type === 'removed') last.removed += text;
+    else last.added += text;
+  } else {
+    segments.push({
+      type: 'change',
+      hunkId: 0,
+      removed: type === 'removed' ? text : '',
+      added: type === 'added' ? text : '',
+    });
+  }
+};
+
+const diffTokens = (before: string[], after: string[], segments: DiffSegment[]) => {
+  const n = before.length;
+  const m = after.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    pushSegment(segments, 'removed', before.join(''));
+    pushSegment(segments, 'added', after.join(''));
+    return;
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      pushSegment(segments, 'equal', before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', before[i++]);
+    } else {
+      pushSegment(segments, 'added', after[j++]);
+    }
+  }
+  while (i < n) pushSegment(segments, 'removed', before[i++]);
+  while (j < m) pushSegment(segments, 'added', after[j++]);
+};
+
+// Merge changes separated only by whitespace so "a b" -> "c d" is one hunk, not two
+const mergeAdjacentChanges = (segments: DiffSegment[]): DiffSegment[] => {
+  const merged: DiffSegment[] = [];
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const previous = merged[merged.length - 1];
+    const next = segments[index + 1];
+
+    if (segment.type === 'equal' && !segment.text.trim() && previous?.type === 'change' && next?.type === 'change') {
+      previous.removed += segment.text + next.removed;
+      previous.added += segment.text + next.added;
+      index++;
+      continue;
+    }
+    merged.push(segment);
+  }
+  return merged;
+};
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+
+  // Trim the common prefix and suffix before running the quadratic part
+  let start = 0;
+  while (start < beforeTokens.length && start < afterTokens.length && beforeTokens[start] === afterTokens[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < beforeTokens.length - start &&
+    end < afterTokens.length - start &&
+    beforeTokens[beforeTokens.length - 1 - end] === afterTokens[afterTokens.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', beforeTokens.slice(0, start).join(''));
+  diffTokens(
+    beforeTokens.slice(start, beforeTokens.length - end),
+    afterTokens.slice(start, afterTokens.length - end),
+    segments
+  );
+  pushSegment(segments, 'equal', beforeTokens.slice(beforeTokens.length - end).join(''));
+
+  // Number the hunks from 1 so they can be referred to by voice
+  let hunkId = 0;
+  return mergeAdjacentChanges(segments).map(segment =>
+    segment.type === 'change' ? { ...segment, hunkId: ++hunkId } : segment
+  );
+};
+
+export const getHunks = (segments: DiffSegment[]) =>
+  segments.filter((segment): segment is Extract<DiffSegment, { type: 'change' }> => segment.type === 'change');
+
+// Rebuild the text keeping accepted hunks; undecided hunks count as rejected
+export const applyHunkDecisions = (segments: DiffSegment[], decisions: Record<number, HunkDecision>): string =>
+  segments
+    .map(segment => {
+      if (segment.type === 'equal') return segment.text;
+      return decisions[segment.hunkId] === 'accepted' ? segment.added : segment.removed;
+    })
+    .join('');
+
+const quote = (text: string, maxLength = 60) => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  return `"${trimmed.length > maxLength ? trimmed.slice(0, maxLength) + '...' : trimmed}"`;
+};
+
+// Short spoken description of one hunk
+export const describeHunk = (hunk: Extract<DiffSegment, { type: 'change' }>): string => {
+  const removed = hunk.removed.trim();
+  const added = hunk.added.trim();
+  if (removed && added) return `thay ${quote(removed)} bằng ${quote(added)}`;
+  if (added) return `thêm ${quote(added)}`;
+  return `xóa ${quote(removed)}`;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { Document } from '@/types';
+import { MemoryDocumentRepository } from '@/server/documentRepository';
+
+const document = (updatedAt: string): Document => ({
+  id: 'doc-1',
+  title: 'Tài liệu',
+  pages: [{ id: 'page-1', title: '', content: 'nội dung', page_number: 1, created_at: updatedAt, updated_at: updatedAt }],
+  current_page: 1,
+  created_at: updatedAt,
+  updated_at: updatedAt,
+});
+
+describe('MemoryDocumentRepository', () => {
+  it('sets updated_at itself instead of keeping the client clock', async () => {
+    const repository = new MemoryDocumentRepository();
+    const saved = await repository.save(document('2099-01-01T00:00:00.000Z'));
+    expect(saved!.updated_at < '2099-01-01T00:00:00.000Z').toBe(true);
+  });
+
+  it('keeps a deleted document deleted, whatever timestamp the copy claims', async () => {
+    const repository = new MemoryDocumentRepository();
+    await repository.save(document('2026-01-01T00:00:00.000Z'));
+    await repository.delete('doc-1');
+
+    expect(await repository.save(document('2099-01-01T00:00:00.000Z'))).toBeUndefined();
+    expect(await repository.listDeleted()).toEqual([{ id: 'doc-1', deleted_at: expect.any(String) }]);
+  });
+
+  it('takes a deleted document back when restored', async () => {
+    const repository = new MemoryDocumentRepository();
+    await repository.save(document('2026-01-01T00:00:00.000Z'));
+    await repository.delete('doc-1');
+
+    expect(await repository.save(document('2026-01-01T00:00:00.000Z'), { restore: true })).toBeDefined();
+    expect(await repository.listDeleted()).toEqual([]);
+  });
+});
+
+describe('/api/documents routes', () => {
+  const request = (path: string, method: string, body: string) =>
+    new NextRequest(`http://localhost/api/documents${path}`, { method, headers: { 'Content-Type': 'application/json' }, body });
+
+  it('rejects a malformed body instead of reading it as an empty one', async () => {
+    process.env.DOCUMENT_STORE = 'memory';
+    const { POST } = await import('@/app/api/documents/route');
+    const { PUT, PATCH } = await import('@/app/api/documents/[id]/route');
+    const params = Promise.resolve({ id: 'doc-1' });
+
+    for (const response of [
+      await POST(request('', 'POST', '{"title": ')),
+      await PUT(request('/doc-1', 'PUT', 'not json'), { params }),
+      await PATCH(request('/doc-1', 'PATCH', '{'), { params }),
+    ]) {
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid JSON' });
+    }
+  });
+});
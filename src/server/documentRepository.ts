@@ -0,0 +1,308 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Document, DocumentPage, DocumentTombstone } from '@/types';
+
+export interface DocumentInput {
+  id?: string;
+  title?: string;
+  pages?: DocumentPage[];
+  current_page?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PageInput {
+  title?: string;
+  content?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'number') => value === undefined || typeof value === type;
+
+const isPage = (value: unknown): value is DocumentPage =>
+  isObject(value) && typeof value.id === 'string' && typeof value.content === 'string' && isOptional(value.title, 'string');
+
+// Request body for creating or updating a document; undefined when it is not one
+export const parseDocumentInput = (body: unknown): DocumentInput | undefined => {
+  if (!isObject(body)) return undefined;
+  if (body.pages !== undefined && !(Array.isArray(body.pages) && body.pages.every(isPage))) return undefined;
+  if (!isOptional(body.title, 'string') || !isOptional(body.current_page, 'number')) return undefined;
+  if (body.metadata !== undefined && !isObject(body.metadata)) return undefined;
+  return body as DocumentInput;
+};
+
+// A whole document as the client syncs it
+export const isDocument = (body: unknown): body is Document =>
+  isObject(body) && parseDocumentInput(body) !== undefined && Array.isArray(body.pages)
+  && typeof body.title === 'string' && typeof body.created_at === 'string' && typeof body.updated_at === 'string';
+
+export const parsePageInput = (body: unknown): PageInput | undefined =>
+  isObject(body) && isOptional(body.title, 'string') && isOptional(body.content, 'string') ? body as PageInput : undefined;
+
+// Storage backend behind the /api/documents route handlers
+export interface DocumentRepository {
+  list(): Promise<Document[]>;
+  get(id: string): Promise<Document | undefined>;
+  create(input: DocumentInput): Promise<Document>;
+  // Creates the document when it does not exist yet (used for client sync); updated_at is set here.
+  // Undefined when the document was deleted, unless the client restores it (undo of the deletion).
+  save(document: Document, options?: { restore?: boolean }): Promise<Document | undefined>;
+  update(id: string, input: DocumentInput): Promise<Document | undefined>;
+  delete(id: string): Promise<boolean>;
+  // Deleted documents, so other clients drop their local copies instead of uploading them again
+  listDeleted(): Promise<DocumentTombstone[]>;
+
+  listPages(documentId: string): Promise<DocumentPage[] | undefined>;
+  getPage(documentId: string, pageId: string): Promise<DocumentPage | undefined>;
+  createPage(documentId: string, input: PageInput): Promise<DocumentPage | undefined>;
+  updatePage(documentId: string, pageId: string, input: PageInput): Promise<DocumentPage | undefined>;
+  deletePage(documentId: string, pageId: string): Promise<boolean>;
+}
+
+const now = () => new Date().toISOString();
+
+const createPage = (pageNumber: number, input: PageInput = {}): DocumentPage => ({
+  id: uuidv4(),
+  title: input.title || '',
+  content: input.content || '',
+  page_number: pageNumber,
+  created_at: now(),
+  updated_at: now(),
+});
+
+const renumberPages = (pages: DocumentPage[]): DocumentPage[] =>
+  pages.map((page, index) => ({ ...page, page_number: index + 1 }));
+
+// Documents by id, and when each deleted document was deleted
+export interface StoredDocuments {
+  documents: Map<string, Document>;
+  deleted: Map<string, string>;
+}
+
+// Shared document/page logic; subclasses only decide where the maps are kept
+abstract class BaseDocumentRepository implements DocumentRepository {
+  protected abstract read(): Promise<StoredDocuments>;
+  protected abstract write(store: StoredDocuments): Promise<void>;
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop updates
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private mutate<T>(fn: (documents: Map<string, Document>, deleted: Map<string, string>) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const store = await this.read();
+      const result = fn(store.documents, store.deleted);
+      await this.write(store);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async list(): Promise<Document[]> {
+    const { documents } = await this.read();
+    return [...documents.values()].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  }
+
+  async get(id: string): Promise<Document | undefined> {
+    return (await this.read()).documents.get(id);
+  }
+
+  async listDeleted(): Promise<DocumentTombstone[]> {
+    const { deleted } = await this.read();
+    return [...deleted].map(([id, deleted_at]) => ({ id, deleted_at }));
+  }
+
+  create(input: DocumentInput): Promise<Document> {
+    return this.mutate((documents, deleted) => {
+      const pages = input.pages && input.pages.length > 0 ? renumberPages(input.pages) : [createPage(1)];
+      const document: Document = {
+        id: input.id || uuidv4(),
+        title: input.title || 'Tài liệu mới',
+        pages,
+        current_page: Math.min(Math.max(input.current_page || 1, 1), pages.length),
+        created_at: now(),
+        updated_at: now(),
+        metadata: input.metadata,
+      };
+      documents.set(document.id, document);
+      deleted.delete(document.id);
+      return document;
+    });
+  }
+
+  save(document: Document, { restore = false }: { restore?: boolean } = {}): Promise<Document | undefined> {
+    return this.mutate((documents, deleted) => {
+      // A copy from another browser must not bring a deleted document back
+      if (deleted.has(document.id) && !restore) return undefined;
+
+      // Client clocks are not trusted: the store decides when a document was last updated
+      const saved: Document = { ...document, updated_at: now() };
+      documents.set(saved.id, saved);
+      deleted.delete(saved.id);
+      return saved;
+    });
+  }
+
+  update(id: string, input: DocumentInput): Promise<Document | undefined> {
+    return this.mutate(documents => {
+      const existing = documents.get(id);
+      if (!existing) return undefined;
+
+      const pages = input.pages ? renumberPages(input.pages) : existing.pages;
+      const updated: Document = {
+        ...existing,
+        title: input.title ?? existing.title,
+        pages,
+        current_page: Math.min(Math.max(input.current_page ?? existing.current_page, 1), Math.max(pages.length, 1)),
+        metadata: input.metadata ?? existing.metadata,
+        updated_at: now(),
+      };
+      documents.set(id, updated);
+      return updated;
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.mutate((documents, deleted) => {
+      if (!documents.delete(id)) return false;
+      deleted.set(id, now());
+      return true;
+    });
+  }
+
+  async listPages(documentId: string): Promise<DocumentPage[] | undefined> {
+    return (await this.get(documentId))?.pages;
+  }
+
+  async getPage(documentId: string, pageId: string): Promise<DocumentPage | undefined> {
+    return (await this.get(documentId))?.pages.find(page => page.id === pageId);
+  }
+
+  createPage(documentId: string, input: PageInput): Promise<DocumentPage | undefined> {
+    return this.mutate(documents => {
+      const document = documents.get(documentId);
+      if (!document) return undefined;
+
+      const page = createPage(document.pages.length + 1, input);
+      documents.set(documentId, {
+        ...document,
+        pages: [...document.pages, page],
+        updated_at: now(),
+      });
+      return page;
+    });
+  }
+
+  updatePage(documentId: string, pageId: string, input: PageInput): Promise<DocumentPage | undefined> {
+    return this.mutate(documents => {
+      const document = documents.get(documentId);
+      const existing = document?.pages.find(page => page.id === pageId);
+      if (!document || !existing) return undefined;
+
+      const updated: DocumentPage = {
+        ...existing,
+        title: input.title ?? existing.title,
+        content: input.content ?? existing.content,
+        updated_at: now(),
+      };
+      documents.set(documentId, {
+        ...document,
+        pages: document.pages.map(page => page.id === pageId ? updated : page),
+        updated_at: now(),
+      });
+      return updated;
+    });
+  }
+
+  deletePage(documentId: string, pageId: string): Promise<boolean> {
+    return this.mutate(documents => {
+      const document = documents.get(documentId);
+      // A document always keeps at least one page
+      if (!document || document.pages.length <= 1 || !document.pages.some(page => page.id === pageId)) {
+        return false;
+      }
+
+      const pages = renumberPages(document.pages.filter(page => page.id !== pageId));
+      documents.set(documentId, {
+        ...document,
+        pages,
+        current_page: Math.min(document.current_page, pages.length),
+        updated_at: now(),
+      });
+      return true;
+    });
+  }
+}
+
+export class MemoryDocumentRepository extends BaseDocumentRepository {
+  private store: StoredDocuments = { documents: new Map(), deleted: new Map() };
+
+  protected async read(): Promise<StoredDocuments> {
+    return { documents: new Map(this.store.documents), deleted: new Map(this.store.deleted) };
+  }
+
+  protected async write(store: StoredDocuments): Promise<void> {
+    this.store = { documents: new Map(store.documents), deleted: new Map(store.deleted) };
+  }
+}
+
+interface DocumentFile {
+  documents: Document[];
+  deleted: DocumentTombstone[];
+}
+
+// Keeps every document, and the deletions, in a single JSON file
+export class FileDocumentRepository extends BaseDocumentRepository {
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async read(): Promise<StoredDocuments> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      // Files written before deletions were recorded hold just the document array
+      const parsed: Document[] | DocumentFile = JSON.parse(raw);
+      const file = Array.isArray(parsed) ? { documents: parsed, deleted: [] } : parsed;
+      return {
+        documents: new Map(file.documents.map(doc => [doc.id, doc])),
+        deleted: new Map(file.deleted.map(tombstone => [tombstone.id, tombstone.deleted_at])),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { documents: new Map(), deleted: new Map() };
+      }
+      throw error;
+    }
+  }
+
+  protected async write(store: StoredDocuments): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const file: DocumentFile = {
+      documents: [...store.documents.values()],
+      deleted: [...store.deleted].map(([id, deleted_at]) => ({ id, deleted_at })),
+    };
+    // Write to a temp file first so a crash never leaves half a JSON file behind
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let repository: DocumentRepository | null = null;
+
+// DOCUMENT_STORE selects the backend: "file" (default) or "memory"
+export const getDocumentRepository = (): DocumentRepository => {
+  if (!repository) {
+    const store = process.env.DOCUMENT_STORE || 'file';
+    if (store === 'memory') {
+      repository = new MemoryDocumentRepository();
+    } else {
+      const filePath = process.env.DOCUMENT_STORE_PATH || path.join(process.cwd(), '.data', 'documents.json');
+      repository = new FileDocumentRepository(filePath);
+    }
+    console.log(`🗄️ Document store: ${store}`);
+  }
+  return repository;
+};
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { FakeElevenLabsBackend, setElevenLabsBackend } from '@/server/elevenLabsBackend';
+import { POST as speechToText } from '@/app/api/elevenlabs/speech-to-text/route';
+import { POST as textToSpeech } from '@/app/api/elevenlabs/text-to-speech/route';
+import { GET as getVoices } from '@/app/api/elevenlabs/voices/route';
+
+const readBytes = async (body: ReadableStream<Uint8Array>) => new Uint8Array(await new Response(body).arrayBuffer());
+
+describe('FakeElevenLabsBackend', () => {
+  it('transcribes every recording to its transcript, word by word', async () => {
+    const backend = new FakeElevenLabsBackend({ transcript: 'thêm trang mới' });
+    const result = await backend.speechToText(new Blob([new Uint8Array(10)]), { languageCode: 'vi-VN' });
+
+    expect(result.text).toBe('thêm trang mới');
+    expect(result.languageCode).toBe('vi');
+    expect(result.words?.map(word => word.text)).toEqual(['thêm', 'trang', 'mới']);
+    expect(backend.requests).toEqual([{ type: 'speech-to-text', size: 10, options: { languageCode: 'vi-VN' } }]);
+  });
+
+  it('speaks a WAV tone that is longer for longer text', async () => {
+    const backend = new FakeElevenLabsBackend();
+    const short = await readBytes((await backend.textToSpeech('xin chào', {})).body);
+    const audio = await backend.textToSpeech('một câu trả lời dài hơn nhiều', { voiceId: 'fake-voice-vi' });
+    const long = await readBytes(audio.body);
+
+    expect(audio.contentType).toBe('audio/wav');
+    expect(new TextDecoder().decode(long.slice(0, 4))).toBe('RIFF');
+    expect(long.length).toBeGreaterThan(short.length);
+    expect(backend.requests.at(-1)).toEqual({
+      type: 'text-to-speech',
+      text: 'một câu trả lời dài hơn nhiều',
+      options: { voiceId: 'fake-voice-vi' },
+    });
+  });
+});
+
+describe('/api/elevenlabs routes', () => {
+  let backend: FakeElevenLabsBackend;
+
+  beforeEach(() => {
+    backend = new FakeElevenLabsBackend({ transcript: 'xin chào' });
+    setElevenLabsBackend(backend);
+  });
+
+  afterEach(() => setElevenLabsBackend(null));
+
+  const postJson = (path: string, body: unknown) =>
+    new NextRequest(`http://localhost/api/elevenlabs/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('passes the recording and its options to the backend', async () => {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(4)]), 'speech.webm');
+    form.append('language_code', 'vi');
+    form.append('diarize', 'false');
+    const response = await speechToText(new NextRequest('http://localhost/api/elevenlabs/speech-to-text', { method: 'POST', body: form }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).text).toBe('xin chào');
+    expect(backend.requests[0]).toMatchObject({ type: 'speech-to-text', size: 4, options: { languageCode: 'vi', diarize: false } });
+  });
+
+  it('rejects a transcription request without audio', async () => {
+    const response = await speechToText(new NextRequest('http://localhost/api/elevenlabs/speech-to-text', { method: 'POST', body: new FormData() }));
+    expect(response.status).toBe(400);
+    expect(backend.requests).toHaveLength(0);
+  });
+
+  it('streams the synthesized audio back', async () => {
+    const response = await textToSpeech(postJson('text-to-speech', { text: 'Đã lưu tài liệu.', language: 'vi-VN' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('audio/wav');
+    expect((await response.arrayBuffer()).byteLength).toBeGreaterThan(44);
+    expect(backend.requests[0]).toEqual({ type: 'text-to-speech', text: 'Đã lưu tài liệu.', options: { language: 'vi-VN' } });
+  });
+
+  it('rejects empty text without calling the backend', async () => {
+    const response = await textToSpeech(postJson('text-to-speech', { text: '  ' }));
+    expect(response.status).toBe(400);
+    expect(backend.requests).toHaveLength(0);
+  });
+
+  it('rejects text over the length limit without calling the backend', async () => {
+    const response = await textToSpeech(postJson('text-to-speech', { text: 'a'.repeat(5001) }));
+    expect(response.status).toBe(413);
+    expect(backend.requests).toHaveLength(0);
+  });
+
+  it('lists the voices', async () => {
+    const voices = await (await getVoices()).json();
+    expect(voices.map((voice: { voiceId: string }) => voice.voiceId)).toEqual(['fake-voice-vi', 'fake-voice-en']);
+  });
+});
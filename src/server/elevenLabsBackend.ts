@@ -0,0 +1,264 @@
+import { NextResponse } from 'next/server';
+import { ElevenLabsVoice, STTOptions, STTResult, STTWord, TTSOptions } from '@/types';
+
+export interface SynthesizedAudio {
+  contentType: string;
+  // Audio bytes as they are generated
+  body: ReadableStream<Uint8Array>;
+}
+
+// Backend behind the /api/elevenlabs route handlers; the API key never leaves the server
+export interface ElevenLabsBackend {
+  isConfigured(): boolean;
+  speechToText(audio: Blob, options: STTOptions): Promise<STTResult>;
+  textToSpeech(text: string, options: TTSOptions): Promise<SynthesizedAudio>;
+  getVoices(): Promise<ElevenLabsVoice[]>;
+}
+
+// ElevenLabs answered with an error status, or the backend can't be used
+export class ElevenLabsError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8ikWAM';
+const DEFAULT_STT_MODEL = 'scribe_v1';
+const DEFAULT_TTS_MODEL = 'eleven_multilingual_v2';
+
+// "vi-VN" → "vi"
+const toLanguageCode = (language?: string) => language?.split('-')[0].toLowerCase() || undefined;
+
+interface ApiWord {
+  text: string;
+  start: number;
+  end: number;
+  type: STTWord['type'];
+  speaker_id?: string;
+}
+
+interface ApiVoice {
+  voice_id: string;
+  name: string;
+  preview_url?: string;
+  labels?: { language?: string };
+}
+
+export class ApiElevenLabsBackend implements ElevenLabsBackend {
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string,
+    private readonly defaultVoiceId: string
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    if (!this.isConfigured()) {
+      throw new ElevenLabsError('Máy chủ chưa cấu hình ElevenLabs (ELEVENLABS_API_KEY)', 503);
+    }
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: { ...init.headers, 'xi-api-key': this.apiKey },
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error(`❌ ElevenLabs ${path} failed: ${response.status} ${detail.slice(0, 200)}`);
+      // Our own key being rejected is a server problem, not the caller's
+      const status = response.status === 401 || response.status === 403 ? 502 : response.status;
+      throw new ElevenLabsError(`ElevenLabs trả về lỗi ${response.status}`, status);
+    }
+    return response;
+  }
+
+  async speechToText(audio: Blob, options: STTOptions): Promise<STTResult> {
+    const form = new FormData();
+    form.append('file', audio, 'speech.webm');
+    form.append('model_id', options.modelId || DEFAULT_STT_MODEL);
+    const languageCode = toLanguageCode(options.languageCode);
+    if (languageCode) form.append('language_code', languageCode);
+    if (options.tagAudioEvents !== undefined) form.append('tag_audio_events', String(options.tagAudioEvents));
+    if (options.diarize !== undefined) form.append('diarize', String(options.diarize));
+
+    const response = await this.request('/v1/speech-to-text', { method: 'POST', body: form });
+    const result = await response.json();
+    return {
+      text: result.text ?? '',
+      languageCode: result.language_code,
+      languageProbability: result.language_probability,
+      words: result.words?.map((word: ApiWord) => ({
+        text: word.text,
+        start: word.start,
+        end: word.end,
+        type: word.type,
+        speakerId: word.speaker_id,
+      })),
+    };
+  }
+
+  async textToSpeech(text: string, options: TTSOptions): Promise<SynthesizedAudio> {
+    const voiceId = options.voiceId || this.defaultVoiceId;
+    const response = await this.request(`/v1/text-to-speech/${encodeURIComponent(voiceId)}/stream?output_format=mp3_44100_128`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'audio/mpeg' },
+      body: JSON.stringify({
+        text,
+        model_id: options.modelId || DEFAULT_TTS_MODEL,
+        language_code: toLanguageCode(options.language),
+        voice_settings: {
+          stability: options.stability ?? 0.5,
+          similarity_boost: options.similarityBoost ?? 0.75,
+          style: options.style,
+          speed: options.speed,
+        },
+      }),
+    });
+    if (!response.body) {
+      throw new ElevenLabsError('ElevenLabs không trả về âm thanh', 502);
+    }
+    return { contentType: response.headers.get('Content-Type') || 'audio/mpeg', body: response.body };
+  }
+
+  async getVoices(): Promise<ElevenLabsVoice[]> {
+    const response = await this.request('/v1/voices');
+    const { voices = [] } = await response.json();
+    return voices.map((voice: ApiVoice) => ({
+      voiceId: voice.voice_id,
+      name: voice.name,
+      language: voice.labels?.language,
+      previewUrl: voice.preview_url,
+    }));
+  }
+}
+
+// 16-bit mono WAV of a soft tone, about 60 ms per character, split into chunks like a real stream
+const createToneStream = (text: string): ReadableStream<Uint8Array> => {
+  const sampleRate = 16000;
+  const samples = Math.round(sampleRate * Math.min(20, Math.max(0.3, text.length * 0.06)));
+  const wav = new DataView(new ArrayBuffer(44 + samples * 2));
+  const writeText = (offset: number, value: string) =>
+    [...value].forEach((char, index) => wav.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeText(0, 'RIFF');
+  wav.setUint32(4, 36 + samples * 2, true);
+  writeText(8, 'WAVEfmt ');
+  wav.setUint32(16, 16, true);
+  wav.setUint16(20, 1, true);
+  wav.setUint16(22, 1, true);
+  wav.setUint32(24, sampleRate, true);
+  wav.setUint32(28, sampleRate * 2, true);
+  wav.setUint16(32, 2, true);
+  wav.setUint16(34, 16, true);
+  writeText(36, 'data');
+  wav.setUint32(40, samples * 2, true);
+  for (let i = 0; i < samples; i++) {
+    wav.setInt16(44 + i * 2, Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 3000), true);
+  }
+
+  const bytes = new Uint8Array(wav.buffer);
+  const chunkSize = 16 * 1024;
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+};
+
+export interface FakeElevenLabsOptions {
+  // What every recording transcribes to
+  transcript?: string;
+  voices?: ElevenLabsVoice[];
+}
+
+/**
+ * Offline stand-in for tests and development: transcribes everything to a
+ * fixed text and "speaks" a beep as long as the text. Calls are recorded in
+ * `requests` so tests can check what reached the backend.
+ */
+export class FakeElevenLabsBackend implements ElevenLabsBackend {
+  readonly requests: Array<
+    | { type: 'speech-to-text'; size: number; options: STTOptions }
+    | { type: 'text-to-speech'; text: string; options: TTSOptions }
+  > = [];
+  private readonly transcript: string;
+  private readonly voices: ElevenLabsVoice[];
+
+  constructor({ transcript = 'xin chào', voices }: FakeElevenLabsOptions = {}) {
+    this.transcript = transcript;
+    this.voices = voices ?? [
+      { voiceId: 'fake-voice-vi', name: 'Giọng thử nghiệm', language: 'vi' },
+      { voiceId: 'fake-voice-en', name: 'Test voice', language: 'en' },
+    ];
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async speechToText(audio: Blob, options: STTOptions): Promise<STTResult> {
+    this.requests.push({ type: 'speech-to-text', size: audio.size, options });
+    let position = 0;
+    const words = this.transcript.split(/\s+/).filter(Boolean).map(text => {
+      const word = { text, start: position, end: position + 0.4, type: 'word' as const };
+      position += 0.5;
+      return word;
+    });
+    return {
+      text: this.transcript,
+      languageCode: toLanguageCode(options.languageCode) ?? 'vi',
+      languageProbability: 1,
+      words,
+    };
+  }
+
+  async textToSpeech(text: string, options: TTSOptions): Promise<SynthesizedAudio> {
+    this.requests.push({ type: 'text-to-speech', text, options });
+    return { contentType: 'audio/wav', body: createToneStream(text) };
+  }
+
+  async getVoices(): Promise<ElevenLabsVoice[]> {
+    return this.voices;
+  }
+}
+
+let backend: ElevenLabsBackend | null = null;
+
+// ELEVENLABS_BACKEND selects the backend: "api" (default) or "fake"
+export const getElevenLabsBackend = (): ElevenLabsBackend => {
+  if (!backend) {
+    const kind = process.env.ELEVENLABS_BACKEND || 'api';
+    if (kind === 'fake') {
+      backend = new FakeElevenLabsBackend({ transcript: process.env.ELEVENLABS_FAKE_TRANSCRIPT });
+    } else {
+      backend = new ApiElevenLabsBackend(
+        process.env.ELEVENLABS_API_KEY || '',
+        process.env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io',
+        process.env.ELEVENLABS_VOICE_ID || DEFAULT_VOICE_ID
+      );
+    }
+    console.log(`🗣️ ElevenLabs backend: ${kind}`);
+  }
+  return backend;
+};
+
+// Replace the backend, e.g. with a FakeElevenLabsBackend in tests
+export const setElevenLabsBackend = (replacement: ElevenLabsBackend | null): void => {
+  backend = replacement;
+};
+
+// Route handler response for a failed backend call
+export const elevenLabsErrorResponse = (error: unknown) => {
+  if (error instanceof ElevenLabsError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error('❌ ElevenLabs proxy error:', error);
+  return NextResponse.json({ error: 'Lỗi máy chủ ElevenLabs' }, { status: 500 });
+};
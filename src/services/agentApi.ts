@@ -1,15 +1,163 @@
 import axios from 'axios';
-import { Assistant, Thread, Run, RunCreate } from '@/types';
+import { Assistant, Thread, Run, RunCreate, AgentStreamEvent } from '@/types';
+import AgentSettingsService from '@/services/agentSettings';
+import { createSseDecoder } from '@/lib/sse';
+import { getMetadataRunId } from '@/lib/agentStream';
 
-const API_BASE_URL = 'http://localhost:8123';
+// Default limits; every method accepts its own signal and timeout
+export const AGENT_REQUEST_TIMEOUT_MS = 15000;
+// A stream that sends nothing for this long is treated as dropped
+export const AGENT_STREAM_IDLE_TIMEOUT_MS = 60000;
+// Health probes fail fast so an outage is noticed quickly
+const AGENT_HEALTH_TIMEOUT_MS = 5000;
+const MAX_RETRIES = 3;
+const MAX_RECONNECTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+export interface AgentRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface AgentStreamOptions extends AgentRequestOptions {
+  idleTimeoutMs?: number;
+  // Called before each attempt to rejoin a dropped run stream
+  onReconnect?: (attempt: number) => void;
+}
+
+// The agent answered with an error status
+export class AgentHttpError extends Error {
+  constructor(public status: number) {
+    super(`HTTP error! status: ${status}`);
+  }
+}
+
+// The connection timed out or went silent
+export class AgentConnectionError extends Error {}
+
+// The server reported a failed run with an "error" event
+export class AgentRunError extends Error {
+  constructor(message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+// Network failures, timeouts, 429 and 5xx are worth another try; aborts and other 4xx are not
+const isRetryable = (error: unknown): boolean => {
+  if (axios.isCancel(error)) return false;
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+  if (error instanceof AgentHttpError) return error.status === 429 || error.status >= 500;
+  // fetch reports network failures as TypeError
+  return error instanceof AgentConnectionError || error instanceof TypeError;
+};
+
+// The agent could not be reached at all, as opposed to answering with an error
+export const isAgentUnreachable = (error: unknown): boolean => {
+  const status = axios.isAxiosError(error)
+    ? error.response?.status
+    : error instanceof AgentHttpError ? error.status : undefined;
+  if (status !== undefined) return status === 502 || status === 503 || status === 504;
+  if (axios.isAxiosError(error)) return !axios.isCancel(error);
+  return error instanceof AgentConnectionError || error instanceof TypeError;
+};
+
+// The agent server answered that the thread, run or assistant does not exist
+export const isAgentNotFound = (error: unknown): boolean => {
+  const status = axios.isAxiosError(error)
+    ? error.response?.status
+    : error instanceof AgentHttpError ? error.status : undefined;
+  return status === 404;
+};
+
+const backoffDelay = (attempt: number) => RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Only for idempotent calls: retried with exponential backoff
+const withRetry = async <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || signal?.aborted || !isRetryable(error)) throw error;
+      const delay = backoffDelay(attempt);
+      console.warn(`🔁 Agent request failed, retrying in ${Math.round(delay)}ms (${attempt + 1}/${MAX_RETRIES}):`, error);
+      await wait(delay, signal);
+    }
+  }
+};
+
+// Open an SSE response; the caller's signal also aborts the body, the timeout only the wait for headers
+const openEventStream = async (url: string, init: RequestInit, options: AgentRequestOptions): Promise<ReadableStream> => {
+  const controller = new AbortController();
+  const { signal, timeoutMs = AGENT_REQUEST_TIMEOUT_MS } = options;
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  const timer = setTimeout(() => {
+    controller.abort(new AgentConnectionError(`No response from the agent after ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...AgentSettingsService.getAuthHeaders(),
+        ...init.headers,
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new AgentHttpError(response.status);
+    }
+
+    return response.body!;
+  } catch (error) {
+    // Surface our own timeout instead of the generic AbortError
+    throw controller.signal.aborted && controller.signal.reason instanceof AgentConnectionError
+      ? controller.signal.reason
+      : error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
 
 const apiClient = axios.create({
-  baseURL: API_BASE_URL,
+  timeout: AGENT_REQUEST_TIMEOUT_MS,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// URL and auth are read per request so settings changes apply without a reload
+apiClient.interceptors.request.use((config) => {
+  config.baseURL = AgentSettingsService.getBaseUrl();
+  Object.entries(AgentSettingsService.getAuthHeaders()).forEach(([key, value]) => {
+    config.headers.set(key, value);
+  });
+  return config;
+});
+
 // Error handling interceptor
 apiClient.interceptors.response.use(
   (response) => response,
@@ -20,17 +168,34 @@ apiClient.interceptors.response.use(
 );
 
 export class AgentApiService {
+  // Health probe: LangGraph's /ok, or a minimal assistant search on servers without it.
+  // Not retried, since each failure is a data point. Resolves to the round trip in ms.
+  static async ping(options: AgentRequestOptions = {}): Promise<number> {
+    const config = { signal: options.signal, timeout: options.timeoutMs ?? AGENT_HEALTH_TIMEOUT_MS };
+    const startedAt = performance.now();
+    try {
+      await apiClient.get('/ok', config);
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) throw error;
+      await apiClient.post('/assistants/search', { limit: 1, offset: 0 }, config);
+    }
+    return Math.round(performance.now() - startedAt);
+  }
+
   // Assistant methods
-  static async getAssistants(): Promise<Assistant[]> {
-    const response = await apiClient.post('/assistants/search', {
+  static async getAssistants(options: AgentRequestOptions = {}): Promise<Assistant[]> {
+    const response = await withRetry(() => apiClient.post('/assistants/search', {
       limit: 100,
       offset: 0
-    });
+    }, { signal: options.signal, timeout: options.timeoutMs }), options.signal);
     return response.data;
   }
 
-  static async getAssistant(assistantId: string): Promise<Assistant> {
-    const response = await apiClient.get(`/assistants/${assistantId}`);
+  static async getAssistant(assistantId: string, options: AgentRequestOptions = {}): Promise<Assistant> {
+    const response = await withRetry(
+      () => apiClient.get(`/assistants/${assistantId}`, { signal: options.signal, timeout: options.timeoutMs }),
+      options.signal
+    );
     return response.data;
   }
 
@@ -53,41 +218,121 @@ export class AgentApiService {
     return response.data;
   }
 
-  static async getThread(threadId: string): Promise<Thread> {
-    const response = await apiClient.get(`/threads/${threadId}`);
+  static async getThread(threadId: string, options: AgentRequestOptions = {}): Promise<Thread> {
+    const response = await withRetry(
+      () => apiClient.get(`/threads/${threadId}`, { signal: options.signal, timeout: options.timeoutMs }),
+      options.signal
+    );
     return response.data;
   }
 
-  static async getThreads(): Promise<Thread[]> {
-    const response = await apiClient.post('/threads/search', {
+  // Optionally only threads whose metadata contains the given key/values
+  static async getThreads(metadata?: Record<string, any>, options: AgentRequestOptions = {}): Promise<Thread[]> {
+    const response = await withRetry(() => apiClient.post('/threads/search', {
+      ...(metadata ? { metadata } : {}),
       limit: 100,
       offset: 0
-    });
+    }, { signal: options.signal, timeout: options.timeoutMs }), options.signal);
     return response.data;
   }
 
-  static async deleteThread(threadId: string): Promise<void> {
-    await apiClient.delete(`/threads/${threadId}`);
+  static async deleteThread(threadId: string, options: AgentRequestOptions = {}): Promise<void> {
+    await withRetry(
+      () => apiClient.delete(`/threads/${threadId}`, { signal: options.signal, timeout: options.timeoutMs }),
+      options.signal
+    );
   }
 
   // Run methods - streaming
   static async createStreamingRun(
     threadId: string, 
-    runData: RunCreate
+    runData: RunCreate,
+    options: AgentRequestOptions = {}
   ): Promise<ReadableStream> {
-    const response = await fetch(`${API_BASE_URL}/threads/${threadId}/runs/stream`, {
+    return openEventStream(`${AgentSettingsService.getBaseUrl()}/threads/${threadId}/runs/stream`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
       body: JSON.stringify(runData),
-    });
+    }, options);
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+  // Attach to a run that is already streaming; with lastEventId a resumable stream continues after it
+  static async joinRunStream(
+    threadId: string,
+    runId: string,
+    options: AgentRequestOptions & { lastEventId?: string; streamMode?: RunCreate['stream_mode'] } = {}
+  ): Promise<ReadableStream> {
+    const params = new URLSearchParams();
+    const streamModes = options.streamMode === undefined ? [] : [options.streamMode].flat();
+    streamModes.forEach(mode => params.append('stream_mode', mode));
+    const query = params.toString();
+
+    return openEventStream(`${AgentSettingsService.getBaseUrl()}/threads/${threadId}/runs/${runId}/stream${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers: options.lastEventId ? { 'Last-Event-ID': options.lastEventId } : undefined,
+    }, options);
+  }
+
+  /**
+   * Stream a run and yield its events. When the connection drops after
+   * the run id is known, the run keeps going on the server and the stream is
+   * rejoined with exponential backoff.
+   */
+  static async *streamRun(
+    threadId: string,
+    runData: RunCreate,
+    options: AgentStreamOptions = {}
+  ): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    const cursor: { runId?: string; lastEventId?: string } = {};
+    let stream = await this.createStreamingRun(threadId, {
+      on_disconnect: 'continue',
+      stream_resumable: true,
+      ...runData,
+    }, options);
+
+    for (let reconnects = 0; ; ) {
+      try {
+        const events = this.processStreamingResponse(stream, {
+          signal: options.signal,
+          idleTimeoutMs: options.idleTimeoutMs,
+        });
+        for await (const event of events) {
+          if (event.id !== undefined) cursor.lastEventId = event.id;
+          cursor.runId = getMetadataRunId(event) ?? cursor.runId;
+          yield event;
+        }
+        return;
+      } catch (error) {
+        const runId = cursor.runId;
+        if (!runId || options.signal?.aborted || reconnects >= MAX_RECONNECTS || !isRetryable(error)) throw error;
+
+        const delay = backoffDelay(reconnects);
+        reconnects++;
+        console.warn(`🔌 Run stream dropped, rejoining run ${runId} in ${Math.round(delay)}ms (${reconnects}/${MAX_RECONNECTS}):`, error);
+        options.onReconnect?.(reconnects);
+        await wait(delay, options.signal);
+        stream = await withRetry(() => this.joinRunStream(threadId, runId, {
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
+          lastEventId: cursor.lastEventId,
+          streamMode: runData.stream_mode,
+        }), options.signal);
+      }
     }
+  }
 
-    return response.body!;
+  // Continue a run paused by interrupt(); the value is returned by interrupt() in the graph
+  static resumeStreamingRun(
+    threadId: string,
+    assistantId: string,
+    resume: unknown,
+    streamMode: RunCreate['stream_mode'] = 'updates',
+    options: AgentStreamOptions = {}
+  ): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    return this.streamRun(threadId, {
+      assistant_id: assistantId,
+      command: { resume },
+      stream_mode: streamMode,
+    }, options);
   }
 
   // Run methods - wait for completion
@@ -108,23 +353,36 @@ export class AgentApiService {
     return response.data;
   }
 
-  static async getRuns(threadId: string): Promise<Run[]> {
-    const response = await apiClient.get(`/threads/${threadId}/runs`);
+  static async getRuns(threadId: string, options: AgentRequestOptions = {}): Promise<Run[]> {
+    const response = await withRetry(
+      () => apiClient.get(`/threads/${threadId}/runs`, { signal: options.signal, timeout: options.timeoutMs }),
+      options.signal
+    );
     return response.data;
   }
 
-  static async getRun(threadId: string, runId: string): Promise<Run> {
-    const response = await apiClient.get(`/threads/${threadId}/runs/${runId}`);
+  static async getRun(threadId: string, runId: string, options: AgentRequestOptions = {}): Promise<Run> {
+    const response = await withRetry(
+      () => apiClient.get(`/threads/${threadId}/runs/${runId}`, { signal: options.signal, timeout: options.timeoutMs }),
+      options.signal
+    );
     return response.data;
   }
 
-  static async cancelRun(threadId: string, runId: string): Promise<void> {
-    await apiClient.post(`/threads/${threadId}/runs/${runId}/cancel`);
+  // Cancelling twice is harmless, so it is retried too
+  static async cancelRun(threadId: string, runId: string, options: AgentRequestOptions = {}): Promise<void> {
+    await withRetry(
+      () => apiClient.post(`/threads/${threadId}/runs/${runId}/cancel`, undefined, { signal: options.signal, timeout: options.timeoutMs }),
+      options.signal
+    );
   }
 
   // Thread state methods
-  static async getThreadState(threadId: string): Promise<any> {
-    const response = await apiClient.get(`/threads/${threadId}/state`);
+  static async getThreadState(threadId: string, options: AgentRequestOptions = {}): Promise<any> {
+    const response = await withRetry(
+      () => apiClient.get(`/threads/${threadId}/state`, { signal: options.signal, timeout: options.timeoutMs }),
+      options.signal
+    );
     return response.data;
   }
 
@@ -140,38 +398,69 @@ export class AgentApiService {
     return response.data;
   }
 
-  // Utility method to process streaming response
-  static async *processStreamingResponse(stream: ReadableStream): AsyncGenerator<any, void, unknown> {
+  /**
+   * Decode a run stream into events with their JSON payload parsed. Ends at the
+   * "end" event; an "error" event is thrown as AgentRunError. Fails with
+   * AgentConnectionError when the stream stays silent for idleTimeoutMs.
+   */
+  static async *processStreamingResponse(
+    stream: ReadableStream,
+    options: { signal?: AbortSignal; idleTimeoutMs?: number } = {}
+  ): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    const { signal, idleTimeoutMs = AGENT_STREAM_IDLE_TIMEOUT_MS } = options;
     const reader = stream.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+    const textDecoder = new TextDecoder();
+    const sseDecoder = createSseDecoder();
+    let finished = false;
+
+    const read = async () => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(new AgentConnectionError(`Agent stream idle for ${idleTimeoutMs}ms`));
+        }, idleTimeoutMs);
+      });
+      try {
+        return await Promise.race([reader.read(), idle]);
+      } finally {
+        clearTimeout(timer);
+      }
+    };
 
     try {
       while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.trim() === '') continue;
-          
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              yield data;
-            } catch (e) {
-              console.warn('Failed to parse SSE data:', line);
-            }
+        if (signal?.aborted) throw signal.reason;
+        const { done, value } = await read();
+        if (done) {
+          finished = true;
+          return;
+        }
+
+        for (const { event, data: rawData, id } of sseDecoder.push(textDecoder.decode(value, { stream: true }))) {
+          let data: unknown = rawData;
+          try {
+            data = JSON.parse(rawData);
+          } catch {
+            console.warn('Failed to parse SSE data:', event, rawData);
+          }
+
+          if (event === 'error') {
+            const details = data as { message?: string; error?: string } | undefined;
+            throw new AgentRunError(details?.message || details?.error || 'Agent run failed', data);
           }
+          if (event === 'end') return;
+          yield { event, data, ...(id !== undefined ? { id } : {}) };
         }
       }
     } finally {
-      reader.releaseLock();
+      if (finished) {
+        reader.releaseLock();
+      } else {
+        // Stopped early (error, abort or the consumer broke off): close the connection
+        reader.cancel().catch(() => {});
+      }
     }
   }
 }
 
-export default AgentApiService; 
\ No newline at end of file
+export default AgentApiService; 
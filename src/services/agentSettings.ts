@@ -0,0 +1,60 @@
+import { AgentSettings } from '@/types';
+
+const STORAGE_KEY = 'writesense:agentSettings';
+
+// Build-time defaults, overridden by what the user saves in the settings panel
+export const DEFAULT_AGENT_SETTINGS: AgentSettings = {
+  apiUrl: process.env.NEXT_PUBLIC_AGENT_API_URL || 'http://localhost:8123',
+  authType: process.env.NEXT_PUBLIC_AGENT_API_KEY ? 'api_key' : 'none',
+  authToken: process.env.NEXT_PUBLIC_AGENT_API_KEY || '',
+};
+
+let cachedSettings: AgentSettings | undefined;
+
+// Runtime configuration of the agent connection, kept in localStorage
+export class AgentSettingsService {
+  static load(): AgentSettings {
+    if (cachedSettings) return cachedSettings;
+    if (typeof window === 'undefined') return DEFAULT_AGENT_SETTINGS;
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      cachedSettings = stored ? { ...DEFAULT_AGENT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AGENT_SETTINGS;
+    } catch (error) {
+      console.warn('⚠️ Could not read agent settings, using defaults:', error);
+      cachedSettings = DEFAULT_AGENT_SETTINGS;
+    }
+    return cachedSettings!;
+  }
+
+  static save(settings: AgentSettings): void {
+    cachedSettings = settings;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('⚠️ Could not save agent settings:', error);
+    }
+  }
+
+  static getBaseUrl(settings: AgentSettings = this.load()): string {
+    return settings.apiUrl.replace(/\/+$/, '');
+  }
+
+  // Headers sent with every agent request
+  static getAuthHeaders(settings: AgentSettings = this.load()): Record<string, string> {
+    const token = settings.authToken.trim();
+    if (!token) return {};
+    if (settings.authType === 'api_key') return { 'X-Api-Key': token };
+    if (settings.authType === 'bearer') return { Authorization: `Bearer ${token}` };
+    return {};
+  }
+
+  // True if the change needs a new connection (assistants and threads belong to a server)
+  static isConnectionChanged(previous: AgentSettings, next: AgentSettings): boolean {
+    return previous.apiUrl !== next.apiUrl ||
+      previous.authType !== next.authType ||
+      previous.authToken !== next.authToken;
+  }
+}
+
+export default AgentSettingsService;
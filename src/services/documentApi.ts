@@ -0,0 +1,94 @@
+import axios from 'axios';
+import { Document, DocumentPage, DocumentTombstone } from '@/types';
+
+const documentClient = axios.create({
+  baseURL: '/api/documents',
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Client for the server-side document store (src/app/api/documents)
+export class DocumentService {
+  // Document methods
+  static async getDocuments(): Promise<Document[]> {
+    const response = await documentClient.get('');
+    return response.data;
+  }
+
+  static async getDocument(documentId: string): Promise<Document> {
+    const response = await documentClient.get(`/${documentId}`);
+    return response.data;
+  }
+
+  static async createDocument(data: {
+    title?: string;
+    pages?: DocumentPage[];
+    metadata?: Record<string, unknown>;
+  }): Promise<Document> {
+    const response = await documentClient.post('', data);
+    return response.data;
+  }
+
+  // Store the full document, creating it on the server if it does not exist yet.
+  // restore takes back a document deleted on the server (undo of the deletion).
+  static async saveDocument(document: Document, { restore = false }: { restore?: boolean } = {}): Promise<Document> {
+    const response = await documentClient.put(`/${document.id}`, document, { params: restore ? { restore: true } : undefined });
+    return response.data;
+  }
+
+  static async updateDocument(
+    documentId: string,
+    data: Partial<Pick<Document, 'title' | 'pages' | 'current_page' | 'metadata'>>
+  ): Promise<Document> {
+    const response = await documentClient.patch(`/${documentId}`, data);
+    return response.data;
+  }
+
+  // Already gone counts as deleted, so a retried deletion does not fail forever
+  static async deleteDocument(documentId: string): Promise<void> {
+    await documentClient.delete(`/${documentId}`, {
+      validateStatus: status => (status >= 200 && status < 300) || status === 404,
+    });
+  }
+
+  // Documents deleted on the server, possibly from another browser
+  static async getDeletedDocuments(): Promise<DocumentTombstone[]> {
+    const response = await axios.get<DocumentTombstone[]>('/api/deleted-documents');
+    return response.data;
+  }
+
+  // Page methods
+  static async getPages(documentId: string): Promise<DocumentPage[]> {
+    const response = await documentClient.get(`/${documentId}/pages`);
+    return response.data;
+  }
+
+  static async getPage(documentId: string, pageId: string): Promise<DocumentPage> {
+    const response = await documentClient.get(`/${documentId}/pages/${pageId}`);
+    return response.data;
+  }
+
+  static async createPage(
+    documentId: string,
+    data: { title?: string; content?: string } = {}
+  ): Promise<DocumentPage> {
+    const response = await documentClient.post(`/${documentId}/pages`, data);
+    return response.data;
+  }
+
+  static async updatePage(
+    documentId: string,
+    pageId: string,
+    data: { title?: string; content?: string }
+  ): Promise<DocumentPage> {
+    const response = await documentClient.patch(`/${documentId}/pages/${pageId}`, data);
+    return response.data;
+  }
+
+  static async deletePage(documentId: string, pageId: string): Promise<void> {
+    await documentClient.delete(`/${documentId}/pages/${pageId}`);
+  }
+}
+
+export default DocumentService;
@@ -0,0 +1,297 @@
+import { Document, DocumentPage, DocumentTombstone, QueuedCommand } from '@/types';
+
+const DB_NAME = 'writesense';
+const DB_VERSION = 2;
+
+const DOCUMENTS_STORE = 'documents';
+const PAGES_STORE = 'pages';
+const META_STORE = 'meta';
+const COMMAND_QUEUE_STORE = 'command_queue';
+
+const LAST_OPEN_DOCUMENT_KEY = 'last_open_document';
+const PENDING_DELETIONS_KEY = 'pending_deletions';
+
+// Bump when the shape of Document / DocumentPage in src/types changes and add
+// a matching step to migrateStoredDocument below.
+export const DOCUMENT_SCHEMA_VERSION = 1;
+
+interface StoredDocument extends Omit<Document, 'pages'> {
+  schema_version: number;
+  // Schema 0 kept the whole text on the document instead of in pages
+  content?: string;
+}
+
+interface StoredPage extends DocumentPage {
+  document_id: string;
+  schema_version: number;
+}
+
+interface StoredMeta {
+  key: string;
+  value: unknown;
+}
+
+export interface StoredWorkspace {
+  documents: Document[];
+  lastOpenDocumentId?: string;
+}
+
+// Object store layout per IndexedDB version. Each step only runs when upgrading past it.
+const DB_MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+    const pages = db.createObjectStore(PAGES_STORE, { keyPath: 'id' });
+    pages.createIndex('document_id', 'document_id', { unique: false });
+    db.createObjectStore(META_STORE, { keyPath: 'key' });
+  },
+  2: (db) => {
+    db.createObjectStore(COMMAND_QUEUE_STORE, { keyPath: 'id' });
+  },
+};
+
+// Upgrade a document record (and its pages) written by an older schema version
+const migrateStoredDocument = (record: StoredDocument, pages: StoredPage[]): Document => {
+  const version = record.schema_version ?? 0;
+  let migratedPages: DocumentPage[] = pages.map(page => ({
+    id: page.id,
+    title: page.title,
+    content: page.content,
+    page_number: page.page_number,
+    created_at: page.created_at,
+    updated_at: page.updated_at,
+  }));
+
+  if (version < 1) {
+    // Schema 0 had no pages: turn the document content into page 1
+    if (migratedPages.length === 0) {
+      migratedPages = [{
+        id: `${record.id}-page-1`,
+        title: '',
+        content: record.content || '',
+        page_number: 1,
+        created_at: record.created_at,
+        updated_at: record.updated_at,
+      }];
+    }
+  }
+
+  const sortedPages = [...migratedPages].sort((a, b) => a.page_number - b.page_number);
+
+  return {
+    id: record.id,
+    title: record.title,
+    pages: sortedPages,
+    current_page: Math.min(Math.max(record.current_page || 1, 1), Math.max(sortedPages.length, 1)),
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    metadata: record.metadata,
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export class DocumentStorageService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          const oldVersion = event.oldVersion;
+          console.log(`🗄️ Upgrading document database from v${oldVersion} to v${DB_VERSION}`);
+          for (let version = oldVersion + 1; version <= DB_VERSION; version++) {
+            DB_MIGRATIONS[version]?.(db);
+          }
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          // Another tab upgraded the schema: close so it is not blocked
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Load every stored document with its pages, plus the last open document
+  static async loadWorkspace(): Promise<StoredWorkspace> {
+    if (!this.isSupported()) {
+      return { documents: [] };
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([DOCUMENTS_STORE, PAGES_STORE, META_STORE], 'readonly');
+
+    const [storedDocuments, storedPages, lastOpen] = await Promise.all([
+      requestToPromise<StoredDocument[]>(transaction.objectStore(DOCUMENTS_STORE).getAll()),
+      requestToPromise<StoredPage[]>(transaction.objectStore(PAGES_STORE).getAll()),
+      requestToPromise<StoredMeta | undefined>(transaction.objectStore(META_STORE).get(LAST_OPEN_DOCUMENT_KEY)),
+    ]);
+
+    const pagesByDocument = new Map<string, StoredPage[]>();
+    for (const page of storedPages) {
+      const list = pagesByDocument.get(page.document_id) || [];
+      list.push(page);
+      pagesByDocument.set(page.document_id, list);
+    }
+
+    const documents = storedDocuments
+      .map(record => migrateStoredDocument(record, pagesByDocument.get(record.id) || []))
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+    return {
+      documents,
+      lastOpenDocumentId: typeof lastOpen?.value === 'string' ? lastOpen.value : undefined,
+    };
+  }
+
+  // Write the given documents in a single transaction; pages no longer in them are removed.
+  // Other stored documents are left alone: removing one goes through deleteDocuments.
+  static async saveDocuments(documents: Document[]): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([DOCUMENTS_STORE, PAGES_STORE], 'readwrite');
+    const documentStore = transaction.objectStore(DOCUMENTS_STORE);
+    const pageStore = transaction.objectStore(PAGES_STORE);
+    const pagesByDocument = pageStore.index('document_id');
+
+    const existingPageIds = await Promise.all(
+      documents.map(document => requestToPromise(pagesByDocument.getAllKeys(document.id)))
+    );
+
+    documents.forEach((document, index) => {
+      const { pages, ...rest } = document;
+      const storedDocument: StoredDocument = { ...rest, schema_version: DOCUMENT_SCHEMA_VERSION };
+      documentStore.put(storedDocument);
+
+      for (const page of pages) {
+        const storedPage: StoredPage = {
+          ...page,
+          document_id: document.id,
+          schema_version: DOCUMENT_SCHEMA_VERSION,
+        };
+        pageStore.put(storedPage);
+      }
+
+      const keepPageIds = new Set(pages.map(page => page.id));
+      for (const id of existingPageIds[index]) {
+        if (!keepPageIds.has(String(id))) pageStore.delete(id);
+      }
+    });
+
+    await transactionDone(transaction);
+  }
+
+  // Remove documents and their pages
+  static async deleteDocuments(documentIds: string[]): Promise<void> {
+    if (!this.isSupported() || documentIds.length === 0) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([DOCUMENTS_STORE, PAGES_STORE], 'readwrite');
+    const documentStore = transaction.objectStore(DOCUMENTS_STORE);
+    const pageStore = transaction.objectStore(PAGES_STORE);
+    const pagesByDocument = pageStore.index('document_id');
+
+    const pageIds = await Promise.all(documentIds.map(id => requestToPromise(pagesByDocument.getAllKeys(id))));
+    for (const id of documentIds) documentStore.delete(id);
+    for (const id of pageIds.flat()) pageStore.delete(id);
+
+    await transactionDone(transaction);
+  }
+
+  static async setLastOpenDocument(documentId?: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    const store = transaction.objectStore(META_STORE);
+    if (documentId) {
+      const meta: StoredMeta = { key: LAST_OPEN_DOCUMENT_KEY, value: documentId };
+      store.put(meta);
+    } else {
+      store.delete(LAST_OPEN_DOCUMENT_KEY);
+    }
+    await transactionDone(transaction);
+  }
+
+  // Documents deleted here whose deletion has not reached the server store yet
+  static async loadPendingDeletions(): Promise<DocumentTombstone[]> {
+    if (!this.isSupported()) return [];
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(META_STORE, 'readonly');
+    const meta = await requestToPromise<StoredMeta | undefined>(transaction.objectStore(META_STORE).get(PENDING_DELETIONS_KEY));
+    return Array.isArray(meta?.value) ? meta.value : [];
+  }
+
+  static async savePendingDeletions(tombstones: DocumentTombstone[]): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    const meta: StoredMeta = { key: PENDING_DELETIONS_KEY, value: tombstones };
+    transaction.objectStore(META_STORE).put(meta);
+    await transactionDone(transaction);
+  }
+
+  // Offline voice commands, oldest first
+  static async loadCommandQueue(): Promise<QueuedCommand[]> {
+    if (!this.isSupported()) return [];
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(COMMAND_QUEUE_STORE, 'readonly');
+    const commands = await requestToPromise<QueuedCommand[]>(transaction.objectStore(COMMAND_QUEUE_STORE).getAll());
+    return commands.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+  }
+
+  static async enqueueCommand(command: QueuedCommand): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(COMMAND_QUEUE_STORE, 'readwrite');
+    transaction.objectStore(COMMAND_QUEUE_STORE).put(command);
+    await transactionDone(transaction);
+  }
+
+  static async removeQueuedCommand(id: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(COMMAND_QUEUE_STORE, 'readwrite');
+    transaction.objectStore(COMMAND_QUEUE_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+}
+
+export default DocumentStorageService;
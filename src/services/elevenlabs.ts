@@ -0,0 +1,84 @@
+import { ElevenLabsVoice, STTOptions, STTResult, TTSOptions } from '@/types';
+
+export type { ElevenLabsVoice, STTOptions, STTResult, TTSOptions };
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => undefined);
+  return body?.error || `ElevenLabs trả về lỗi ${response.status}`;
+};
+
+/**
+ * Client for ElevenLabs speech-to-text and text-to-speech. Requests go
+ * through the /api/elevenlabs route handlers, which hold the API key, so the
+ * key never reaches the browser.
+ */
+export class ElevenLabsService {
+  private ready = false;
+  private pendingInitialization?: Promise<boolean>;
+
+  constructor(private readonly baseUrl = '/api/elevenlabs') {}
+
+  get initialized(): boolean {
+    return this.ready;
+  }
+
+  // Checks that the server has ElevenLabs configured; only a failed check is repeated
+  initialize(): Promise<boolean> {
+    if (this.ready) return Promise.resolve(true);
+    this.pendingInitialization ??= fetch(`${this.baseUrl}/status`)
+      .then(async response => {
+        this.ready = response.ok && (await response.json()).configured === true;
+        if (!this.ready) console.warn('⚠️ ElevenLabs is not configured on the server');
+        return this.ready;
+      })
+      .catch(error => {
+        console.error('❌ Could not reach the ElevenLabs proxy:', error);
+        return false;
+      })
+      .finally(() => {
+        this.pendingInitialization = undefined;
+      });
+    return this.pendingInitialization;
+  }
+
+  async speechToText(audio: Blob, options: STTOptions = {}, signal?: AbortSignal): Promise<STTResult> {
+    const form = new FormData();
+    form.append('file', audio, 'speech.webm');
+    if (options.languageCode) form.append('language_code', options.languageCode);
+    if (options.modelId) form.append('model_id', options.modelId);
+    if (options.tagAudioEvents !== undefined) form.append('tag_audio_events', String(options.tagAudioEvents));
+    if (options.diarize !== undefined) form.append('diarize', String(options.diarize));
+
+    const response = await fetch(`${this.baseUrl}/speech-to-text`, { method: 'POST', body: form, signal });
+    if (!response.ok) throw new Error(await readError(response));
+    return response.json();
+  }
+
+  // Streaming response; play it with createAudioStreamUrl to start before the download finishes
+  async streamTextToSpeech(text: string, options: TTSOptions = {}, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/text-to-speech`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, ...options }),
+      signal,
+    });
+    if (!response.ok) throw new Error(await readError(response));
+    return response;
+  }
+
+  // The whole clip at once
+  async textToSpeech(text: string, options: TTSOptions = {}, signal?: AbortSignal): Promise<ArrayBuffer> {
+    const response = await this.streamTextToSpeech(text, options, signal);
+    return response.arrayBuffer();
+  }
+
+  async getVoices(): Promise<ElevenLabsVoice[]> {
+    const response = await fetch(`${this.baseUrl}/voices`);
+    if (!response.ok) throw new Error(await readError(response));
+    return response.json();
+  }
+}
+
+export const elevenLabsService = new ElevenLabsService();
+
+export default elevenLabsService;
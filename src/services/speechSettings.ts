@@ -0,0 +1,76 @@
+import { SpeechSettings } from '@/types';
+import { DEFAULT_WAKE_PHRASES } from '@/lib/wakeWord';
+
+const STORAGE_KEY = 'writesense:speechSettings';
+
+// Build-time defaults, overridden by what the user saves in the speech settings panel
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  sttProvider: 'web_speech',
+  sttHttpUrl: process.env.NEXT_PUBLIC_STT_HTTP_URL || '',
+  ttsProvider: 'web_speech',
+  ttsHttpUrl: process.env.NEXT_PUBLIC_TTS_HTTP_URL || '',
+  elevenLabsVoiceId: process.env.NEXT_PUBLIC_ELEVENLABS_VOICE_ID || '',
+  vad: {
+    sensitivity: 3,
+    minLevel: 0.01,
+    hangoverMs: 300,
+    endOfTurnMs: 1200,
+    maxEndOfTurnMs: 3000,
+  },
+  wakePhrases: DEFAULT_WAKE_PHRASES,
+  wakeAcknowledgement: 'earcon',
+  spokenPunctuation: true,
+  punctuationPhrases: {},
+};
+
+let cachedSettings: SpeechSettings | undefined;
+const listeners = new Set<(settings: SpeechSettings) => void>();
+
+// Runtime configuration of the speech backends, kept in localStorage
+export class SpeechSettingsService {
+  static load(): SpeechSettings {
+    if (cachedSettings) return cachedSettings;
+    if (typeof window === 'undefined') return DEFAULT_SPEECH_SETTINGS;
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      // Older versions kept the ElevenLabs key in the browser; it lives on the server now,
+      // so drop it from storage as well, not just from memory
+      if ('elevenLabsApiKey' in parsed || 'elevenLabsBaseUrl' in parsed) {
+        delete parsed.elevenLabsApiKey;
+        delete parsed.elevenLabsBaseUrl;
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(parsed));
+      }
+      cachedSettings = {
+        ...DEFAULT_SPEECH_SETTINGS,
+        ...parsed,
+        vad: { ...DEFAULT_SPEECH_SETTINGS.vad, ...parsed.vad },
+      };
+    } catch (error) {
+      console.warn('⚠️ Could not read speech settings, using defaults:', error);
+      cachedSettings = DEFAULT_SPEECH_SETTINGS;
+    }
+    return cachedSettings!;
+  }
+
+  static save(settings: SpeechSettings): void {
+    cachedSettings = settings;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('⚠️ Could not save speech settings:', error);
+    }
+    listeners.forEach(listener => listener(settings));
+  }
+
+  // Called with the new settings after every save; returns the unsubscribe function
+  static subscribe(listener: (settings: SpeechSettings) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
+
+export default SpeechSettingsService;
@@ -0,0 +1,579 @@
+import { SpeechSettings, SpeechToTextProviderId, VoiceActivitySettings } from '@/types';
+import { elevenLabsService } from '@/services/elevenlabs';
+import {
+  EnergyVoiceActivityDetector,
+  MicrophoneLevelMeter,
+  VoiceActivityFrame,
+  createMicrophoneLevelMeter,
+  isEndOfTurn,
+} from '@/lib/voiceActivity';
+
+/**
+ * Events every speech-to-text backend reports, whatever it runs on.
+ * Providers that transcribe recorded audio have no interim results: they
+ * report the utterance once, as final and then silence.
+ */
+export type SpeechToTextEvent =
+  | { type: 'start' }
+  // Everything heard in the current utterance, including words that may still change
+  | { type: 'interim'; transcript: string }
+  // The stable part of the current utterance so far
+  | { type: 'final'; transcript: string }
+  // The user paused long enough: the utterance is complete
+  | { type: 'silence'; transcript: string }
+  // Microphone level for on-screen meters, a few times a second while listening
+  | { type: 'level'; frame: VoiceActivityFrame }
+  | { type: 'error'; error: string }
+  | { type: 'end' };
+
+export type SpeechToTextListener = (event: SpeechToTextEvent) => void;
+
+export interface SpeechToTextOptions {
+  // BCP 47 tag, e.g. "vi-VN"
+  language: string;
+  // Decides when the user has finished speaking
+  vad: VoiceActivitySettings;
+}
+
+export interface SpeechToTextProvider {
+  readonly id: SpeechToTextProviderId;
+  isSupported(): boolean;
+  start(): Promise<void>;
+  // Stops listening; an utterance that was not completed yet is dropped
+  stop(): void;
+  // Stops listening once the utterance in progress has been reported, as if the user had paused
+  finish(): Promise<void>;
+  subscribe(listener: SpeechToTextListener): () => void;
+  // Stops and forgets all listeners
+  dispose(): void;
+}
+
+export const SPEECH_TO_TEXT_PROVIDER_LABELS: Record<SpeechToTextProviderId, string> = {
+  web_speech: 'Trình duyệt (Web Speech API)',
+  http: 'Máy chủ nhận dạng (HTTP)',
+  elevenlabs: 'ElevenLabs',
+};
+
+// How often the microphone level is measured
+const LEVEL_INTERVAL_MS = 50;
+// Level events are sent less often; a meter needs no more
+const LEVEL_EVENT_INTERVAL_MS = 100;
+
+abstract class BaseSpeechToTextProvider implements SpeechToTextProvider {
+  abstract readonly id: SpeechToTextProviderId;
+  private listeners = new Set<SpeechToTextListener>();
+  private lastLevelEventAt = 0;
+
+  constructor(protected options: SpeechToTextOptions) {}
+
+  abstract isSupported(): boolean;
+  abstract start(): Promise<void>;
+  abstract stop(): void;
+  abstract finish(): Promise<void>;
+
+  subscribe(listener: SpeechToTextListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  protected emit(event: SpeechToTextEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  protected emitLevel(frame: VoiceActivityFrame, now: number): void {
+    if (now - this.lastLevelEventAt < LEVEL_EVENT_INTERVAL_MS) return;
+    this.lastLevelEventAt = now;
+    this.emit({ type: 'level', frame });
+  }
+}
+
+interface SpeechRecognitionInterface {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onstart: ((this: SpeechRecognitionInterface, ev: Event) => void) | null;
+  onresult: ((this: SpeechRecognitionInterface, ev: SpeechRecognitionEvent) => void) | null;
+  onerror: ((this: SpeechRecognitionInterface, ev: SpeechRecognitionErrorEvent) => void) | null;
+  onend: ((this: SpeechRecognitionInterface, ev: Event) => void) | null;
+}
+
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string;
+  message?: string;
+}
+
+interface SpeechRecognitionResultList {
+  length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionResult {
+  length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+  isFinal: boolean;
+}
+
+interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: {
+      new (): SpeechRecognitionInterface;
+    };
+    webkitSpeechRecognition: {
+      new (): SpeechRecognitionInterface;
+    };
+  }
+}
+
+const getSpeechRecognition = () =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+// The browser's own recognizer: streams interim results, no audio leaves through our code
+export class WebSpeechProvider extends BaseSpeechToTextProvider {
+  readonly id = 'web_speech' as const;
+  private recognition: SpeechRecognitionInterface | null = null;
+  // Level detector on a second microphone stream, for end-of-turn detection
+  private turn?: {
+    detector: EnergyVoiceActivityDetector;
+    stream?: MediaStream;
+    meter?: MicrophoneLevelMeter;
+    timer: ReturnType<typeof setInterval>;
+  };
+  private finalTranscript = '';
+  private interimTranscript = '';
+  private lastResultAt?: number;
+  // Results before this index belong to turns already reported
+  private turnStartIndex = 0;
+  private resultCount = 0;
+
+  isSupported(): boolean {
+    return !!getSpeechRecognition();
+  }
+
+  async start(): Promise<void> {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) {
+      this.emit({ type: 'error', error: 'Speech recognition not supported' });
+      return;
+    }
+
+    if (this.recognition) {
+      console.log('🔄 Already listening, stopping first...');
+      this.stop();
+      // Wait a bit for the previous session to clean up
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = this.options.language;
+
+    recognition.onstart = () => {
+      console.log('🎤 Speech recognition started');
+      this.emit({ type: 'start' });
+    };
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      // Results for audio captured before stop() belong to no utterance
+      if (this.recognition !== recognition) return;
+      let interimTranscript = '';
+      let finalTranscript = '';
+
+      this.resultCount = event.results.length;
+      for (let i = Math.max(event.resultIndex, this.turnStartIndex); i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finalTranscript += result[0].transcript;
+        } else {
+          interimTranscript += result[0].transcript;
+        }
+      }
+
+      if (finalTranscript) {
+        this.finalTranscript += finalTranscript;
+        console.log('✅ Final transcript:', finalTranscript);
+        this.emit({ type: 'final', transcript: this.finalTranscript });
+      }
+      if (interimTranscript) {
+        console.log('⏳ Interim transcript:', interimTranscript);
+      }
+      this.interimTranscript = interimTranscript;
+      this.emit({ type: 'interim', transcript: this.finalTranscript + this.interimTranscript });
+
+      // New words keep the turn open, even when the level detector missed them
+      if (finalTranscript || interimTranscript) {
+        this.lastResultAt = Date.now();
+      }
+      this.checkEndOfTurn();
+    };
+
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      if (this.recognition !== recognition) return;
+      console.error('🚫 Speech recognition error:', event.error);
+      this.stopTurnDetection();
+      this.emit({ type: 'error', error: event.error });
+    };
+
+    // Ended by the browser; stop() reports its own end, and a stopped instance may end after a new one started
+    recognition.onend = () => {
+      console.log('🛑 Speech recognition ended');
+      if (this.recognition !== recognition) return;
+      this.stopTurnDetection();
+      this.recognition = null;
+      this.emit({ type: 'end' });
+    };
+
+    this.recognition = recognition;
+    this.finalTranscript = '';
+    this.interimTranscript = '';
+    this.lastResultAt = undefined;
+    this.turnStartIndex = 0;
+    this.resultCount = 0;
+    try {
+      recognition.start();
+      console.log('🎤 Starting speech recognition...');
+    } catch (error) {
+      this.recognition = null;
+      throw error;
+    }
+    await this.startTurnDetection(recognition);
+  }
+
+  stop(): void {
+    this.stopTurnDetection();
+    const recognition = this.recognition;
+    if (!recognition) return;
+
+    this.recognition = null;
+    try {
+      recognition.stop();
+    } catch (error) {
+      console.error('Error stopping recognition:', error);
+      try {
+        recognition.abort();
+      } catch (abortError) {
+        console.error('Error aborting recognition:', abortError);
+      }
+    }
+    this.emit({ type: 'end' });
+  }
+
+  async finish(): Promise<void> {
+    const transcript = this.finalTranscript + this.interimTranscript;
+    // Words still interim are sent as heard; the recognizer gets no time to revise them
+    if (this.recognition && transcript.trim()) {
+      console.log('🔇 Utterance finished by the user');
+      this.endTurn(transcript);
+    }
+    this.stop();
+  }
+
+  private async startTurnDetection(recognition: SpeechRecognitionInterface): Promise<void> {
+    const detector = new EnergyVoiceActivityDetector(this.options.vad);
+    let stream: MediaStream | undefined;
+    let meter: MicrophoneLevelMeter | undefined;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false },
+      });
+      meter = createMicrophoneLevelMeter(stream);
+    } catch (error) {
+      // Recognizer results alone still end the turn, just less precisely
+      console.warn('⚠️ No microphone level for end-of-turn detection:', error);
+    }
+    if (this.recognition !== recognition) {
+      meter?.close();
+      stream?.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const timer = setInterval(() => {
+      if (meter) {
+        const now = Date.now();
+        this.emitLevel(detector.process(meter.read(), now), now);
+      }
+      this.checkEndOfTurn();
+    }, LEVEL_INTERVAL_MS);
+    this.turn = { detector, stream, meter, timer };
+  }
+
+  private stopTurnDetection(): void {
+    const turn = this.turn;
+    if (!turn) return;
+    this.turn = undefined;
+    clearInterval(turn.timer);
+    turn.meter?.close();
+    turn.stream?.getTracks().forEach(track => track.stop());
+  }
+
+  // Silence counts from the later of the last speech heard and the last recognizer result
+  private checkEndOfTurn(): void {
+    const transcript = this.finalTranscript + this.interimTranscript;
+    if (!this.turn || this.lastResultAt === undefined || !transcript.trim()) return;
+
+    const now = Date.now();
+    const acousticSilence = this.turn.meter ? this.turn.detector.silenceMs(now) : undefined;
+    const silenceMs = Math.min(acousticSilence ?? Infinity, now - this.lastResultAt);
+    if (!isEndOfTurn(silenceMs, !this.interimTranscript, this.options.vad)) return;
+
+    console.log(`🔇 End of turn after ${silenceMs} ms of silence${this.interimTranscript ? ' (recognizer not final)' : ''}`);
+    this.endTurn(transcript);
+  }
+
+  private endTurn(transcript: string): void {
+    // A late final for words reported here must not start the next turn
+    this.turnStartIndex = this.resultCount;
+    this.finalTranscript = '';
+    this.interimTranscript = '';
+    this.lastResultAt = undefined;
+    this.turn?.detector.resetUtterance();
+    this.emit({ type: 'silence', transcript });
+  }
+}
+
+// Recordings are cut here even without a pause, to keep uploads small
+const MAX_UTTERANCE_MS = 30000;
+// Shorter recordings are clicks or breaths, not worth a transcription request
+const MIN_SPEECH_MS = 300;
+
+const pickRecordingMimeType = (): string | undefined =>
+  ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'].find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records the microphone, cuts utterances at pauses found by the level
+ * detector and sends each one to a transcription service.
+ */
+abstract class RecordedSpeechProvider extends BaseSpeechToTextProvider {
+  private session?: {
+    stream: MediaStream;
+    meter: MicrophoneLevelMeter;
+    recorder: MediaRecorder;
+    timer: ReturnType<typeof setInterval>;
+    // Set by finish(): receives the last recording instead of recording on
+    onFinished?: (audio: Blob | undefined) => void;
+  };
+  // Transcriptions of stopped sessions are dropped
+  private sessionId = 0;
+  private requests = new Set<AbortController>();
+  private transcriptions = new Set<Promise<void>>();
+
+  protected abstract transcribe(audio: Blob, signal: AbortSignal): Promise<string>;
+
+  // Why the provider can't run with its current settings, if it can't
+  protected getConfigurationError(): string | undefined | Promise<string | undefined> {
+    return undefined;
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+  }
+
+  async start(): Promise<void> {
+    const configurationError = await this.getConfigurationError();
+    if (configurationError) {
+      this.emit({ type: 'error', error: configurationError });
+      return;
+    }
+    if (this.session) this.stop();
+
+    const sessionId = ++this.sessionId;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+    });
+    if (sessionId !== this.sessionId) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const mimeType = pickRecordingMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const meter = createMicrophoneLevelMeter(stream);
+    const detector = new EnergyVoiceActivityDetector(this.options.vad);
+
+    let chunks: Blob[] = [];
+    let utteranceStart = Date.now();
+    let speechMs = 0;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      const audio = new Blob(chunks, { type: recorder.mimeType });
+      const hadSpeech = speechMs >= MIN_SPEECH_MS;
+      chunks = [];
+      speechMs = 0;
+      detector.resetUtterance();
+      if (sessionId !== this.sessionId) return;
+
+      const onFinished = this.session?.onFinished;
+      if (onFinished) {
+        onFinished(hadSpeech ? audio : undefined);
+        return;
+      }
+      // Keep listening for the next utterance while the transcription runs
+      utteranceStart = Date.now();
+      recorder.start();
+      if (hadSpeech) this.queueTranscription(audio, sessionId);
+    };
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const frame = detector.process(meter.read(), now);
+      this.emitLevel(frame, now);
+      if (frame.isSpeech) speechMs += LEVEL_INTERVAL_MS;
+
+      // Nothing is transcribed before the cut, so the recording counts as final
+      const isPause = isEndOfTurn(detector.silenceMs(now), true, this.options.vad);
+      const isTooLong = now - utteranceStart >= MAX_UTTERANCE_MS;
+      if ((isPause || isTooLong) && recorder.state === 'recording') {
+        if (isPause) console.log('🔇 End of utterance after', this.options.vad.endOfTurnMs, 'ms of silence');
+        recorder.stop();
+      }
+    }, LEVEL_INTERVAL_MS);
+
+    this.session = { stream, meter, recorder, timer };
+    recorder.start();
+    console.log(`🎤 Recording for ${this.id} transcription`);
+    this.emit({ type: 'start' });
+  }
+
+  stop(): void {
+    this.sessionId++;
+    this.requests.forEach(controller => controller.abort());
+    this.requests.clear();
+    const session = this.session;
+    if (!session) return;
+
+    this.session = undefined;
+    clearInterval(session.timer);
+    if (session.recorder.state !== 'inactive') session.recorder.stop();
+    session.stream.getTracks().forEach(track => track.stop());
+    session.meter.close();
+    this.emit({ type: 'end' });
+  }
+
+  async finish(): Promise<void> {
+    const session = this.session;
+    if (!session) return;
+    const sessionId = this.sessionId;
+
+    clearInterval(session.timer);
+    if (session.recorder.state === 'recording') {
+      const audio = await new Promise<Blob | undefined>(resolve => {
+        session.onFinished = resolve;
+        session.recorder.stop();
+      });
+      if (audio && sessionId === this.sessionId) this.queueTranscription(audio, sessionId);
+    }
+    // Utterances cut earlier may still be transcribing; nothing said before the release is lost
+    await Promise.allSettled([...this.transcriptions]);
+    if (sessionId === this.sessionId) this.stop();
+  }
+
+  private queueTranscription(audio: Blob, sessionId: number): void {
+    const transcription = this.transcribeUtterance(audio, sessionId);
+    this.transcriptions.add(transcription);
+    transcription.finally(() => this.transcriptions.delete(transcription));
+  }
+
+  private async transcribeUtterance(audio: Blob, sessionId: number): Promise<void> {
+    const controller = new AbortController();
+    this.requests.add(controller);
+    try {
+      console.log(`📤 Transcribing ${Math.round(audio.size / 1024)} KB with ${this.id}`);
+      const transcript = (await this.transcribe(audio, controller.signal)).trim();
+      if (sessionId !== this.sessionId || !transcript) return;
+
+      console.log('✅ Final transcript:', transcript);
+      this.emit({ type: 'final', transcript });
+      this.emit({ type: 'silence', transcript });
+    } catch (error) {
+      if (sessionId !== this.sessionId) return;
+      console.error(`❌ ${this.id} transcription failed:`, error);
+      // Errors end the session, as they do for the browser recognizer
+      this.stop();
+      this.emit({ type: 'error', error: error instanceof Error ? error.message : 'Không nhận dạng được giọng nói' });
+    } finally {
+      this.requests.delete(controller);
+    }
+  }
+}
+
+// Language code without the region, as most transcription APIs expect ("vi-VN" → "vi")
+const getBaseLanguage = (language: string) => language.split('-')[0];
+
+// Any endpoint that takes multipart "file" (+ "language") and answers { text } or { transcript }
+export class HttpSpeechProvider extends RecordedSpeechProvider {
+  readonly id = 'http' as const;
+
+  constructor(options: SpeechToTextOptions, private url: string) {
+    super(options);
+  }
+
+  protected getConfigurationError(): string | undefined {
+    return this.url.trim() ? undefined : 'Chưa cấu hình địa chỉ máy chủ nhận dạng giọng nói';
+  }
+
+  protected async transcribe(audio: Blob, signal: AbortSignal): Promise<string> {
+    const form = new FormData();
+    form.append('file', audio, 'speech.webm');
+    form.append('language', getBaseLanguage(this.options.language));
+
+    const response = await fetch(this.url, { method: 'POST', body: form, signal });
+    if (!response.ok) {
+      throw new Error(`Máy chủ nhận dạng trả về lỗi ${response.status}`);
+    }
+    const result = await response.json();
+    return result.text ?? result.transcript ?? '';
+  }
+}
+
+// ElevenLabs speech-to-text (Scribe) through the server-side proxy
+export class ElevenLabsSpeechProvider extends RecordedSpeechProvider {
+  readonly id = 'elevenlabs' as const;
+
+  protected async getConfigurationError(): Promise<string | undefined> {
+    return (await elevenLabsService.initialize()) ? undefined : 'Máy chủ chưa cấu hình ElevenLabs';
+  }
+
+  protected async transcribe(audio: Blob, signal: AbortSignal): Promise<string> {
+    const result = await elevenLabsService.speechToText(audio, { languageCode: getBaseLanguage(this.options.language) }, signal);
+    return result.text;
+  }
+}
+
+export const createSpeechToTextProvider = (
+  settings: Pick<SpeechSettings, 'sttProvider' | 'sttHttpUrl'>,
+  options: SpeechToTextOptions
+): SpeechToTextProvider => {
+  switch (settings.sttProvider) {
+    case 'http':
+      return new HttpSpeechProvider(options, settings.sttHttpUrl);
+    case 'elevenlabs':
+      return new ElevenLabsSpeechProvider(options);
+    default:
+      return new WebSpeechProvider(options);
+  }
+};
@@ -0,0 +1,645 @@
+import { SpeechSettings, TextToSpeechProviderId } from '@/types';
+import { elevenLabsService } from '@/services/elevenlabs';
+import { createAudioStreamUrl } from '@/lib/audioStream';
+
+/**
+ * Events every text-to-speech backend reports. "start" and "progress" are
+ * per utterance; "end" comes once everything queued has been spoken.
+ */
+export type TextToSpeechEvent =
+  | { type: 'start'; text: string }
+  // Share of the current utterance already spoken, 0..1
+  | { type: 'progress'; text: string; progress: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'end' }
+  | { type: 'error'; error: string }
+  | { type: 'activation'; activated: boolean; error?: string };
+
+export type TextToSpeechListener = (event: TextToSpeechEvent) => void;
+
+export interface TextToSpeechVoice {
+  id: string;
+  name: string;
+  language?: string;
+}
+
+export interface TextToSpeechOptions {
+  // BCP 47 tag, e.g. "vi-VN"
+  language: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+  // Already unlocked by a user gesture, e.g. with the provider this one replaces
+  activated?: boolean;
+}
+
+export interface TextToSpeechProvider {
+  readonly id: TextToSpeechProviderId;
+  isSupported(): boolean;
+  // Browsers only play audio after a user gesture; call activate() from one
+  isActivated(): boolean;
+  activate(): Promise<boolean>;
+  // Speak now, dropping anything queued
+  speak(text: string): void;
+  // Speak after whatever is playing; call finishQueue() once nothing more will be added
+  enqueue(text: string): void;
+  finishQueue(): void;
+  pause(): void;
+  resume(): void;
+  // Silence everything; no "end" event follows
+  stop(): void;
+  getVoices(): Promise<TextToSpeechVoice[]>;
+  subscribe(listener: TextToSpeechListener): () => void;
+  dispose(): void;
+}
+
+export const TEXT_TO_SPEECH_PROVIDER_LABELS: Record<TextToSpeechProviderId, string> = {
+  web_speech: 'Trình duyệt (Web Speech API)',
+  http: 'Máy chủ đọc (HTTP)',
+  elevenlabs: 'ElevenLabs',
+};
+
+const ACTIVATION_TEXT = 'Đã kích hoạt chức năng đọc.';
+const NOT_ACTIVATED_ERROR = 'Chức năng đọc cần được kích hoạt bằng một cú nhấp hoặc chạm';
+const BLOCKED_ERROR = 'Chức năng đọc bị chặn. Vui lòng nhấn nút "Kích hoạt đọc" để sử dụng lại';
+// How often a playing utterance is checked on (see onWatchdog)
+const WATCHDOG_INTERVAL_MS = 5000;
+
+// Callbacks for one utterance; calls made after it was stopped or replaced are ignored
+interface Playback {
+  started(): void;
+  progress(fraction: number): void;
+  ended(): void;
+  // blocked: the browser refused to play without a user gesture
+  failed(error: string, blocked?: boolean): void;
+}
+
+/**
+ * Queueing, activation gating and the playback watchdog, shared by all
+ * providers. Subclasses only play one utterance at a time.
+ */
+abstract class BaseTextToSpeechProvider implements TextToSpeechProvider {
+  abstract readonly id: TextToSpeechProviderId;
+  // unlock() already says something, so activation needs no confirmation phrase
+  protected readonly unlockSpeaks: boolean = false;
+
+  private listeners = new Set<TextToSpeechListener>();
+  private queue: string[] = [];
+  // True while the producer may still enqueue more; "end" waits until it finishes
+  private queueOpen = false;
+  private current?: string;
+  private paused = false;
+  private activated: boolean;
+  private watchdog?: ReturnType<typeof setInterval>;
+  private playbackId = 0;
+
+  constructor(protected options: TextToSpeechOptions) {
+    this.activated = options.activated ?? false;
+  }
+
+  abstract isSupported(): boolean;
+  abstract getVoices(): Promise<TextToSpeechVoice[]>;
+  protected abstract play(text: string, playback: Playback): void | Promise<void>;
+  protected abstract cancelPlayback(): void;
+  protected abstract pausePlayback(): void;
+  protected abstract resumePlayback(): void;
+  // Play something from inside a user gesture so later playback is allowed
+  protected abstract unlock(): Promise<boolean>;
+
+  // Called periodically while an utterance is playing
+  protected onWatchdog(): void {}
+
+  isActivated(): boolean {
+    return this.activated;
+  }
+
+  async activate(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    this.stop();
+
+    let activated = false;
+    let error: string | undefined;
+    try {
+      activated = await this.unlock();
+    } catch (unlockError) {
+      console.error('❌ TTS activation failed:', unlockError);
+    }
+    if (!activated) {
+      error = 'Trình duyệt chặn chức năng đọc. Vui lòng cho phép âm thanh trong cài đặt trình duyệt.';
+    }
+
+    this.activated = activated;
+    this.emit({ type: 'activation', activated, error });
+    if (activated && !this.unlockSpeaks) this.speak(ACTIVATION_TEXT);
+    return activated;
+  }
+
+  speak(text: string): void {
+    if (!this.canSpeak(text)) return;
+    this.queue = [];
+    this.queueOpen = false;
+    this.cancelCurrent();
+    this.startUtterance(text);
+  }
+
+  enqueue(text: string): void {
+    if (!this.canSpeak(text)) return;
+    this.queueOpen = true;
+    if (this.current !== undefined) {
+      this.queue.push(text);
+    } else {
+      this.startUtterance(text);
+    }
+  }
+
+  finishQueue(): void {
+    if (!this.queueOpen) return;
+    this.queueOpen = false;
+    // The last sentence already ended while waiting for more
+    if (this.current === undefined && this.queue.length === 0) {
+      this.emit({ type: 'end' });
+    }
+  }
+
+  pause(): void {
+    if (this.current === undefined || this.paused) return;
+    console.log('⏸️ Pausing speech');
+    this.paused = true;
+    this.stopWatchdog();
+    this.pausePlayback();
+    this.emit({ type: 'pause' });
+  }
+
+  resume(): void {
+    if (this.current === undefined || !this.paused) return;
+    console.log('▶️ Resuming speech');
+    this.paused = false;
+    this.resumePlayback();
+    this.startWatchdog();
+    this.emit({ type: 'resume' });
+  }
+
+  stop(): void {
+    this.queue = [];
+    this.queueOpen = false;
+    this.cancelCurrent();
+  }
+
+  subscribe(listener: TextToSpeechListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  protected emit(event: TextToSpeechEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private canSpeak(text: string): boolean {
+    if (!text.trim()) {
+      console.warn('Empty text provided to speak function');
+      return false;
+    }
+    if (!this.isSupported()) {
+      this.emit({ type: 'error', error: 'Speech synthesis not available' });
+      return false;
+    }
+    if (!this.activated) {
+      console.log('🔒 TTS blocked by browser autoplay policy - needs user gesture');
+      this.emit({ type: 'error', error: NOT_ACTIVATED_ERROR });
+      return false;
+    }
+    return true;
+  }
+
+  private startUtterance(text: string): void {
+    const id = ++this.playbackId;
+    const isCurrent = () => id === this.playbackId;
+    this.current = text;
+    this.paused = false;
+
+    const playback: Playback = {
+      started: () => {
+        if (!isCurrent()) return;
+        console.log('🔊 Speech started:', text.substring(0, 50));
+        this.startWatchdog();
+        this.emit({ type: 'start', text });
+      },
+      progress: (fraction) => {
+        if (!isCurrent()) return;
+        this.emit({ type: 'progress', text, progress: Math.min(1, Math.max(0, fraction)) });
+      },
+      ended: () => {
+        if (!isCurrent()) return;
+        this.finishUtterance();
+      },
+      failed: (error, blocked = false) => {
+        if (!isCurrent()) return;
+        console.error('🚫 Speech failed:', error);
+        this.stop();
+        if (blocked) {
+          this.activated = false;
+          this.emit({ type: 'activation', activated: false, error });
+        }
+        this.emit({ type: 'error', error });
+      },
+    };
+
+    try {
+      Promise.resolve(this.play(text, playback)).catch(error => {
+        playback.failed(error instanceof Error ? error.message : 'TTS generation failed');
+      });
+    } catch (error) {
+      playback.failed(error instanceof Error ? error.message : 'TTS generation failed');
+    }
+  }
+
+  private finishUtterance(): void {
+    this.stopWatchdog();
+    this.current = undefined;
+    this.paused = false;
+
+    const next = this.queue.shift();
+    if (next !== undefined) {
+      this.startUtterance(next);
+      return;
+    }
+    // More sentences are on their way
+    if (this.queueOpen) return;
+    console.log('🔊 Speech ended');
+    this.emit({ type: 'end' });
+  }
+
+  private cancelCurrent(): void {
+    if (this.current === undefined) return;
+    this.playbackId++;
+    this.current = undefined;
+    this.paused = false;
+    this.stopWatchdog();
+    this.cancelPlayback();
+  }
+
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    this.watchdog = setInterval(() => this.onWatchdog(), WATCHDOG_INTERVAL_MS);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = undefined;
+    }
+  }
+}
+
+const getSpeechSynthesis = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : undefined;
+
+// The browser's built-in voices
+export class WebSpeechTTSProvider extends BaseTextToSpeechProvider {
+  readonly id = 'web_speech' as const;
+  protected readonly unlockSpeaks = true;
+  // Chrome drops the events of utterances that get garbage collected
+  private utterance?: SpeechSynthesisUtterance;
+
+  isSupported(): boolean {
+    return !!getSpeechSynthesis();
+  }
+
+  async getVoices(): Promise<TextToSpeechVoice[]> {
+    const synth = getSpeechSynthesis();
+    if (!synth) return [];
+
+    // Voices load asynchronously on first use
+    let voices = synth.getVoices();
+    if (!voices.length) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          synth.removeEventListener('voiceschanged', done);
+          resolve();
+        };
+        synth.addEventListener('voiceschanged', done);
+        setTimeout(done, 1000);
+      });
+      voices = synth.getVoices();
+    }
+    return voices.map(voice => ({ id: voice.voiceURI, name: voice.name, language: voice.lang }));
+  }
+
+  // Exact language, then the same language in any region, then the default voice
+  private pickVoice(): SpeechSynthesisVoice | undefined {
+    const voices = getSpeechSynthesis()?.getVoices() ?? [];
+    const language = this.options.language.toLowerCase();
+    const baseLanguage = language.split('-')[0];
+    return voices.find(voice => voice.lang.toLowerCase() === language) ??
+      voices.find(voice => voice.lang.toLowerCase().startsWith(baseLanguage)) ??
+      voices.find(voice => voice.default);
+  }
+
+  protected play(text: string, playback: Playback): void {
+    const synth = getSpeechSynthesis()!;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = this.options.rate;
+    utterance.pitch = this.options.pitch;
+    utterance.volume = this.options.volume;
+
+    const voice = this.pickVoice();
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else {
+      utterance.lang = this.options.language;
+    }
+
+    utterance.onstart = () => playback.started();
+    utterance.onboundary = (event) => playback.progress(event.charIndex / text.length);
+    utterance.onend = () => playback.ended();
+    utterance.onerror = (event) => {
+      // Cut short by something other than stop(): carry on with the queue
+      if (event.error === 'interrupted' || event.error === 'canceled') {
+        playback.ended();
+      } else if (event.error === 'not-allowed') {
+        playback.failed(BLOCKED_ERROR, true);
+      } else {
+        playback.failed(`Speech synthesis error: ${event.error}`);
+      }
+    };
+
+    this.utterance = utterance;
+    synth.speak(utterance);
+  }
+
+  protected cancelPlayback(): void {
+    this.utterance = undefined;
+    getSpeechSynthesis()?.cancel();
+  }
+
+  protected pausePlayback(): void {
+    getSpeechSynthesis()?.pause();
+  }
+
+  protected resumePlayback(): void {
+    getSpeechSynthesis()?.resume();
+  }
+
+  // Chrome silently stops utterances after about 15 seconds unless nudged
+  protected onWatchdog(): void {
+    const synth = getSpeechSynthesis();
+    if (synth?.speaking && !synth.paused) {
+      synth.pause();
+      synth.resume();
+    }
+  }
+
+  protected unlock(): Promise<boolean> {
+    return new Promise<boolean>(resolve => {
+      const synth = getSpeechSynthesis()!;
+      synth.cancel();
+
+      // Short and a bit quiet, to keep the microphone from hearing it
+      const utterance = new SpeechSynthesisUtterance(ACTIVATION_TEXT);
+      utterance.lang = this.options.language;
+      utterance.rate = 1.2;
+      utterance.volume = 0.8;
+      utterance.onstart = () => {
+        console.log('✅ TTS successfully unlocked by user gesture');
+        resolve(true);
+      };
+      utterance.onerror = (event) => {
+        console.error('❌ TTS activation failed:', event.error);
+        resolve(false);
+      };
+      this.utterance = utterance;
+      synth.speak(utterance);
+    });
+  }
+}
+
+// 0.1 s of silence, played from the activation gesture to unlock the audio element
+const createSilentAudioUrl = (): string => {
+  const samples = 800;
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, 8000, true);
+  view.setUint32(28, 8000, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples, true);
+  new Uint8Array(buffer, 44).fill(128);
+  return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+};
+
+/**
+ * Synthesizes each utterance on a server and plays the audio through one
+ * audio element, which the activation gesture unlocks. Audio the browser can
+ * stream starts playing before the download finishes.
+ */
+abstract class AudioTextToSpeechProvider extends BaseTextToSpeechProvider {
+  private audio?: HTMLAudioElement;
+  private request?: AbortController;
+  private objectUrl?: string;
+  // Playback position at the last watchdog check, to notice a stalled stream
+  private lastPosition?: number;
+
+  protected abstract synthesize(text: string, signal: AbortSignal): Promise<Response>;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof Audio !== 'undefined';
+  }
+
+  private getAudio(): HTMLAudioElement {
+    this.audio ??= new Audio();
+    return this.audio;
+  }
+
+  private releaseObjectUrl(): void {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = undefined;
+    }
+  }
+
+  protected async play(text: string, playback: Playback): Promise<void> {
+    const controller = new AbortController();
+    this.request = controller;
+    const response = await this.synthesize(text, controller.signal);
+    const url = await createAudioStreamUrl(response);
+    if (controller.signal.aborted) {
+      URL.revokeObjectURL(url);
+      return;
+    }
+    this.request = undefined;
+
+    this.releaseObjectUrl();
+    this.objectUrl = url;
+    this.lastPosition = undefined;
+
+    const audio = this.getAudio();
+    audio.volume = this.options.volume;
+    audio.playbackRate = this.options.rate;
+    let hasStarted = false;
+    audio.onplaying = () => {
+      if (hasStarted) return;
+      hasStarted = true;
+      playback.started();
+    };
+    audio.ontimeupdate = () => {
+      // Streamed audio has no known duration until the download completes
+      if (Number.isFinite(audio.duration) && audio.duration > 0) {
+        playback.progress(audio.currentTime / audio.duration);
+      }
+    };
+    audio.onended = () => {
+      this.releaseObjectUrl();
+      playback.ended();
+    };
+    audio.onerror = () => playback.failed('Audio playback error');
+    audio.src = this.objectUrl;
+
+    try {
+      await audio.play();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        playback.failed(BLOCKED_ERROR, true);
+      } else if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        throw error;
+      }
+    }
+  }
+
+  protected cancelPlayback(): void {
+    this.request?.abort();
+    this.request = undefined;
+    const audio = this.audio;
+    if (audio) {
+      audio.onplaying = audio.ontimeupdate = audio.onended = audio.onerror = null;
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    }
+    this.releaseObjectUrl();
+  }
+
+  protected pausePlayback(): void {
+    this.audio?.pause();
+  }
+
+  protected resumePlayback(): void {
+    this.lastPosition = undefined;
+    this.audio?.play().catch(error => console.error('❌ Could not resume audio:', error));
+  }
+
+  // A stream that stopped moving would otherwise hold the queue forever
+  protected onWatchdog(): void {
+    const audio = this.audio;
+    if (!audio || audio.paused) return;
+    if (this.lastPosition !== undefined && audio.currentTime === this.lastPosition) {
+      console.warn('⚠️ Audio playback stalled, skipping to the next sentence');
+      audio.onended?.(new Event('ended'));
+      return;
+    }
+    this.lastPosition = audio.currentTime;
+  }
+
+  protected async unlock(): Promise<boolean> {
+    const audio = this.getAudio();
+    const url = createSilentAudioUrl();
+    try {
+      audio.src = url;
+      await audio.play();
+      return true;
+    } catch (error) {
+      console.error('❌ Audio activation failed:', error);
+      return false;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+// Language code without the region, as most synthesis APIs expect ("vi-VN" → "vi")
+const getBaseLanguage = (language: string) => language.split('-')[0];
+
+// Any endpoint that takes JSON { text, language, voice } and answers with audio (e.g. the mock server's /tts)
+export class HttpTTSProvider extends AudioTextToSpeechProvider {
+  readonly id = 'http' as const;
+
+  constructor(options: TextToSpeechOptions, private url: string) {
+    super(options);
+  }
+
+  async getVoices(): Promise<TextToSpeechVoice[]> {
+    return [];
+  }
+
+  protected async synthesize(text: string, signal: AbortSignal): Promise<Response> {
+    if (!this.url.trim()) {
+      throw new Error('Chưa cấu hình địa chỉ máy chủ đọc');
+    }
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, language: getBaseLanguage(this.options.language) }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Máy chủ đọc trả về lỗi ${response.status}`);
+    }
+    return response;
+  }
+}
+
+// ElevenLabs text-to-speech through the server-side proxy, streamed as it is generated
+export class ElevenLabsTTSProvider extends AudioTextToSpeechProvider {
+  readonly id = 'elevenlabs' as const;
+
+  // Empty voiceId uses the server's default voice
+  constructor(options: TextToSpeechOptions, private voiceId: string) {
+    super(options);
+  }
+
+  async getVoices(): Promise<TextToSpeechVoice[]> {
+    const voices = await elevenLabsService.getVoices();
+    return voices.map(voice => ({ id: voice.voiceId, name: voice.name, language: voice.language }));
+  }
+
+  protected async synthesize(text: string, signal: AbortSignal): Promise<Response> {
+    return elevenLabsService.streamTextToSpeech(
+      text,
+      { voiceId: this.voiceId.trim() || undefined, language: this.options.language },
+      signal
+    );
+  }
+}
+
+export const createTextToSpeechProvider = (
+  settings: Pick<SpeechSettings, 'ttsProvider' | 'ttsHttpUrl' | 'elevenLabsVoiceId'>,
+  options: TextToSpeechOptions
+): TextToSpeechProvider => {
+  switch (settings.ttsProvider) {
+    case 'http':
+      return new HttpTTSProvider(options, settings.ttsHttpUrl);
+    case 'elevenlabs':
+      return new ElevenLabsTTSProvider(options, settings.elevenLabsVoiceId);
+    default:
+      return new WebSpeechTTSProvider(options);
+  }
+};
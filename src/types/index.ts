@@ -52,6 +52,9 @@ export interface RunCreate {
   };
   stream_mode?: string[] | string;
   multitask_strategy?: 'reject' | 'rollback' | 'interrupt' | 'enqueue';
+  // 'continue' keeps the run going if the stream drops, so it can be rejoined
+  on_disconnect?: 'cancel' | 'continue';
+  stream_resumable?: boolean;
 }
 
 // Frontend specific types
@@ -74,6 +77,12 @@ export interface Document {
   metadata?: Record<string, any>;
 }
 
+// A deleted document, remembered so older copies elsewhere are not synced back
+export interface DocumentTombstone {
+  id: string;
+  deleted_at: string;
+}
+
 export interface VoiceCommand {
   type: 'create' | 'edit' | 'search' | 'delete' | 'read';
   content?: string;
@@ -95,4 +104,191 @@ export interface AppState {
   isLoading: boolean;
   speechRecognition: SpeechRecognitionState;
   agentResponse?: string;
-} 
\ No newline at end of file
+}
+// Agent action protocol
+export type AgentAction =
+  | { type: 'add_to_page'; content: string }
+  | { type: 'rewrite_page'; content: string }
+  | { type: 'create_doc'; content: string; title?: string }
+  | { type: 'set_title_doc'; title: string }
+  | { type: 'read_title_doc' }
+  | { type: 'set_title_page'; title: string }
+  | { type: 'read_title_page' }
+  | { type: 'add_page'; title?: string }
+  | { type: 'next_page' }
+  | { type: 'prev_page' }
+  | { type: 'read_page' }
+  | { type: 'delete_page' }
+  | { type: 'remove_doc' }
+  | { type: 'save_doc' }
+  | { type: 'reply_user'; content?: string };
+
+export type AgentActionType = AgentAction['type'];
+
+export interface AgentToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ParsedAgentResponse {
+  actions: AgentAction[];
+  answer: string;
+  format: 'json' | 'tool_call' | 'text';
+}
+
+// Pending human-in-the-loop step, emitted as "__interrupt__" in LangGraph stream updates
+export interface AgentInterrupt {
+  value: unknown;
+  resumable?: boolean;
+  ns?: string[];
+  when?: string;
+}
+
+// One event of a LangGraph run stream; data is the parsed JSON payload, narrowed per mode by dispatchAgentStreamEvent.
+// The event name is the stream mode, with "|"-separated namespaces for subgraph events.
+export interface AgentStreamEvent {
+  event: string;
+  data: unknown;
+  id?: string;
+}
+
+// A LangGraph message as it appears in stream payloads and thread state
+export interface AgentMessage {
+  id?: string;
+  type?: string;
+  role?: string;
+  content?: unknown;
+  tool_calls?: AgentToolCall[];
+}
+
+// Sentences of an agent answer, spoken while the turn is still streaming
+export interface StreamedAnswer {
+  turnId: string;
+  sentences: string[];
+  // Progress notices spoken during the turn, e.g. while reconnecting; not part of the answer
+  notices: string[];
+  // No more sentences will be added for this turn
+  done: boolean;
+  // The turn did not do what its answer says (needs confirmation, failed, invalid): stop speaking it
+  discarded?: boolean;
+}
+
+// Something the app says on its own, outside of an agent turn
+export interface Announcement {
+  id: string;
+  text: string;
+}
+
+// Voice command captured while the agent was unreachable, replayed when it is back
+export interface QueuedCommand {
+  id: string;
+  text: string;
+  queued_at: string;
+  // Where the command was spoken
+  document_id?: string;
+  page_id?: string;
+  page_number?: number;
+  // Page text at that moment, to notice edits made before the replay
+  page_content?: string;
+}
+
+// Connection to the LangGraph agent server, editable at runtime
+export interface AgentSettings {
+  // Absolute URL, or a same-origin path such as "/api/agent" to go through the Next.js rewrite
+  apiUrl: string;
+  authType: 'none' | 'api_key' | 'bearer';
+  authToken: string;
+  // Preferred assistant; the first one is used when unset or not found
+  assistantId?: string;
+}
+
+export type SpeechToTextProviderId = 'web_speech' | 'http' | 'elevenlabs';
+export type TextToSpeechProviderId = 'web_speech' | 'http' | 'elevenlabs';
+
+// Speech backends, editable at runtime; the voice controller follows changes without reloading
+export interface SpeechSettings {
+  sttProvider: SpeechToTextProviderId;
+  // Transcription endpoint for 'http': receives the recorded audio as multipart "file" and returns { text }
+  sttHttpUrl: string;
+  ttsProvider: TextToSpeechProviderId;
+  // Synthesis endpoint for 'http': receives JSON { text, language } and returns audio
+  ttsHttpUrl: string;
+  // ElevenLabs is reached through /api/elevenlabs, which holds the API key; empty for the default voice
+  elevenLabsVoiceId: string;
+  vad: VoiceActivitySettings;
+  // Phrases that open a command in wake-word mode, matched ignoring case, accents and spacing
+  wakePhrases: string[];
+  wakeAcknowledgement: WakeAcknowledgement;
+  // Turn "dấu phẩy", "xuống dòng"… into punctuation in text added to pages
+  spokenPunctuation: boolean;
+  // The user's own spoken phrases → symbols, on top of the built-in table; an empty symbol turns a built-in one off
+  punctuationPhrases: Record<string, string>;
+}
+
+// How hearing the wake phrase is confirmed: a short tone, a spoken reply, or not at all
+export type WakeAcknowledgement = 'earcon' | 'speech' | 'none';
+
+// Tuning of the microphone level detector that decides when the user has finished speaking
+export interface VoiceActivitySettings {
+  // How many times louder than the background noise speech must be
+  sensitivity: number;
+  // RMS level (0..1) below which nothing counts as speech, even in a silent room
+  minLevel: number;
+  // Quiet gaps shorter than this stay inside the same stretch of speech
+  hangoverMs: number;
+  // Silence that ends the turn once the recognizer has finalized what it heard
+  endOfTurnMs: number;
+  // Silence that ends the turn regardless
+  maxEndOfTurnMs: number;
+}
+
+// How the voice controller decides when the user is talking to it
+// - continuous: always listening, a pause ends the command
+// - push_to_talk: listening only while Space or the mic button is held
+// - toggle: one press starts listening, the next sends the command
+// - wake_word: always listening, but only commands that start with the wake phrase are sent
+export type VoiceInteractionMode = 'continuous' | 'push_to_talk' | 'toggle' | 'wake_word';
+
+// ElevenLabs speech services, as exposed by the /api/elevenlabs proxy
+export interface STTOptions {
+  // ISO 639-1 code; detected automatically when omitted
+  languageCode?: string;
+  modelId?: string;
+  tagAudioEvents?: boolean;
+  diarize?: boolean;
+}
+
+export interface STTWord {
+  text: string;
+  // Seconds from the start of the audio
+  start: number;
+  end: number;
+  type: 'word' | 'spacing' | 'audio_event';
+  speakerId?: string;
+}
+
+export interface STTResult {
+  text: string;
+  languageCode?: string;
+  languageProbability?: number;
+  words?: STTWord[];
+}
+
+export interface TTSOptions {
+  voiceId?: string;
+  modelId?: string;
+  // ISO 639-1 code or a locale such as "vi-VN"
+  language?: string;
+  stability?: number;
+  similarityBoost?: number;
+  style?: number;
+  speed?: number;
+}
+
+export interface ElevenLabsVoice {
+  voiceId: string;
+  name: string;
+  language?: string;
+  previewUrl?: string;
+}